@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * POST /api/runs/delete
+ * Deletes a run; its shows stay saved and settle on their own again.
+ * Requires authentication (RLS enforces ownership)
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { runId } = await request.json();
+
+    if (!runId) {
+      return NextResponse.json({ success: false, error: "runId is required" }, { status: 400 });
+    }
+
+    // shows.run_id is cleared by the foreign key (on delete set null).
+    const { error } = await supabase.from("runs").delete().eq("id", runId).eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting run:", error);
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Delete run error:", err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { computeRunSettlement } from "@/lib/settlement/run";
+import { readStoredRunInput } from "@/lib/settlement/stored-input";
+
+/**
+ * POST /api/runs/save
+ * Groups saved shows into a run (or changes an existing run's nights) and
+ * stores the cross-collateralized settlement.
+ * Requires authentication (RLS enforces ownership)
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { runId, title, showIds } = await request.json();
+
+    if (!title?.trim() || !Array.isArray(showIds) || showIds.length < 2) {
+      return NextResponse.json(
+        { success: false, error: "A run needs a title and at least two shows." },
+        { status: 400 }
+      );
+    }
+
+    const { data: shows, error: showsError } = await supabase
+      .from("shows")
+      .select("id, title, show_date, inputs, run_id")
+      .in("id", showIds)
+      .eq("user_id", user.id);
+
+    if (showsError || !shows || shows.length !== showIds.length) {
+      return NextResponse.json({ success: false, error: "Show not found or access denied" }, { status: 404 });
+    }
+    if (shows.some((show) => show.run_id && show.run_id !== runId)) {
+      return NextResponse.json(
+        { success: false, error: "A show can only belong to one run. Remove it from its current run first." },
+        { status: 400 }
+      );
+    }
+
+    const output = computeRunSettlement(readStoredRunInput(title.trim(), shows));
+    if (!output.ok) {
+      return NextResponse.json({ success: false, error: output.error }, { status: 400 });
+    }
+
+    const runData = { user_id: user.id, title: title.trim(), results: output.result };
+    const { data: run, error: runError } = runId
+      ? await supabase.from("runs").update(runData).eq("id", runId).eq("user_id", user.id).select().single()
+      : await supabase.from("runs").insert([runData]).select().single();
+
+    if (runError || !run) {
+      console.error("Error saving run:", runError);
+      return NextResponse.json({ success: false, error: runError?.message || "Run not found" }, { status: 500 });
+    }
+
+    // Nights dropped from the run settle on their own again.
+    const { error: detachError } = await supabase
+      .from("shows")
+      .update({ run_id: null })
+      .eq("run_id", run.id)
+      .eq("user_id", user.id)
+      .not("id", "in", `(${showIds.join(",")})`);
+    const { error: attachError } = await supabase
+      .from("shows")
+      .update({ run_id: run.id })
+      .in("id", showIds)
+      .eq("user_id", user.id);
+
+    if (detachError || attachError) {
+      console.error("Error updating run nights:", detachError || attachError);
+      return NextResponse.json(
+        { success: false, error: (detachError || attachError)?.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, runId: run.id, warnings: output.warnings });
+  } catch (err) {
+    console.error("Save run error:", err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isAdjustmentKind, isEntryDate } from "@/lib/settlement/adjustments";
+import { parseMoney } from "@/lib/settlement/money";
+
+/**
+ * POST /api/shows/adjustments/add
+ * Appends an entry to a show's adjustments ledger. Entries are never edited
+ * or deleted; a mistake is fixed with a correction entry.
+ * Requires authentication (RLS enforces ownership)
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { showId, kind, entryDate, amount, direction, reason, artistSharePercent } = await request.json();
+
+    if (!showId || !isAdjustmentKind(kind) || !entryDate || !reason?.trim()) {
+      return NextResponse.json(
+        { success: false, error: "An adjustment needs a type, a date and a reason." },
+        { status: 400 }
+      );
+    }
+    if (!isEntryDate(entryDate)) {
+      return NextResponse.json(
+        { success: false, error: "Adjustment date must be a valid date (YYYY-MM-DD)." },
+        { status: 400 }
+      );
+    }
+    const cents = parseMoney(String(amount ?? ""));
+    if (cents <= 0) {
+      return NextResponse.json({ success: false, error: "Adjustment amount must be greater than 0." }, { status: 400 });
+    }
+    const share = parseFloat(String(artistSharePercent ?? ""));
+    if (!Number.isFinite(share) || share < 0 || share > 100) {
+      return NextResponse.json(
+        { success: false, error: "Artist share must be between 0% and 100%." },
+        { status: 400 }
+      );
+    }
+
+    const { data: show, error: showError } = await supabase
+      .from("shows")
+      .select("id")
+      .eq("id", showId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (showError || !show) {
+      return NextResponse.json({ success: false, error: "Show not found or access denied" }, { status: 404 });
+    }
+
+    // Refunds, chargebacks and late invoices always take money out; corrections go either way.
+    const credit = kind === "correction" && direction === "credit";
+    const { data: entry, error } = await supabase
+      .from("show_adjustments")
+      .insert([
+        {
+          show_id: show.id,
+          user_id: user.id,
+          kind,
+          entry_date: entryDate,
+          amount_cents: credit ? cents : -cents,
+          reason: reason.trim(),
+          artist_share_percent: share,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error || !entry) {
+      console.error("Error adding adjustment:", error);
+      return NextResponse.json({ success: false, error: error?.message || "Failed to add adjustment" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, adjustmentId: entry.id });
+  } catch (err) {
+    console.error("Add adjustment error:", err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { createClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
+import { toDecimalString, type Money } from "@/lib/settlement/money";
+import { readStoredResult } from "@/lib/settlement/stored-result";
+import { amendSettlement, readStoredAdjustments } from "@/lib/settlement/adjustments";
 
 function escapeCsvCell(value: string | number | null | undefined): string {
   if (value == null) return "";
@@ -10,6 +13,10 @@ function escapeCsvCell(value: string | number | null | undefined): string {
   return s;
 }
 
+function moneyCell(amount: Money | undefined): string {
+  return amount == null ? "" : toDecimalString(amount);
+}
+
 /**
  * GET /api/shows/export
  * Exports all shows for the authenticated user as CSV.
@@ -42,12 +49,19 @@ export async function GET() {
       );
     }
 
+    const { data: adjustmentRows } = await supabase
+      .from("show_adjustments")
+      .select("id, show_id, kind, entry_date, amount_cents, reason, artist_share_percent, created_at")
+      .eq("user_id", user.id);
+
     const rows: string[] = [];
     const headers = [
       "Show ID",
       "Title",
       "Show Date",
       "Artist(s)",
+      "Currency",
+      "Ticketing Gross",
       "Gross Revenue",
       "Tax Amount",
       "Total Expenses",
@@ -56,6 +70,9 @@ export async function GET() {
       "Venue Payout",
       "Balance Due",
       "Deposit",
+      "Converted Balance Due",
+      "Adjustments (Artist Share)",
+      "Amended Balance Due",
       "Created",
       "Updated",
     ];
@@ -63,24 +80,31 @@ export async function GET() {
 
     for (const show of shows || []) {
       const inputs = (show.inputs as Record<string, unknown>) || {};
-      const results = (show.results as Record<string, unknown>) || {};
+      const results = readStoredResult(show.results);
 
       const artistNames = (() => {
-        const artists = results.artists as { artistName: string }[] | undefined;
+        const artists = results?.artists;
         if (artists && artists.length > 0) {
           return artists.map((a) => a.artistName).join("; ");
         }
         return (inputs.artistName as string) || "";
       })();
 
-      const grossRevenue = (results.grossRevenue as number) ?? "";
-      const taxAmount = (results.taxAmount as number) ?? "";
-      const totalExpenses = (results.totalExpenses as number) ?? "";
-      const netProfit = (results.netProfit as number) ?? "";
-      const artistPayout = (results.artistPayout as number) ?? "";
-      const venuePayout = (results.venuePayout as number) ?? "";
-      const balanceDue = (results.balanceDue as number) ?? "";
-      const deposit = (results.deposit as number) ?? "";
+      const ticketingGross = moneyCell(results?.ticketingGross ?? results?.grossRevenue);
+      const grossRevenue = moneyCell(results?.grossRevenue);
+      const taxAmount = moneyCell(results?.taxAmount);
+      const totalExpenses = moneyCell(results?.totalExpenses);
+      const netProfit = moneyCell(results?.netProfit);
+      const artistPayout = moneyCell(results?.artistPayout);
+      const venuePayout = moneyCell(results?.venuePayout);
+      const balanceDue = moneyCell(results?.balanceDue);
+      const deposit = moneyCell(results?.deposit);
+      const convertedBalances = (results?.artists || [])
+        .filter((a) => a.payoutCurrency && a.convertedBalanceDue != null)
+        .map((a) => `${a.artistName}: ${a.payoutCurrency} ${moneyCell(a.convertedBalanceDue)}`)
+        .join("; ");
+      const adjustments = readStoredAdjustments((adjustmentRows || []).filter((row) => row.show_id === show.id));
+      const amended = results && adjustments.length > 0 ? amendSettlement(results, adjustments) : null;
 
       const showDate = show.show_date
         ? new Date(show.show_date).toISOString().slice(0, 10)
@@ -98,6 +122,8 @@ export async function GET() {
           show.title ?? "",
           showDate,
           artistNames,
+          results?.currency ?? "",
+          ticketingGross,
           grossRevenue,
           taxAmount,
           totalExpenses,
@@ -106,6 +132,9 @@ export async function GET() {
           venuePayout,
           balanceDue,
           deposit,
+          convertedBalances,
+          moneyCell(amended?.artistAdjustments),
+          moneyCell(amended?.amendedBalance),
           created,
           updated,
         ].map(escapeCsvCell).join(",")
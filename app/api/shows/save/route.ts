@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { computeSettlement, type CalculationInput } from "@/lib/settlement/calculate";
+import { computeSettlement } from "@/lib/settlement/calculate";
+import { readStoredInput, sameStoredInputs } from "@/lib/settlement/stored-input";
+import { recomputeRun } from "@/lib/runs/server";
 
 export async function POST(request: Request) {
   try {
@@ -23,21 +25,38 @@ export async function POST(request: Request) {
       );
     }
 
-    const calculationInput: CalculationInput = {
-      showName: title,
-      showDate: show_date || "",
-      ticketTiers: inputs.ticketTiers || [],
-      capacity: inputs.capacity || "",
-      taxRate: inputs.taxRate || "",
-      taxMode: inputs.taxMode || "exclusive",
-      ccFeeRate: inputs.ccFeeRate || "",
-      ccFeeMode: inputs.ccFeeMode || "expense",
-      expenseItems: inputs.expenseItems || [],
-      artists: inputs.artists || [],
-      merchGross: inputs.merchGross || "",
-      merchVenuePercent: inputs.merchVenuePercent || "",
-      notes: inputs.notes || "",
-    };
+    // An acknowledged settlement, or one with ledger entries, is frozen: its
+    // results are what was signed and what the ledger amends. Its inputs can't
+    // change; later money goes through the adjustments ledger instead.
+    let frozen = false;
+    if (showId) {
+      const { data: existing, error: existingError } = await supabase
+        .from("shows")
+        .select("inputs, results")
+        .eq("id", showId)
+        .eq("user_id", user.id)
+        .single();
+      if (existingError || !existing) {
+        return NextResponse.json({ success: false, error: "Show not found or access denied" }, { status: 404 });
+      }
+      const { count: adjustmentCount } = await supabase
+        .from("show_adjustments")
+        .select("id", { count: "exact", head: true })
+        .eq("show_id", showId);
+      frozen = (existing.results?.acknowledgments?.length ?? 0) > 0 || (adjustmentCount ?? 0) > 0;
+      if (frozen && !sameStoredInputs(existing.inputs, inputs)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              "This settlement has been acknowledged or has ledger entries, so its figures can't be edited. Record the change as an adjustment instead.",
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const calculationInput = readStoredInput({ title, show_date, inputs });
 
     const output = computeSettlement(calculationInput);
     let results: Record<string, unknown> | null = null;
@@ -60,7 +79,7 @@ export async function POST(request: Request) {
       show_date: show_date?.trim() || null,
       inputs,
     };
-    if (results !== null) {
+    if (results !== null && !frozen) {
       showData.results = results;
     }
 
@@ -77,6 +96,13 @@ export async function POST(request: Request) {
         console.error("Error updating show:", error);
         return NextResponse.json({ success: false, error: error.message }, { status: 500 });
       }
+      // Nights of a run re-settle the whole run; the night is saved either way.
+      if (data.run_id) {
+        const runOutput = await recomputeRun(data.run_id, user.id);
+        if (!runOutput.ok) {
+          return NextResponse.json({ success: true, showId: data.id, isDraft, runError: runOutput.error });
+        }
+      }
       return NextResponse.json({ success: true, showId: data.id, isDraft });
     } else {
       const { data, error } = await supabase.from("shows").insert([showData]).select().single();
@@ -15,24 +15,96 @@ import { PageHeader } from "@/components/ui/PageHeader";
 import { Icon } from "@/components/ui/Icon";
 import { BreakdownList } from "@/components/ui/BreakdownList";
 import SharePopover from "./components/SharePopover";
-import { computeSettlement, formatCurrency, parseNumber, round2 } from "@/lib/settlement/calculate";
+import DerivationTrace from "./components/DerivationTrace";
+import {
+  computeSettlement,
+  parseNumber,
+  type ArtistCalcResult,
+  type CalculationResult,
+} from "@/lib/settlement/calculate";
+import { formatMoney, parseMoney, type Money } from "@/lib/settlement/money";
+import { readStoredResult } from "@/lib/settlement/stored-result";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from "@/lib/settlement/currency";
+import { describeEscalatorBand } from "@/lib/settlement/escalator";
+import {
+  DEAL_TYPES,
+  describeDealPercentage,
+  describeDealSummary,
+  describePayoutBasis,
+  getDealType,
+  type DealType,
+} from "@/lib/settlement/deal-types";
+import { compileFormula, FORMULA_FUNCTIONS, FORMULA_VARIABLES } from "@/lib/settlement/formula";
+import {
+  DEPOSIT_METHODS,
+  describeDepositInstallment,
+  describeInstallmentStatus,
+  isInstallmentOverdue,
+  normalizeDepositAmountMode,
+  todayIsoDate,
+} from "@/lib/settlement/deposits";
+import { describeExpenseAdjustment, describeExpenseTerms } from "@/lib/settlement/expenses";
+import { describeFeeTreatment, describeTierFee, TICKET_FEE_KINDS, type TicketFeeKind } from "@/lib/settlement/ticket-fees";
+import { describeTax } from "@/lib/settlement/taxes";
+import { describeDoorVariance, describeTierSales } from "@/lib/settlement/door";
+import { COMP_CATEGORIES, describeCompChargeback, describeCompCount, type CompCategory } from "@/lib/settlement/comps";
+import { describeWaterfallStep } from "@/lib/settlement/waterfall";
+import { describeMerchVenueCut } from "@/lib/settlement/merch";
+import { describeInventoryLine, describeMerchInventoryVariance } from "@/lib/settlement/merch-inventory";
+import {
+  amendSettlement,
+  describeAdjustment,
+  formatAdjustmentAmount,
+  readStoredAdjustments,
+  type SettlementAdjustment,
+} from "@/lib/settlement/adjustments";
+import {
+  SHOW_OUTCOMES,
+  defaultDepositTreatment,
+  describeShowOutcome,
+  isCancellation,
+  normalizeShowOutcome,
+  type ShowOutcome,
+} from "@/lib/settlement/outcome";
+import { describeGoalSeekAnswer, solveSettlementGoals } from "@/lib/settlement/goal-seek";
+import type { TraceNode } from "@/lib/settlement/trace";
+import {
+  buildProjection,
+  compareToProjection,
+  describeHousePosition,
+  normalizeSettlementStage,
+  type ProjectionReport,
+  type SettlementStage,
+} from "@/lib/settlement/projection";
+import {
+  describeArtistBar,
+  describeBarNet,
+  normalizeBarGuaranteeMode,
+  normalizeBarShareBasis,
+  type BarGuaranteeMode,
+  type BarShareBasis,
+} from "@/lib/settlement/bar";
+import {
+  ANCILLARY_CATEGORIES,
+  ANCILLARY_INCLUSIONS,
+  describeAncillaryLine,
+  normalizeAncillaryCategory,
+  normalizeAncillaryInclusion,
+  type AncillaryCategory,
+  type AncillaryInclusion,
+  type AncillaryRevenueInput,
+} from "@/lib/settlement/ancillary";
+import {
+  ARTIST_BAR_CREDIT_LABEL,
+  describeBarShortfall,
+  describeHouseCrew,
+  describeVenueRent,
+  normalizeShowMode,
+  type ShowMode,
+  type VenueRentalInput,
+} from "@/lib/settlement/venue-rental";
 import "./calculator.css";
 
-type DealType = "guarantee" | "percentage" | "guarantee_vs_percentage" | "guarantee_plus_percentage" | "percentage_of_gross" | "door_deal";
-
-const DEAL_TYPE_HELP: Record<DealType, string> = {
-  guarantee: "Flat payout regardless of show performance.",
-  percentage: "Artist receives a percentage of net profit after tax and expenses.",
-  guarantee_vs_percentage:
-    "Artist receives whichever is higher: guarantee or percentage of net.",
-  guarantee_plus_percentage:
-    "Artist receives guarantee plus backend percentage above breakeven.",
-  percentage_of_gross:
-    "Artist receives a percentage of gross ticket revenue before deductions.",
-  door_deal:
-    "Artist receives a percentage of gross after tax, before expenses.",
-};
-
 function sanitizeNonNegative(value: string) {
   return value.replace(/-/g, "");
 }
@@ -50,6 +122,28 @@ interface TicketTier {
   price: string;
   sold: string;
   comps: string;
+  walkUpPrice?: string;
+  walkUpSold?: string;
+  facilityFee?: string;
+  serviceCharge?: string;
+  providerFee?: string;
+  compCategories?: Partial<Record<CompCategory, string>>;
+  capacity?: string;
+}
+
+interface TaxLine {
+  id: string;
+  name: string;
+  rate: string;
+  mode: string;
+  compound: boolean;
+  /** Ticket tier ids exempt from this tax. */
+  exemptTiers: string[];
+}
+
+interface TicketFeeTreatment {
+  treatment: string;
+  artistSharePercent: string;
 }
 
 interface ExpenseItem {
@@ -57,6 +151,10 @@ interface ExpenseItem {
   label: string;
   amount: string;
   note?: string;
+  deductibility: string;
+  cap: string;
+  /** Artist ids the expense is charged to; empty means every artist. */
+  appliesTo: string[];
 }
 
 interface BuyoutItem {
@@ -65,6 +163,32 @@ interface BuyoutItem {
   amount: string;
 }
 
+interface BonusClause {
+  id: string;
+  label: string;
+  trigger: string;
+  threshold: string;
+  amountMode: string;
+  amount: string;
+  step: string;
+}
+
+interface EscalatorTier {
+  id: string;
+  from: string;
+  percentage: string;
+}
+
+interface DepositInstallmentRow {
+  id: string;
+  amountMode: string;
+  amount: string;
+  dueDate: string;
+  paidDate: string;
+  method: string;
+  reference: string;
+}
+
 const COMMON_BUYOUTS = [
   "Catering Buyout",
   "Hotel / Accommodation",
@@ -87,6 +211,70 @@ const COMMON_EXPENSES = [
   "Runner / Transport",
 ];
 
+interface MerchInventoryRow {
+  id: string;
+  sku: string;
+  price: string;
+  countIn: string;
+  adds: string;
+  comps: string;
+  countOut: string;
+}
+
+interface AncillaryRevenueRow {
+  id: string;
+  category: AncillaryCategory;
+  label: string;
+  amount: string;
+  inclusion: AncillaryInclusion;
+  artistSharePercent: string;
+  /** Artist paid a split stream's share; blank means the first artist. */
+  artistId: string;
+}
+
+interface ArtistMerch {
+  softGross: string;
+  hardGross: string;
+  softVenuePercent: string;
+  hardVenuePercent: string;
+  cardSales: string;
+  sellerFee: string;
+  inventory: MerchInventoryRow[];
+}
+
+const EMPTY_ARTIST_MERCH: ArtistMerch = {
+  softGross: "",
+  hardGross: "",
+  softVenuePercent: "",
+  hardVenuePercent: "",
+  cardSales: "",
+  sellerFee: "",
+  inventory: [],
+};
+
+interface ArtistBar {
+  sharePercent: string;
+  shareBasis: BarShareBasis;
+  guarantee: string;
+  guaranteeMode: BarGuaranteeMode;
+}
+
+const EMPTY_ARTIST_BAR: ArtistBar = {
+  sharePercent: "",
+  shareBasis: "gross",
+  guarantee: "",
+  guaranteeMode: "top_up",
+};
+
+const EMPTY_VENUE_RENTAL: VenueRentalInput = {
+  flatRent: "",
+  rentPercent: "",
+  houseCrewCharges: "",
+  houseCrewMinimum: "",
+  barGuarantee: "",
+  deposit: "",
+};
+
 interface ArtistDeal {
   id: string;
   artistName: string;
@@ -95,77 +283,71 @@ interface ArtistDeal {
   percentage: string;
   breakeven: string;
   deposit: string;
+  depositSchedule: DepositInstallmentRow[];
   withholdingRate: string;
   withholdingState: string;
   buyoutItems: BuyoutItem[];
   buyoutMode: string;
+  payoutCurrency: string;
+  fxRate: string;
+  fxDate: string;
+  promoterProfitMode: string;
+  promoterProfit: string;
+  formula: string;
+  escalatorBasis: string;
+  escalatorTiers: EscalatorTier[];
+  bonusClauses: BonusClause[];
+  costToLaterArtists: boolean;
+  merch: ArtistMerch;
+  bar: ArtistBar;
 }
 
 interface FormData {
   showName: string;
   showDate: string;
+  currency: string;
   expectedGross: string;
   ticketTiers: TicketTier[];
+  ticketFeeTreatments: Record<TicketFeeKind, TicketFeeTreatment>;
+  compAllowances: Record<CompCategory, string>;
   capacity: string;
-  taxRate: string;
-  taxMode: string;
+  taxes: TaxLine[];
   ccFeeRate: string;
   ccFeeMode: string;
   expenseItems: ExpenseItem[];
   artists: ArtistDeal[];
-  merchGross: string;
-  merchVenuePercent: string;
+  artistAllocation: string;
+  doorCash: string;
+  doorCard: string;
+  merchTaxRate: string;
+  merchCardFeeRate: string;
+  outcome: ShowOutcome;
+  killFeePercent: string;
+  depositTreatment: string;
+  scheduledMinutes: string;
+  performedMinutes: string;
+  showMode: ShowMode;
+  venueRental: VenueRentalInput;
+  ancillaryRevenue: AncillaryRevenueRow[];
+  barGross: string;
+  barCostOfGoods: string;
+  /** "projection" models the show before it happens from tier capacities. */
+  stage: SettlementStage;
+  /** Sell-through table from the last projection; kept to compare with the actual settlement. */
+  projection: ProjectionReport | null;
   notes: string;
 }
 
-interface ArtistCalcResult {
-  artistName: string;
-  dealType: string;
-  artistPayout: number;
-  overage?: number;
-  breakeven?: number;
-  withholdingAmount?: number;
-  withholdingState?: string;
-  buyoutItems?: { label: string; amount: number }[];
-  totalBuyouts?: number;
-  deposit: number;
-  balanceDue: number;
-}
-
-interface Acknowledgment {
-  name: string;
-  email: string;
-  timestamp: string;
+function defaultFeeTreatments(): Record<TicketFeeKind, TicketFeeTreatment> {
+  return {
+    facility: { treatment: "venue", artistSharePercent: "" },
+    service: { treatment: "excluded", artistSharePercent: "" },
+    provider: { treatment: "excluded", artistSharePercent: "" },
+  };
 }
 
-interface CalculationResult {
-  grossRevenue: number;
-  ticketTiers?: { name: string; price: number; sold: number; comps: number; revenue: number }[];
-  totalTicketsSold?: number;
-  totalComps?: number;
-  taxAmount: number;
-  totalExpenses: number;
-  expenseItems?: { label: string; amount: number; note?: string }[];
-  netProfit: number;
-  notes?: string;
-  artists: ArtistCalcResult[];
-  artistPayout: number;
-  overage?: number;
-  breakeven?: number;
-  ccFees?: number;
-  withholdingAmount?: number;
-  withholdingState?: string;
-  buyoutItems?: { label: string; amount: number }[];
-  totalBuyouts?: number;
-  deposit: number;
-  balanceDue: number;
-  venuePayout: number;
-  merchGross?: number;
-  merchVenueCut?: number;
-  merchNetToArtist?: number;
-  totalDueToArtist?: number;
-  calculatedAt?: string;
-  acknowledgments?: Acknowledgment[];
+function defaultCompAllowances(): Record<CompCategory, string> {
+  return { artist: "", house: "", promo: "", paid: "0" };
 }
 
 export interface CalculatorContentProps {
@@ -177,28 +359,26 @@ export interface CalculatorContentProps {
 function getDealSummary(
   ar: ArtistCalcResult,
   fa: ArtistDeal | undefined,
-  netProfit: number
+  netProfit: Money,
+  currency: string
 ): string {
-  const pct = fa?.percentage ? parseFloat(fa.percentage) : 0;
-  const guar = fa?.guarantee ? parseFloat(fa.guarantee) : 0;
-  switch (ar.dealType) {
-    case "guarantee":
-      return `Artist gets: ${formatCurrency(ar.artistPayout)} guarantee`;
-    case "percentage":
-      return `Artist gets: ${pct}% of net → ${formatCurrency(ar.artistPayout)}`;
-    case "guarantee_vs_percentage": {
-      const pctShare = round2(Math.max(0, netProfit * (pct / 100)));
-      return `Artist gets: ${formatCurrency(guar)} guarantee OR ${pct}% of net (${formatCurrency(pctShare)}), whichever is higher → ${formatCurrency(ar.artistPayout)}`;
-    }
-    case "guarantee_plus_percentage":
-      return `Artist gets: ${formatCurrency(guar)} guarantee + ${pct}% of net above breakeven → ${formatCurrency(ar.artistPayout)}`;
-    case "percentage_of_gross":
-      return `Artist gets: ${pct}% of gross → ${formatCurrency(ar.artistPayout)}`;
-    case "door_deal":
-      return `Artist gets: ${pct}% of gross after tax → ${formatCurrency(ar.artistPayout)}`;
-    default:
-      return `Artist gets: ${formatCurrency(ar.artistPayout)}`;
-  }
+  return describeDealSummary(
+    ar,
+    {
+      guarantee: fa?.guarantee ? parseMoney(fa.guarantee) : 0,
+      percentage: fa?.percentage ? parseFloat(fa.percentage) : 0,
+      net: netProfit,
+      formula: fa?.formula,
+    },
+    currency
+  );
+}
+
+/** Shown under the formula as it is typed; the engine reports the same error on calculate. */
+function getFormulaError(source: string): string | undefined {
+  if (!source.trim()) return undefined;
+  const compiled = compileFormula(source);
+  return compiled.ok ? undefined : compiled.error;
 }
 
 interface DestructiveConfirmPopoverProps {
@@ -262,7 +442,13 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
   const supabase = createClient();
   const tierIdCounter = useRef(2);
   const expenseIdCounter = useRef(2);
+  const taxIdCounter = useRef(2);
   const buyoutIdCounter = useRef(2);
+  const escalatorIdCounter = useRef(2);
+  const bonusIdCounter = useRef(1);
+  const depositIdCounter = useRef(1);
+  const inventoryIdCounter = useRef(1);
+  const ancillaryIdCounter = useRef(1);
   const artistIdCounter = useRef(2);
 
   function defaultArtist(id: string): ArtistDeal {
@@ -274,35 +460,76 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
       percentage: "",
       breakeven: "",
       deposit: "",
+      depositSchedule: [],
       withholdingRate: "",
       withholdingState: "",
       buyoutItems: [{ id: `${id}-b1`, label: "", amount: "" }],
       buyoutMode: "deduct_from_balance",
+      payoutCurrency: "",
+      fxRate: "",
+      fxDate: "",
+      promoterProfitMode: "percent_of_expenses",
+      promoterProfit: "",
+      formula: "",
+      escalatorBasis: "",
+      escalatorTiers: [{ id: `${id}-e1`, from: "", percentage: "" }],
+      bonusClauses: [],
+      costToLaterArtists: true,
+      merch: { ...EMPTY_ARTIST_MERCH },
+      bar: { ...EMPTY_ARTIST_BAR },
     };
   }
 
   const [formData, setFormData] = useState<FormData>({
     showName: "",
     showDate: "",
+    currency: DEFAULT_CURRENCY,
     expectedGross: "",
     ticketTiers: [{ id: "1", name: "General Admission", price: "", sold: "", comps: "" }],
+    ticketFeeTreatments: defaultFeeTreatments(),
+    compAllowances: defaultCompAllowances(),
     capacity: "",
-    taxRate: "",
-    taxMode: "exclusive",
+    taxes: [{ id: "1", name: "Sales Tax", rate: "", mode: "exclusive", compound: false, exemptTiers: [] }],
     ccFeeRate: "",
     ccFeeMode: "expense",
-    expenseItems: [{ id: "1", label: "", amount: "" }],
+    expenseItems: [{ id: "1", label: "", amount: "", deductibility: "artist_approved", cap: "", appliesTo: [] }],
     artists: [defaultArtist("1")],
-    merchGross: "",
-    merchVenuePercent: "",
+    artistAllocation: "parallel",
+    doorCash: "",
+    doorCard: "",
+    merchTaxRate: "",
+    merchCardFeeRate: "",
+    outcome: "performed",
+    killFeePercent: "",
+    depositTreatment: "",
+    scheduledMinutes: "",
+    performedMinutes: "",
+    showMode: "venue",
+    venueRental: { ...EMPTY_VENUE_RENTAL },
+    ancillaryRevenue: [],
+    barGross: "",
+    barCostOfGoods: "",
+    stage: "actual",
+    projection: null,
     notes: "",
   });
 
+  const hasTicketFees = formData.ticketTiers.some((t) =>
+    TICKET_FEE_KINDS.some(({ field }) => parseNumber(t[field] || "") > 0)
+  );
+  const tierCategorizedComps = (tier: TicketTier) =>
+    Object.values(tier.compCategories ?? {}).reduce((sum, n) => sum + parseNumber(n ?? ""), 0);
+  const hasCompCategories = formData.ticketTiers.some((t) => tierCategorizedComps(t) > 0);
+
   const [result, setResult] = useState<CalculationResult | null>(null);
   const [warnings, setWarnings] = useState<string[]>([]);
+  const [goalSeekInput, setGoalSeekInput] = useState<FormData | null>(null);
+  const [goalTarget, setGoalTarget] = useState("");
+  const [solvedGoalTarget, setSolvedGoalTarget] = useState("");
   const [resultsStale, setResultsStale] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string>("");
   const [currentShowId, setCurrentShowId] = useState<string | null>(null);
+  const [adjustments, setAdjustments] = useState<SettlementAdjustment[]>([]);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
   const [saveMessage, setSaveMessage] = useState<string>("");
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -336,12 +563,34 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
           let loadedTiers: TicketTier[];
           if (data.inputs.ticketTiers && data.inputs.ticketTiers.length > 0) {
             loadedTiers = data.inputs.ticketTiers.map(
-              (t: { name: string; price: string; sold: string; comps?: string }, i: number) => ({
+              (
+                t: {
+                  name: string;
+                  price: string;
+                  sold: string;
+                  comps?: string;
+                  walkUpPrice?: string;
+                  walkUpSold?: string;
+                  facilityFee?: string;
+                  serviceCharge?: string;
+                  providerFee?: string;
+                  compCategories?: Partial<Record<CompCategory, string>>;
+                  capacity?: string;
+                },
+                i: number
+              ) => ({
                 id: String(i + 1),
                 name: t.name || "",
                 price: t.price || "",
                 sold: t.sold || "",
                 comps: t.comps || "",
+                walkUpPrice: t.walkUpPrice || "",
+                walkUpSold: t.walkUpSold || "",
+                facilityFee: t.facilityFee || "",
+                serviceCharge: t.serviceCharge || "",
+                providerFee: t.providerFee || "",
+                ...(t.compCategories ? { compCategories: t.compCategories } : {}),
+                capacity: t.capacity || "",
               })
             );
           } else if (data.inputs.ticketPrice || data.inputs.ticketsSold) {
@@ -357,22 +606,55 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
           }
           tierIdCounter.current = loadedTiers.length + 1;
 
+          let loadedTaxes: TaxLine[];
+          if (data.inputs.taxes && data.inputs.taxes.length > 0) {
+            loadedTaxes = data.inputs.taxes.map(
+              (
+                t: { name: string; rate: string; mode?: string; compound?: boolean; exemptTiers?: string[] },
+                i: number
+              ) => ({
+                id: String(i + 1),
+                name: t.name || "",
+                rate: t.rate || "",
+                mode: t.mode || "exclusive",
+                compound: Boolean(t.compound),
+                exemptTiers: t.exemptTiers || [],
+              })
+            );
+          } else {
+            loadedTaxes = [{
+              id: "1",
+              name: data.inputs.taxRate ? "Tax" : "Sales Tax",
+              rate: data.inputs.taxRate || "",
+              mode: data.inputs.taxMode || "exclusive",
+              compound: false,
+              exemptTiers: [],
+            }];
+          }
+          taxIdCounter.current = loadedTaxes.length + 1;
+
           let loadedExpenseItems: ExpenseItem[];
           if (data.inputs.expenseItems && data.inputs.expenseItems.length > 0) {
             loadedExpenseItems = data.inputs.expenseItems.map(
-              (item: { label: string; amount: string; note?: string }, i: number) => ({
+              (
+                item: { label: string; amount: string; note?: string; deductibility?: string; cap?: string; appliesTo?: string[] },
+                i: number
+              ) => ({
                 id: String(i + 1),
                 label: item.label || "",
                 amount: item.amount || "",
                 note: item.note || "",
+                deductibility: item.deductibility || "artist_approved",
+                cap: item.cap || "",
+                appliesTo: item.appliesTo || [],
               })
             );
           } else if (data.inputs.totalExpenses) {
             loadedExpenseItems = [
-              { id: "1", label: "Other Expenses", amount: data.inputs.totalExpenses },
+              { id: "1", label: "Other Expenses", amount: data.inputs.totalExpenses, deductibility: "artist_approved", cap: "", appliesTo: [] },
             ];
           } else {
-            loadedExpenseItems = [{ id: "1", label: "", amount: "" }];
+            loadedExpenseItems = [{ id: "1", label: "", amount: "", deductibility: "artist_approved", cap: "", appliesTo: [] }];
           }
           expenseIdCounter.current = loadedExpenseItems.length + 1;
 
@@ -397,10 +679,68 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                   percentage: a.percentage || "",
                   breakeven: a.breakeven || "",
                   deposit: a.deposit || "",
+                  depositSchedule: (a.depositSchedule || []).map(
+                    (d: Omit<DepositInstallmentRow, "id">, j: number) => ({
+                      id: `${aid}-dep${j + 1}`,
+                      amountMode: normalizeDepositAmountMode(d.amountMode),
+                      amount: d.amount || "",
+                      dueDate: d.dueDate || "",
+                      paidDate: d.paidDate || "",
+                      method: d.method || "",
+                      reference: d.reference || "",
+                    })
+                  ),
                   withholdingRate: a.withholdingRate || "",
                   withholdingState: a.withholdingState || "",
                   buyoutItems: buyouts,
                   buyoutMode: a.buyoutMode || "deduct_from_balance",
+                  payoutCurrency: a.payoutCurrency || "",
+                  fxRate: a.fxRate || "",
+                  fxDate: a.fxDate || "",
+                  promoterProfitMode: a.promoterProfitMode || "percent_of_expenses",
+                  promoterProfit: a.promoterProfit || "",
+                  formula: a.formula || "",
+                  escalatorBasis: a.escalatorBasis || "",
+                  escalatorTiers: a.escalatorTiers && a.escalatorTiers.length > 0
+                    ? a.escalatorTiers.map((t: { from: string; percentage: string }, j: number) => ({
+                        id: `${aid}-e${j + 1}`,
+                        from: t.from || "",
+                        percentage: t.percentage || "",
+                      }))
+                    : [{ id: `${aid}-e1`, from: "", percentage: "" }],
+                  bonusClauses: (a.bonusClauses || []).map(
+                    (b: Omit<BonusClause, "id">, j: number) => ({
+                      id: `${aid}-bonus${j + 1}`,
+                      label: b.label || "",
+                      trigger: b.trigger || "sellout",
+                      threshold: b.threshold || "",
+                      amountMode: b.amountMode || "flat",
+                      amount: b.amount || "",
+                      step: b.step || "",
+                    })
+                  ),
+                  costToLaterArtists: a.costToLaterArtists !== false,
+                  merch: {
+                    ...EMPTY_ARTIST_MERCH,
+                    ...(a.merch || {}),
+                    inventory: (a.merch?.inventory || []).map(
+                      (item: Omit<MerchInventoryRow, "id">, j: number) => ({
+                        id: `${aid}-inv${j + 1}`,
+                        sku: item.sku || "",
+                        price: item.price || "",
+                        countIn: item.countIn || "",
+                        adds: item.adds || "",
+                        comps: item.comps || "",
+                        countOut: item.countOut || "",
+                      })
+                    ),
+                  },
+                  bar: {
+                    ...EMPTY_ARTIST_BAR,
+                    ...(a.bar || {}),
+                    shareBasis: normalizeBarShareBasis(a.bar?.shareBasis),
+                    guaranteeMode: normalizeBarGuaranteeMode(a.bar?.guaranteeMode),
+                  },
                 };
               }
             );
@@ -422,18 +762,58 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
               percentage: data.inputs.percentage || "",
               breakeven: data.inputs.breakeven || "",
               deposit: data.inputs.deposit || "",
+              depositSchedule: [],
               withholdingRate: data.inputs.withholdingRate || "",
               withholdingState: data.inputs.withholdingState || "",
               buyoutItems: buyouts,
               buyoutMode: data.inputs.buyoutMode || "deduct_from_balance",
+              payoutCurrency: "",
+              fxRate: "",
+              fxDate: "",
+              promoterProfitMode: "percent_of_expenses",
+              promoterProfit: "",
+              formula: "",
+              escalatorBasis: "",
+              escalatorTiers: [{ id: "1-e1", from: "", percentage: "" }],
+              bonusClauses: [],
+              costToLaterArtists: true,
+              merch: { ...EMPTY_ARTIST_MERCH },
+              bar: { ...EMPTY_ARTIST_BAR },
             }];
           }
+          // Shows saved before per-artist merch carry one whole-show merch line; it becomes
+          // the first artist's soft goods at the old venue cut.
+          if (data.inputs.merchGross && !loadedArtists.some((a) => a.merch.softGross || a.merch.hardGross)) {
+            loadedArtists[0].merch = {
+              ...EMPTY_ARTIST_MERCH,
+              softGross: data.inputs.merchGross,
+              softVenuePercent: data.inputs.merchVenuePercent || "",
+              hardVenuePercent: data.inputs.merchVenuePercent || "",
+            };
+          }
           artistIdCounter.current = loadedArtists.length + 1;
           let maxBuyoutId = 0;
           for (const a of loadedArtists) {
             maxBuyoutId = Math.max(maxBuyoutId, a.buyoutItems.length);
           }
           buyoutIdCounter.current = maxBuyoutId + 1;
+          escalatorIdCounter.current = Math.max(...loadedArtists.map((a) => a.escalatorTiers.length)) + 1;
+          bonusIdCounter.current = Math.max(...loadedArtists.map((a) => a.bonusClauses.length)) + 1;
+          depositIdCounter.current = Math.max(...loadedArtists.map((a) => a.depositSchedule.length)) + 1;
+          inventoryIdCounter.current = Math.max(...loadedArtists.map((a) => a.merch.inventory.length)) + 1;
+
+          const loadedAncillary: AncillaryRevenueRow[] = (data.inputs.ancillaryRevenue || []).map(
+            (stream: AncillaryRevenueInput, i: number) => ({
+              id: String(i + 1),
+              category: normalizeAncillaryCategory(stream.category),
+              label: stream.label || '',
+              amount: stream.amount || '',
+              inclusion: normalizeAncillaryInclusion(stream.inclusion),
+              artistSharePercent: stream.artistSharePercent || '',
+              artistId: stream.artistId || '',
+            })
+          );
+          ancillaryIdCounter.current = loadedAncillary.length + 1;
 
           const showDateValue = data.show_date
             ? new Date(data.show_date).toISOString().slice(0, 10)
@@ -441,22 +821,46 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
           setFormData({
             showName: data.title || '',
             showDate: showDateValue,
+            currency: data.inputs.currency || DEFAULT_CURRENCY,
             expectedGross: data.inputs.expectedGross || '',
             ticketTiers: loadedTiers,
+            ticketFeeTreatments: { ...defaultFeeTreatments(), ...(data.inputs.ticketFeeTreatments || {}) },
+            compAllowances: { ...defaultCompAllowances(), ...(data.inputs.compAllowances || {}) },
             capacity: data.inputs.capacity || '',
-            taxRate: data.inputs.taxRate || '',
-            taxMode: data.inputs.taxMode || 'exclusive',
+            taxes: loadedTaxes,
             ccFeeRate: data.inputs.ccFeeRate || '',
             ccFeeMode: data.inputs.ccFeeMode || 'expense',
             expenseItems: loadedExpenseItems,
             artists: loadedArtists,
-            merchGross: data.inputs.merchGross || '',
-            merchVenuePercent: data.inputs.merchVenuePercent || '',
+            artistAllocation: data.inputs.artistAllocation || 'parallel',
+            doorCash: data.inputs.doorCash || '',
+            doorCard: data.inputs.doorCard || '',
+            merchTaxRate: data.inputs.merchTaxRate || '',
+            merchCardFeeRate: data.inputs.merchCardFeeRate || '',
+            outcome: normalizeShowOutcome(data.inputs.outcome),
+            killFeePercent: data.inputs.killFeePercent || '',
+            depositTreatment: data.inputs.depositTreatment || '',
+            scheduledMinutes: data.inputs.scheduledMinutes || '',
+            performedMinutes: data.inputs.performedMinutes || '',
+            showMode: normalizeShowMode(data.inputs.showMode),
+            // Older rentals kept their own bar sales; they load into the show's bar ring.
+            venueRental: { ...EMPTY_VENUE_RENTAL, ...(data.inputs.venueRental || {}), barSales: undefined },
+            ancillaryRevenue: loadedAncillary,
+            barGross: data.inputs.barGross || data.inputs.venueRental?.barSales || '',
+            barCostOfGoods: data.inputs.barCostOfGoods || '',
+            stage: normalizeSettlementStage(data.inputs.stage),
+            projection: data.inputs.projection || null,
             notes: data.inputs.notes || '',
           });
-          setResult(data.results);
+          setResult(readStoredResult(data.results));
           setCurrentShowId(data.id);
           setHasUnsavedChanges(false);
+
+          const { data: adjustmentRows } = await supabase
+            .from('show_adjustments')
+            .select('id, kind, entry_date, amount_cents, reason, artist_share_percent, created_at')
+            .eq('show_id', data.id);
+          setAdjustments(readStoredAdjustments(adjustmentRows));
         }
       } catch (error) {
         console.error('Error loading show:', error);
@@ -487,11 +891,15 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
     const numericFields = new Set([
       "capacity",
       "expectedGross",
-      "taxRate",
       "ccFeeRate",
-      "merchGross",
+      "doorCash",
+      "doorCard",
+      "scheduledMinutes",
+      "performedMinutes",
+      "barGross",
+      "barCostOfGoods",
     ]);
-    const percentFields = new Set(["merchVenuePercent"]);
+    const percentFields = new Set(["merchTaxRate", "merchCardFeeRate", "killFeePercent"]);
     const rawValue = e.target.value;
     const value = percentFields.has(name)
       ? sanitizePercent(rawValue)
@@ -518,6 +926,9 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
     setFormData((prev) => ({
       ...prev,
       ticketTiers: prev.ticketTiers.filter((tier) => tier.id !== id),
+      taxes: prev.taxes.map((tax) =>
+        tax.exemptTiers.includes(id) ? { ...tax, exemptTiers: tax.exemptTiers.filter((t) => t !== id) } : tax
+      ),
     }));
     if (result) setResultsStale(true);
     setHasUnsavedChanges(true);
@@ -525,7 +936,10 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
 
   function updateTicketTier(id: string, field: keyof Omit<TicketTier, "id">, value: string) {
     const safeValue =
-      field === "price" || field === "sold" || field === "comps"
+      field === "price" || field === "sold" || field === "comps" ||
+      field === "walkUpPrice" || field === "walkUpSold" ||
+      field === "facilityFee" || field === "serviceCharge" || field === "providerFee" ||
+      field === "capacity"
         ? sanitizeNonNegative(value)
         : value;
     setFormData((prev) => ({
@@ -539,11 +953,103 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
     setHasUnsavedChanges(true);
   }
 
+  function updateTierCompCategory(tierId: string, category: CompCategory, value: string) {
+    const safeValue = sanitizeNonNegative(value);
+    setFormData((prev) => ({
+      ...prev,
+      ticketTiers: prev.ticketTiers.map((tier) =>
+        tier.id === tierId
+          ? { ...tier, compCategories: { ...tier.compCategories, [category]: safeValue } }
+          : tier
+      ),
+    }));
+    if (errorMessage) setErrorMessage("");
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateCompAllowance(category: CompCategory, value: string) {
+    const safeValue = sanitizeNonNegative(value);
+    setFormData((prev) => ({
+      ...prev,
+      compAllowances: { ...prev.compAllowances, [category]: safeValue },
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function addTax() {
+    const id = String(taxIdCounter.current++);
+    setFormData((prev) => ({
+      ...prev,
+      taxes: [...prev.taxes, { id, name: "", rate: "", mode: "exclusive", compound: false, exemptTiers: [] }],
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function removeTax(id: string) {
+    setFormData((prev) => ({
+      ...prev,
+      taxes: prev.taxes.filter((tax) => tax.id !== id),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateTax(id: string, field: "name" | "rate" | "mode", value: string) {
+    const safeValue = field === "rate" ? sanitizePercent(value) : value;
+    setFormData((prev) => ({
+      ...prev,
+      taxes: prev.taxes.map((tax) => (tax.id === id ? { ...tax, [field]: safeValue } : tax)),
+    }));
+    if (errorMessage) setErrorMessage("");
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function toggleTaxCompound(id: string) {
+    setFormData((prev) => ({
+      ...prev,
+      taxes: prev.taxes.map((tax) => (tax.id === id ? { ...tax, compound: !tax.compound } : tax)),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function toggleTaxExemptTier(taxId: string, tierId: string) {
+    setFormData((prev) => ({
+      ...prev,
+      taxes: prev.taxes.map((tax) => {
+        if (tax.id !== taxId) return tax;
+        const exemptTiers = tax.exemptTiers.includes(tierId)
+          ? tax.exemptTiers.filter((t) => t !== tierId)
+          : [...tax.exemptTiers, tierId];
+        return { ...tax, exemptTiers };
+      }),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateFeeTreatment(kind: TicketFeeKind, field: keyof TicketFeeTreatment, value: string) {
+    const safeValue = field === "artistSharePercent" ? sanitizePercent(value) : value;
+    setFormData((prev) => ({
+      ...prev,
+      ticketFeeTreatments: {
+        ...prev.ticketFeeTreatments,
+        [kind]: { ...prev.ticketFeeTreatments[kind], [field]: safeValue },
+      },
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
   function addExpenseItem() {
     const id = String(expenseIdCounter.current++);
     setFormData((prev) => ({
       ...prev,
-      expenseItems: [...prev.expenseItems, { id, label: "", amount: "" }],
+      expenseItems: [...prev.expenseItems, { id, label: "", amount: "", deductibility: "artist_approved", cap: "", appliesTo: [] }],
     }));
     if (result) setResultsStale(true);
     setHasUnsavedChanges(true);
@@ -558,8 +1064,8 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
     setHasUnsavedChanges(true);
   }
 
-  function updateExpenseItem(id: string, field: "label" | "amount" | "note", value: string) {
-    const safeValue = field === "amount" ? sanitizeNonNegative(value) : value;
+  function updateExpenseItem(id: string, field: "label" | "amount" | "note" | "deductibility" | "cap", value: string) {
+    const safeValue = field === "amount" || field === "cap" ? sanitizeNonNegative(value) : value;
     setFormData((prev) => ({
       ...prev,
       expenseItems: prev.expenseItems.map((item) =>
@@ -571,6 +1077,22 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
     setHasUnsavedChanges(true);
   }
 
+  function toggleExpenseArtist(expenseId: string, artistId: string) {
+    setFormData((prev) => ({
+      ...prev,
+      expenseItems: prev.expenseItems.map((item) => {
+        if (item.id !== expenseId) return item;
+        const appliesTo = item.appliesTo.includes(artistId)
+          ? item.appliesTo.filter((a) => a !== artistId)
+          : [...item.appliesTo, artistId];
+        // Every artist checked is the same as no scoping.
+        return { ...item, appliesTo: appliesTo.length === prev.artists.length ? [] : appliesTo };
+      }),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
   function addArtist() {
     const id = String(artistIdCounter.current++);
     setFormData((prev) => ({
@@ -585,14 +1107,166 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
     setFormData((prev) => ({
       ...prev,
       artists: prev.artists.filter((a) => a.id !== artistId),
+      expenseItems: prev.expenseItems.map((item) =>
+        item.appliesTo.includes(artistId)
+          ? { ...item, appliesTo: item.appliesTo.filter((a) => a !== artistId) }
+          : item
+      ),
+      ancillaryRevenue: prev.ancillaryRevenue.map((row) => (row.artistId === artistId ? { ...row, artistId: "" } : row)),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function moveArtistEarlier(artistId: string) {
+    setFormData((prev) => {
+      const index = prev.artists.findIndex((a) => a.id === artistId);
+      if (index <= 0) return prev;
+      const artists = [...prev.artists];
+      [artists[index - 1], artists[index]] = [artists[index], artists[index - 1]];
+      return { ...prev, artists };
+    });
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function toggleArtistCostToLater(artistId: string) {
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) => (a.id === artistId ? { ...a, costToLaterArtists: !a.costToLaterArtists } : a)),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateArtistMerch(artistId: string, field: Exclude<keyof ArtistMerch, "inventory">, value: string) {
+    const safeValue =
+      field === "softVenuePercent" || field === "hardVenuePercent" ? sanitizePercent(value) : sanitizeNonNegative(value);
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) => (a.id === artistId ? { ...a, merch: { ...a.merch, [field]: safeValue } } : a)),
+    }));
+    if (errorMessage) setErrorMessage("");
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function addAncillaryRow() {
+    const id = String(ancillaryIdCounter.current++);
+    setFormData((prev) => ({
+      ...prev,
+      ancillaryRevenue: [
+        ...prev.ancillaryRevenue,
+        { id, category: "parking", label: "", amount: "", inclusion: "venue_only", artistSharePercent: "", artistId: "" },
+      ],
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function removeAncillaryRow(id: string) {
+    setFormData((prev) => ({
+      ...prev,
+      ancillaryRevenue: prev.ancillaryRevenue.filter((row) => row.id !== id),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateAncillaryRow(id: string, field: Exclude<keyof AncillaryRevenueRow, "id">, value: string) {
+    const safeValue =
+      field === "amount" ? sanitizeNonNegative(value) : field === "artistSharePercent" ? sanitizePercent(value) : value;
+    setFormData((prev) => ({
+      ...prev,
+      ancillaryRevenue: prev.ancillaryRevenue.map((row) => (row.id === id ? { ...row, [field]: safeValue } : row)),
+    }));
+    if (errorMessage) setErrorMessage("");
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateVenueRental(field: keyof VenueRentalInput, value: string) {
+    const safeValue = field === "rentPercent" ? sanitizePercent(value) : sanitizeNonNegative(value);
+    setFormData((prev) => ({ ...prev, venueRental: { ...prev.venueRental, [field]: safeValue } }));
+    if (errorMessage) setErrorMessage("");
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateArtistBar(artistId: string, field: keyof ArtistBar, value: string) {
+    const safeValue =
+      field === "sharePercent" ? sanitizePercent(value) : field === "guarantee" ? sanitizeNonNegative(value) : value;
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) => (a.id === artistId ? { ...a, bar: { ...a.bar, [field]: safeValue } } : a)),
+    }));
+    if (errorMessage) setErrorMessage("");
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function addInventoryRow(artistId: string) {
+    const id = `${artistId}-inv${inventoryIdCounter.current++}`;
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? {
+              ...a,
+              merch: {
+                ...a.merch,
+                inventory: [...a.merch.inventory, { id, sku: "", price: "", countIn: "", adds: "", comps: "", countOut: "" }],
+              },
+            }
+          : a
+      ),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function removeInventoryRow(artistId: string, rowId: string) {
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? { ...a, merch: { ...a.merch, inventory: a.merch.inventory.filter((row) => row.id !== rowId) } }
+          : a
+      ),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateInventoryRow(artistId: string, rowId: string, field: keyof Omit<MerchInventoryRow, "id">, value: string) {
+    const safeValue = field === "sku" ? value : sanitizeNonNegative(value);
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? {
+              ...a,
+              merch: {
+                ...a.merch,
+                inventory: a.merch.inventory.map((row) => (row.id === rowId ? { ...row, [field]: safeValue } : row)),
+              },
+            }
+          : a
+      ),
     }));
+    if (errorMessage) setErrorMessage("");
     if (result) setResultsStale(true);
     setHasUnsavedChanges(true);
   }
 
   function updateArtistField(artistId: string, field: string, value: string) {
     const percentFields = new Set(["percentage", "withholdingRate"]);
-    const numericFields = new Set(["guarantee", "breakeven", "deposit"]);
+    const numericFields = new Set(["guarantee", "breakeven", "deposit", "fxRate"]);
+    if (field === "promoterProfit") {
+      const current = formData.artists.find((a) => a.id === artistId);
+      if (current?.promoterProfitMode !== "flat") percentFields.add(field);
+      else numericFields.add(field);
+    }
     const safeValue = percentFields.has(field)
       ? sanitizePercent(value)
       : numericFields.has(field)
@@ -651,30 +1325,198 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
     setHasUnsavedChanges(true);
   }
 
-  function handleCalculate() {
-    const output = computeSettlement(formData);
-    if (!output.ok) {
-      setErrorMessage(output.error);
-      setResult(null);
-      setWarnings([]);
-      return;
-    }
-    const warnings = [...output.warnings];
-    const expectedGross = parseNumber(formData.expectedGross);
-    if (expectedGross > 0 && Math.abs(output.result.grossRevenue - expectedGross) > 0.01) {
-      warnings.push(
-        `Calculated gross (${formatCurrency(output.result.grossRevenue)}) differs from expected (${formatCurrency(expectedGross)}). Verify ticket report.`
-      );
-    }
-    setResult(output.result);
-    setWarnings(warnings);
-    setResultsStale(false);
-    setErrorMessage("");
+  function addEscalatorTier(artistId: string) {
+    const id = `${artistId}-e${escalatorIdCounter.current++}`;
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? { ...a, escalatorTiers: [...a.escalatorTiers, { id, from: "", percentage: "" }] }
+          : a
+      ),
+    }));
+    if (result) setResultsStale(true);
     setHasUnsavedChanges(true);
   }
 
-  useEffect(() => {
-    function handleKeyboardCalculate(event: KeyboardEvent) {
+  function removeEscalatorTier(artistId: string, tierId: string) {
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? { ...a, escalatorTiers: a.escalatorTiers.filter((t) => t.id !== tierId) }
+          : a
+      ),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateEscalatorTier(artistId: string, tierId: string, field: "from" | "percentage", value: string) {
+    const safeValue = field === "percentage" ? sanitizePercent(value) : sanitizeNonNegative(value);
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? { ...a, escalatorTiers: a.escalatorTiers.map((t) => (t.id === tierId ? { ...t, [field]: safeValue } : t)) }
+          : a
+      ),
+    }));
+    if (errorMessage) setErrorMessage("");
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function addDepositInstallment(artistId: string) {
+    const id = `${artistId}-dep${depositIdCounter.current++}`;
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? {
+              ...a,
+              depositSchedule: [
+                ...a.depositSchedule,
+                { id, amountMode: "percent", amount: "", dueDate: "", paidDate: "", method: "", reference: "" },
+              ],
+            }
+          : a
+      ),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function removeDepositInstallment(artistId: string, installmentId: string) {
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? { ...a, depositSchedule: a.depositSchedule.filter((d) => d.id !== installmentId) }
+          : a
+      ),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateDepositInstallment(
+    artistId: string,
+    installmentId: string,
+    field: keyof Omit<DepositInstallmentRow, "id">,
+    value: string
+  ) {
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) => {
+        if (a.id !== artistId) return a;
+        return {
+          ...a,
+          depositSchedule: a.depositSchedule.map((d) => {
+            if (d.id !== installmentId) return d;
+            const mode = field === "amountMode" ? value : d.amountMode;
+            const safeValue =
+              field === "amount" ? (mode === "percent" ? sanitizePercent(value) : sanitizeNonNegative(value)) : value;
+            // Switching between amount and percentage clears the figure rather than reinterpreting it.
+            return field === "amountMode" ? { ...d, amountMode: value, amount: "" } : { ...d, [field]: safeValue };
+          }),
+        };
+      }),
+    }));
+    if (errorMessage) setErrorMessage("");
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function addBonusClause(artistId: string) {
+    const id = `${artistId}-bonus${bonusIdCounter.current++}`;
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? {
+              ...a,
+              bonusClauses: [
+                ...a.bonusClauses,
+                { id, label: "", trigger: "sellout", threshold: "", amountMode: "flat", amount: "", step: "" },
+              ],
+            }
+          : a
+      ),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function removeBonusClause(artistId: string, clauseId: string) {
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? { ...a, bonusClauses: a.bonusClauses.filter((b) => b.id !== clauseId) }
+          : a
+      ),
+    }));
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function updateBonusClause(artistId: string, clauseId: string, field: keyof Omit<BonusClause, "id">, value: string) {
+    const numericFields = new Set(["threshold", "amount", "step"]);
+    const safeValue = numericFields.has(field) ? sanitizeNonNegative(value) : value;
+    setFormData((prev) => ({
+      ...prev,
+      artists: prev.artists.map((a) =>
+        a.id === artistId
+          ? { ...a, bonusClauses: a.bonusClauses.map((b) => (b.id === clauseId ? { ...b, [field]: safeValue } : b)) }
+          : a
+      ),
+    }));
+    if (errorMessage) setErrorMessage("");
+    if (result) setResultsStale(true);
+    setHasUnsavedChanges(true);
+  }
+
+  function handleCalculate() {
+    if (formData.stage === "projection") {
+      const projection = buildProjection(formData);
+      if (!projection.ok) {
+        setErrorMessage(projection.error);
+        return;
+      }
+      setFormData((prev) => ({ ...prev, projection: projection.report }));
+      setResult(null);
+      setWarnings([]);
+      setGoalSeekInput(null);
+      setResultsStale(false);
+      setErrorMessage("");
+      setHasUnsavedChanges(true);
+      return;
+    }
+    const output = computeSettlement(formData);
+    if (!output.ok) {
+      setErrorMessage(output.error);
+      setResult(null);
+      setWarnings([]);
+      return;
+    }
+    const warnings = [...output.warnings];
+    const expectedGross = parseMoney(formData.expectedGross);
+    if (expectedGross > 0 && !isCancellation(formData.outcome) && output.result.grossRevenue !== expectedGross) {
+      warnings.push(
+        `Calculated gross (${formatMoney(output.result.grossRevenue, output.result.currency)}) differs from expected (${formatMoney(expectedGross, output.result.currency)}). Verify ticket report.`
+      );
+    }
+    setResult(output.result);
+    setWarnings(warnings);
+    setGoalSeekInput(formData);
+    setResultsStale(false);
+    setErrorMessage("");
+    setHasUnsavedChanges(true);
+  }
+
+  useEffect(() => {
+    function handleKeyboardCalculate(event: KeyboardEvent) {
       if (!(event.metaKey || event.ctrlKey) || event.key !== "Enter") return;
       event.preventDefault();
       handleCalculate();
@@ -696,25 +1538,76 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
     const rows: ([] | [string, string])[] = [];
     if (formData.showName) rows.push(["Show", formData.showName]);
     if (formData.showDate) rows.push(["Show Date", formData.showDate]);
+    rows.push(["Currency", result.currency]);
+    if (result.outcome) rows.push(["Show Outcome", describeShowOutcome(result.outcome)]);
+    if (result.outcome?.refundedTicketRevenue != null) {
+      rows.push(["Ticket Sales Refunded", `−${formatMoney(result.outcome.refundedTicketRevenue, result.currency)}`]);
+    }
     const allArtistNames = (result.artists || []).map((a) => a.artistName).filter(Boolean).join(", ");
     if (allArtistNames) rows.push(["Artist(s)", allArtistNames]);
     rows.push([]);
 
-    if (result.ticketTiers && result.ticketTiers.length > 1) {
+    const hasFees = result.ticketFees != null && result.ticketFees.length > 0;
+    if (result.ticketTiers && (result.ticketTiers.length > 1 || hasFees || result.salesChannels)) {
       for (const tier of result.ticketTiers) {
-        rows.push([`${tier.name} (${tier.sold} × ${formatCurrency(tier.price)})`, formatCurrency(tier.revenue)]);
+        for (const line of describeTierSales(tier, result.currency)) {
+          rows.push([line.label, formatMoney(line.amount, result.currency)]);
+        }
+        for (const line of tier.fees ?? []) {
+          rows.push([describeTierFee(tier.name, tier.sold, line, result.currency), formatMoney(line.total, result.currency)]);
+        }
       }
     }
     const ticketsSoldNote = result.totalTicketsSold
       ? ` (${result.totalTicketsSold} sold${result.totalComps ? `, ${result.totalComps} comps` : ""})`
       : "";
-    rows.push([`Gross Revenue${ticketsSoldNote}`, formatCurrency(result.grossRevenue)]);
+    const chargebackRows: [string, string][] = (result.ticketTiers ?? []).flatMap((tier) =>
+      (tier.compChargebacks ?? []).map((line): [string, string] => [
+        describeCompChargeback(tier.name, tier.price, line, result.currency),
+        `+${formatMoney(line.amount, result.currency)}`,
+      ])
+    );
+    if (hasFees) {
+      rows.push([`Ticketing Gross${ticketsSoldNote}`, formatMoney(result.ticketingGross ?? result.grossRevenue, result.currency)]);
+      for (const fee of result.ticketFees!.filter((f) => f.total > f.toGross)) {
+        rows.push([`Less ${fee.label} (${describeFeeTreatment(fee)})`, `−${formatMoney(fee.total - fee.toGross, result.currency)}`]);
+      }
+      rows.push(...chargebackRows);
+      rows.push(["Adjusted Gross (artist gross)", formatMoney(result.grossRevenue, result.currency)]);
+    } else {
+      rows.push(...chargebackRows);
+      rows.push([`Gross Revenue${ticketsSoldNote}`, formatMoney(result.grossRevenue, result.currency)]);
+    }
+    if (result.salesChannels) {
+      const sc = result.salesChannels;
+      rows.push([`Advance Sales (${sc.advanceSold} tickets)`, formatMoney(sc.advanceRevenue, result.currency)]);
+      rows.push([`Walk-Up Sales (${sc.walkUpSold} tickets)`, formatMoney(sc.walkUpRevenue, result.currency)]);
+    }
+    if (result.doorReconciliation) {
+      const door = result.doorReconciliation;
+      rows.push(["Door Cash Counted", formatMoney(door.cash, result.currency)]);
+      rows.push(["Door Card Receipts", formatMoney(door.card, result.currency)]);
+      rows.push([
+        describeDoorVariance(door, result.currency),
+        `${door.variance < 0 ? "−" : door.variance > 0 ? "+" : ""}${formatMoney(Math.abs(door.variance), result.currency)}`,
+      ]);
+    }
+    for (const c of result.compCategories ?? []) {
+      rows.push([c.label, describeCompCount(c)]);
+    }
 
-    const taxLabel = `Tax (${formData.taxRate || "0"}%${formData.taxMode === "inclusive" ? ", included in price" : ""})`;
-    rows.push([taxLabel, `−${formatCurrency(result.taxAmount)}`]);
+    if (result.taxes && result.taxes.length > 0) {
+      for (const tax of result.taxes) {
+        rows.push([describeTax(tax), `−${formatMoney(tax.amount, result.currency)}`]);
+      }
+      if (result.taxes.length > 1) rows.push(["Total Tax", `−${formatMoney(result.taxAmount, result.currency)}`]);
+    } else {
+      const taxLabel = `Tax (${formData.taxes[0]?.rate || "0"}%${formData.taxes[0]?.mode === "inclusive" ? ", included in price" : ""})`;
+      rows.push([taxLabel, `−${formatMoney(result.taxAmount, result.currency)}`]);
+    }
 
     if (result.ccFees != null && result.ccFees > 0 && formData.ccFeeMode === "off_top") {
-      rows.push([`CC Processing Fees (${formData.ccFeeRate}%)`, `−${formatCurrency(result.ccFees)}`]);
+      rows.push([`CC Processing Fees (${formData.ccFeeRate}%)`, `−${formatMoney(result.ccFees, result.currency)}`]);
     }
 
     if (result.notes) {
@@ -724,82 +1617,264 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
 
     if (result.expenseItems && result.expenseItems.length > 0) {
       for (const item of result.expenseItems) {
-        const label = item.note ? `${item.label} [${item.note}]` : item.label;
-        rows.push([label, `−${formatCurrency(item.amount)}`]);
+        const terms = describeExpenseTerms(item, result.currency);
+        const scope = item.artistNames ? ` — ${item.artistNames.join(", ")} only` : "";
+        const label = `${item.label}${terms}${scope}${item.note ? ` [${item.note}]` : ""}`;
+        rows.push([label, `−${formatMoney(item.amount, result.currency)}`]);
       }
       const allExpenseBuyouts = (result.artists || []).flatMap((a) =>
         a.dealType && formData.artists.find((fa) => fa.artistName === a.artistName)?.buyoutMode === "show_expense"
           ? (a.buyoutItems || []) : []
       );
       for (const item of allExpenseBuyouts) {
-        rows.push([`${item.label} (buyout)`, `−${formatCurrency(item.amount)}`]);
+        rows.push([`${item.label} (buyout)`, `−${formatMoney(item.amount, result.currency)}`]);
       }
       if (result.expenseItems.length > 1 || allExpenseBuyouts.length > 0) {
-        rows.push(["Total Expenses", `−${formatCurrency(result.totalExpenses)}`]);
+        rows.push(["Total Expenses", `−${formatMoney(result.totalExpenses, result.currency)}`]);
       }
     } else {
-      rows.push(["Expenses", `−${formatCurrency(result.totalExpenses)}`]);
+      rows.push(["Expenses", `−${formatMoney(result.totalExpenses, result.currency)}`]);
+    }
+
+    if (result.ancillary && result.ancillary.inGross + result.ancillary.inNet > 0) {
+      rows.push(["Ancillary Revenue (in gross or net)", `+${formatMoney(result.ancillary.inGross + result.ancillary.inNet, result.currency)}`]);
     }
+    rows.push(["Net", formatMoney(result.netProfit, result.currency)]);
 
-    rows.push(["Net", formatCurrency(result.netProfit)]);
+    if (result.ancillary) {
+      rows.push([]);
+      rows.push(["--- Ancillary Revenue ---", ""]);
+      for (const line of result.ancillary.lines) {
+        rows.push([describeAncillaryLine(line, result.currency), formatMoney(line.amount, result.currency)]);
+      }
+      rows.push(["Total Ancillary Revenue", formatMoney(result.ancillary.total, result.currency)]);
+    }
 
+    const today = todayIsoDate();
     for (const ar of (result.artists || [])) {
       const fa = formData.artists.find((a) => a.artistName === ar.artistName || a.id === formData.artists[(result.artists || []).indexOf(ar)]?.id);
       rows.push([]);
       if ((result.artists || []).length > 1) rows.push([`--- ${ar.artistName} ---`, ""]);
 
+      if (ar.expenseTerms) {
+        for (const adj of ar.expenseTerms.adjustments) {
+          rows.push([
+            `${adj.label} — ${describeExpenseAdjustment(adj, result.currency)}`,
+            `+${formatMoney(adj.actual - adj.deducted, result.currency)}`,
+          ]);
+        }
+        rows.push(["Expenses Charged to Artist", `−${formatMoney(ar.expenseTerms.deductibleExpenses, result.currency)}`]);
+        rows.push(["Net for Artist Deal", formatMoney(ar.expenseTerms.dealNet, result.currency)]);
+      }
+
+      if (getDealType(ar.dealType)?.fields.formula && fa?.formula) rows.push(["Deal Formula", fa.formula]);
+
       if (ar.overage != null && ar.breakeven != null) {
-        rows.push(["Guarantee", formatCurrency(ar.artistPayout - ar.overage)]);
-        rows.push(["Breakeven Point", formatCurrency(ar.breakeven)]);
-        rows.push(["Back-End Overage", formatCurrency(ar.overage)]);
+        rows.push(["Guarantee", formatMoney((ar.proRatedFrom ?? ar.artistPayout) - ar.overage - (ar.totalBonuses ?? 0) - (ar.bar?.total ?? 0), result.currency)]);
+        rows.push(["Breakeven Point", formatMoney(ar.breakeven, result.currency)]);
+        rows.push(["Back-End Overage", formatMoney(ar.overage, result.currency)]);
+      }
+
+      if (ar.profitSplit) {
+        const ps = ar.profitSplit;
+        rows.push(["Net Receipts (after tax & expenses)", formatMoney(ps.netReceipts, result.currency)]);
+        rows.push(["Less Guarantee", `−${formatMoney(ps.guarantee, result.currency)}`]);
+        rows.push([
+          `Less Promoter Profit${ps.promoterProfitPercent != null ? ` (${ps.promoterProfitPercent}% of expenses + guarantee)` : ""}`,
+          `−${formatMoney(ps.promoterProfit, result.currency)}`,
+        ]);
+        rows.push([`Split Pool (split point ${formatMoney(ps.splitPoint, result.currency)})`, formatMoney(ps.splitPool, result.currency)]);
+        rows.push([`Artist Split${ps.artistSplitPercent != null ? ` (${ps.artistSplitPercent}%)` : " (escalating)"}`, formatMoney(ps.artistSplit, result.currency)]);
+        rows.push([`Promoter Split${ps.artistSplitPercent != null ? ` (${100 - ps.artistSplitPercent}%)` : ""}`, formatMoney(ps.promoterSplit, result.currency)]);
+      }
+
+      if (ar.escalator) {
+        for (const band of ar.escalator.bands) {
+          rows.push([
+            `${describeEscalatorBand(band, ar.escalator.basis, result.currency)}: ${band.percentage}% of ${formatMoney(band.baseAmount, result.currency)}`,
+            formatMoney(band.amount, result.currency),
+          ]);
+        }
+      }
+
+      for (const bonus of ar.bonuses ?? []) {
+        rows.push([
+          `${bonus.label} (${bonus.triggered ? bonus.detail : `not reached: ${bonus.detail}`})`,
+          formatMoney(bonus.amount, result.currency),
+        ]);
+      }
+
+      for (const line of ar.bar ? describeArtistBar(ar.bar, result.currency) : []) {
+        rows.push([line.label, `${line.amount < 0 ? "−" : ""}${formatMoney(Math.abs(line.amount), result.currency)}`]);
+      }
+      if (ar.killFee != null) {
+        rows.push([`Kill Fee (${result.outcome?.killFeePercent ?? 0}% of guarantee)`, formatMoney(ar.killFee, result.currency)]);
+      }
+      if (ar.proRatedFrom != null && result.outcome?.scheduledMinutes) {
+        rows.push([
+          `Full Payout, pro-rated ${result.outcome.performedMinutes ?? 0}/${result.outcome.scheduledMinutes} min`,
+          formatMoney(ar.proRatedFrom, result.currency),
+        ]);
       }
 
       let artistLabel = "Artist Payout";
-      if (ar.overage != null) artistLabel += " (Guarantee + Overage)";
-      if (ar.dealType === "percentage_of_gross") artistLabel += ` (${fa?.percentage || ""}% of Gross)`;
-      if (ar.dealType === "door_deal") artistLabel += ` (${fa?.percentage || ""}% of Gross After Tax)`;
-      rows.push([artistLabel, formatCurrency(ar.artistPayout)]);
+      if (result.outcome && isCancellation(result.outcome.outcome)) artistLabel += " (Cancellation)";
+      else {
+        artistLabel += describePayoutBasis(ar.dealType, fa?.percentage || "");
+      }
+      rows.push([artistLabel, formatMoney(ar.artistPayout, result.currency)]);
 
       if (ar.withholdingAmount != null && ar.withholdingAmount > 0) {
         const whLabel = `Withholding Tax (${fa?.withholdingRate || ""}%${ar.withholdingState ? `, ${ar.withholdingState}` : ""})`;
-        rows.push([whLabel, `−${formatCurrency(ar.withholdingAmount)}`]);
+        rows.push([whLabel, `−${formatMoney(ar.withholdingAmount, result.currency)}`]);
       }
       if (ar.buyoutItems && ar.buyoutItems.length > 0 && fa?.buyoutMode === "deduct_from_balance") {
         for (const item of ar.buyoutItems) {
-          rows.push([item.label, `−${formatCurrency(item.amount)}`]);
+          rows.push([item.label, `−${formatMoney(item.amount, result.currency)}`]);
         }
       }
       if (ar.deposit > 0) {
-        rows.push(["Deposit Paid", `−${formatCurrency(ar.deposit)}`]);
+        rows.push([ar.depositRefund ? "Deposit Paid (refunded to venue)" : "Deposit Paid", `−${formatMoney(ar.deposit, result.currency)}`]);
       }
+      ar.depositSchedule?.installments.forEach((inst, i) => {
+        rows.push([
+          `${describeDepositInstallment(inst, i)} (${describeInstallmentStatus(inst, today)})`,
+          formatMoney(inst.amount, result.currency),
+        ]);
+      });
       const hasDeductions = ar.deposit > 0 || (ar.withholdingAmount != null && ar.withholdingAmount > 0) || (ar.totalBuyouts != null && ar.totalBuyouts > 0 && fa?.buyoutMode === "deduct_from_balance");
       if (hasDeductions) {
         const balanceLabel = ar.balanceDue < 0
-          ? "Overpayment (due back to promoter)"
+          ? ar.depositRefund ? "Deposit Refund (due back to promoter)" : "Overpayment (due back to promoter)"
           : "Balance Due at Settlement";
-        rows.push([balanceLabel, formatCurrency(Math.abs(ar.balanceDue))]);
+        rows.push([balanceLabel, formatMoney(Math.abs(ar.balanceDue), result.currency)]);
+      }
+      if (ar.payoutCurrency && ar.convertedBalanceDue != null) {
+        rows.push([
+          `${ar.balanceDue < 0 ? "Overpayment" : "Balance Due"} in ${ar.payoutCurrency} (1 ${result.currency} = ${ar.fxRate} ${ar.payoutCurrency}${ar.fxDate ? `, ${ar.fxDate}` : ""})`,
+          formatMoney(Math.abs(ar.convertedBalanceDue), ar.payoutCurrency),
+        ]);
+      }
+      if (ar.ancillaryShare) {
+        rows.push(["Ancillary Revenue Share (split streams)", `+${formatMoney(ar.ancillaryShare, result.currency)}`]);
+        if (!ar.merch && ar.totalDue != null) rows.push(["Total Due to Artist", formatMoney(ar.totalDue, result.currency)]);
+      }
+    }
+
+    if (result.artistWaterfall) {
+      rows.push([]);
+      rows.push(["--- Artist Waterfall ---", ""]);
+      for (const step of result.artistWaterfall) {
+        rows.push([
+          describeWaterfallStep(step, result.currency),
+          `${formatMoney(step.artistPayout, result.currency)}${step.costToLaterArtists ? " (cost to later artists)" : ""}`,
+        ]);
       }
     }
 
     rows.push([]);
     if (result.ccFees != null && result.ccFees > 0 && formData.ccFeeMode === "expense") {
-      rows.push([`CC Processing Fees (${formData.ccFeeRate}%, venue cost)`, `−${formatCurrency(result.ccFees)}`]);
+      rows.push([`CC Processing Fees (${formData.ccFeeRate}%, venue cost)`, `−${formatMoney(result.ccFees, result.currency)}`]);
+    }
+
+    if (result.venueFeeIncome != null && result.venueFeeIncome > 0) {
+      rows.push(["Ticket Fees Retained by Venue", formatMoney(result.venueFeeIncome, result.currency)]);
+    }
+
+    if (result.bar && !result.venueRental) {
+      rows.push([
+        describeBarNet(result.bar, result.currency),
+        `${result.bar.net < 0 ? "−" : ""}${formatMoney(Math.abs(result.bar.net), result.currency)}`,
+      ]);
     }
 
-    const venueLabel = result.venuePayout < 0 ? "Venue Loss" : "Promoter/House Settlement";
+    const venueLabel = result.venueRental
+      ? "Promoter Proceeds (before venue rental)"
+      : result.venuePayout < 0 ? "Venue Loss" : "Promoter/House Settlement";
     const venueValue = result.venuePayout < 0
-      ? `−${formatCurrency(Math.abs(result.venuePayout))}`
-      : formatCurrency(result.venuePayout);
+      ? `−${formatMoney(Math.abs(result.venuePayout), result.currency)}`
+      : formatMoney(result.venuePayout, result.currency);
     rows.push([venueLabel, venueValue]);
 
-    if (result.merchGross != null && result.merchGross > 0) {
+    if (result.venueRental) {
+      const rental = result.venueRental;
+      rows.push([]);
+      rows.push(["--- Venue Rental Settlement ---", ""]);
+      rows.push([describeVenueRent(rental, result.currency), formatMoney(rental.rent, result.currency)]);
+      if (rental.houseCrew > 0 || rental.houseCrewMinimum > 0) {
+        rows.push([describeHouseCrew(rental, result.currency), formatMoney(rental.houseCrew, result.currency)]);
+      }
+      if (rental.barShortfall > 0) {
+        rows.push([describeBarShortfall(rental, result.currency), formatMoney(rental.barShortfall, result.currency)]);
+      }
+      if (rental.artistBarCredit) {
+        rows.push([ARTIST_BAR_CREDIT_LABEL, formatAdjustmentAmount(-rental.artistBarCredit, result.currency)]);
+      }
+      rows.push(["Total Owed to Venue", formatMoney(rental.totalOwed, result.currency)]);
+      if (rental.deposit > 0) rows.push(["Rental Deposit Paid", `−${formatMoney(rental.deposit, result.currency)}`]);
+      rows.push([
+        rental.balanceDue < 0 ? "Venue Owes Promoter" : "Balance Due to Venue",
+        formatMoney(Math.abs(rental.balanceDue), result.currency),
+      ]);
+      rows.push([
+        rental.promoterNet < 0 ? "Promoter Loss" : "Remaining for Promoter",
+        `${rental.promoterNet < 0 ? "−" : ""}${formatMoney(Math.abs(rental.promoterNet), result.currency)}`,
+      ]);
+    }
+
+    if (result.artists.some((ar) => ar.merch)) {
+      const isMulti = result.artists.length > 1;
+      for (const ar of result.artists) {
+        const merch = ar.merch;
+        if (!merch) continue;
+        const prefix = isMulti ? `${ar.artistName} ` : "";
+        rows.push([]);
+        rows.push([`${prefix}Soft Goods Sales`, formatMoney(merch.softGross, result.currency)]);
+        rows.push([`${prefix}Hard Goods Sales`, formatMoney(merch.hardGross, result.currency)]);
+        if (merch.tax > 0) rows.push([`${prefix}Merch Sales Tax`, `−${formatMoney(merch.tax, result.currency)}`]);
+        if (merch.cardFees > 0) rows.push([`${prefix}Merch Card Fees`, `−${formatMoney(merch.cardFees, result.currency)}`]);
+        rows.push([`${prefix}${describeMerchVenueCut("soft", merch.softVenuePercent)}`, `−${formatMoney(merch.softVenueCut, result.currency)}`]);
+        rows.push([`${prefix}${describeMerchVenueCut("hard", merch.hardVenuePercent)}`, `−${formatMoney(merch.hardVenueCut, result.currency)}`]);
+        if (merch.sellerFee != null) rows.push([`${prefix}Merch Seller Fee`, `−${formatMoney(merch.sellerFee, result.currency)}`]);
+        rows.push([`${prefix}Net Merch to Artist`, formatMoney(merch.netToArtist, result.currency)]);
+        if (ar.totalDue != null) rows.push([`${prefix}Total Due to Artist`, formatMoney(ar.totalDue, result.currency)]);
+        if (merch.inventory) {
+          const inventory = merch.inventory;
+          for (const line of inventory.lines) {
+            rows.push([`${prefix}${describeInventoryLine(line, result.currency)}`, formatMoney(line.expectedGross, result.currency)]);
+          }
+          rows.push([`${prefix}Merch Cash Reported`, formatMoney(inventory.cash, result.currency)]);
+          rows.push([`${prefix}Merch Card Reported`, formatMoney(inventory.card, result.currency)]);
+          rows.push([
+            `${prefix}${describeMerchInventoryVariance(inventory, result.currency)}`,
+            `${inventory.variance < 0 ? "−" : inventory.variance > 0 ? "+" : ""}${formatMoney(Math.abs(inventory.variance), result.currency)}`,
+          ]);
+        }
+      }
+    } else if (result.merchGross != null && result.merchGross > 0) {
       rows.push([]);
-      rows.push(["Gross Merch Sales", formatCurrency(result.merchGross)]);
-      rows.push([`Venue Merch Cut (${formData.merchVenuePercent || "0"}%)`, `−${formatCurrency(result.merchVenueCut ?? 0)}`]);
-      rows.push(["Net Merch to Artist", formatCurrency(result.merchNetToArtist ?? 0)]);
+      rows.push(["Gross Merch Sales", formatMoney(result.merchGross, result.currency)]);
+      rows.push([`Venue Merch Cut (${formData.artists[0]?.merch.softVenuePercent || "0"}%)`, `−${formatMoney(result.merchVenueCut ?? 0, result.currency)}`]);
+      rows.push(["Net Merch to Artist", formatMoney(result.merchNetToArtist ?? 0, result.currency)]);
       if (result.totalDueToArtist != null) {
         rows.push([]);
-        rows.push(["Total Due to Artist", formatCurrency(result.totalDueToArtist)]);
+        rows.push(["Total Due to Artist", formatMoney(result.totalDueToArtist, result.currency)]);
+      }
+    }
+
+    const comparison = formData.projection ? compareToProjection(formData.projection, result) : null;
+    if (comparison) {
+      rows.push([]);
+      rows.push(["--- Projection vs Actual ---", ""]);
+      rows.push([
+        "Sell-Through",
+        `${comparison.actualSellThroughPercent}% actual vs ${comparison.row.sellThroughPercent}% projected`,
+      ]);
+      for (const line of comparison.lines) {
+        rows.push([
+          `${line.label} (projected ${formatMoney(line.projected, result.currency)}, actual ${formatMoney(line.actual, result.currency)})`,
+          formatAdjustmentAmount(line.variance, result.currency),
+        ]);
       }
     }
 
@@ -811,6 +1886,21 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
       }
     }
 
+    // The ledger amends the settlement as saved; entries are added from the dashboard.
+    if (adjustments.length > 0) {
+      const amended = amendSettlement(result, adjustments);
+      rows.push([]);
+      rows.push(["--- Adjustments Ledger ---", ""]);
+      rows.push(["Balance Due as Settled", formatMoney(amended.originalBalance, result.currency)]);
+      for (const entry of adjustments) {
+        rows.push([describeAdjustment(entry), formatAdjustmentAmount(entry.amount, result.currency)]);
+      }
+      rows.push(["Artist Share of Adjustments", formatAdjustmentAmount(amended.artistAdjustments, result.currency)]);
+      rows.push(["Venue Share of Adjustments", formatAdjustmentAmount(amended.venueAdjustments, result.currency)]);
+      rows.push(["Amended Balance Due", formatMoney(amended.amendedBalance, result.currency)]);
+      rows.push(["Amended Promoter/House Settlement", formatMoney(amended.amendedVenuePayout, result.currency)]);
+    }
+
     const csvContent = rows
       .map((row) => row.length === 0 ? "" : row.map((cell) => `"${(cell ?? "").replace(/"/g, '""')}"`).join(","))
       .join("\n");
@@ -835,9 +1925,10 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
       return null;
     }
 
-    const freshCalc = computeSettlement(formData);
-    const isDraftSave = !freshCalc.ok;
-    if (!isDraftSave) {
+    // A projection has no ticket sales yet, so it is saved as a draft.
+    const freshCalc = formData.stage === "projection" ? null : computeSettlement(formData);
+    const isDraftSave = !freshCalc?.ok;
+    if (freshCalc?.ok) {
       setResult(freshCalc.result);
       setWarnings(freshCalc.warnings);
       setResultsStale(false);
@@ -855,11 +1946,66 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
           percentage: a.percentage,
           breakeven: a.breakeven,
           deposit: a.deposit,
+          ...(a.depositSchedule.length > 0
+            ? {
+                depositSchedule: a.depositSchedule.map(({ amountMode, amount, dueDate, paidDate, method, reference }) => ({
+                  amountMode,
+                  amount,
+                  dueDate,
+                  paidDate,
+                  method,
+                  reference,
+                })),
+              }
+            : {}),
           withholdingRate: a.withholdingRate,
           withholdingState: a.withholdingState,
           buyoutItems: a.buyoutItems.map(({ label, amount }) => ({ label, amount })),
           buyoutMode: a.buyoutMode,
+          payoutCurrency: a.payoutCurrency || undefined,
+          fxRate: a.fxRate || undefined,
+          fxDate: a.fxDate || undefined,
+          ...(getDealType(a.dealType)?.fields.promoterProfit
+            ? { promoterProfitMode: a.promoterProfitMode, promoterProfit: a.promoterProfit }
+            : {}),
+          ...(getDealType(a.dealType)?.fields.formula ? { formula: a.formula } : {}),
+          ...(a.escalatorBasis
+            ? {
+                escalatorBasis: a.escalatorBasis,
+                escalatorTiers: a.escalatorTiers.map(({ from, percentage }) => ({ from, percentage })),
+              }
+            : {}),
+          ...(a.bonusClauses.length > 0
+            ? {
+                bonusClauses: a.bonusClauses.map(({ label, trigger, threshold, amountMode, amount, step }) => ({
+                  label,
+                  trigger,
+                  threshold,
+                  amountMode,
+                  amount,
+                  step,
+                })),
+              }
+            : {}),
+          ...(a.costToLaterArtists ? {} : { costToLaterArtists: false }),
+          ...(a.merch.softGross || a.merch.hardGross || a.merch.inventory.length > 0
+            ? {
+                merch: {
+                  ...a.merch,
+                  inventory: a.merch.inventory.map(({ sku, price, countIn, adds, comps, countOut }) => ({
+                    sku,
+                    price,
+                    countIn,
+                    ...(adds ? { adds } : {}),
+                    ...(comps ? { comps } : {}),
+                    countOut,
+                  })),
+                },
+              }
+            : {}),
+          ...(a.bar.sharePercent || a.bar.guarantee ? { bar: a.bar } : {}),
         })),
+        ...(formData.artistAllocation === "sequential" ? { artistAllocation: "sequential" } : {}),
         artistName: formData.artists[0]?.artistName || "",
         dealType: formData.artists[0]?.dealType || "guarantee",
         guarantee: formData.artists[0]?.guarantee || "",
@@ -870,22 +2016,87 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
         withholdingState: formData.artists[0]?.withholdingState || "",
         buyoutItems: formData.artists[0]?.buyoutItems.map(({ label, amount }) => ({ label, amount })) || [],
         buyoutMode: formData.artists[0]?.buyoutMode || "deduct_from_balance",
-        ticketTiers: formData.ticketTiers.map(({ name, price, sold, comps }) => ({ name, price, sold, comps })),
+        currency: formData.currency,
+        ticketTiers: formData.ticketTiers.map(({ name, price, sold, comps, walkUpPrice, walkUpSold, facilityFee, serviceCharge, providerFee, compCategories, capacity }) => ({
+          name,
+          price,
+          sold,
+          comps,
+          ...(walkUpSold ? { walkUpSold, ...(walkUpPrice ? { walkUpPrice } : {}) } : {}),
+          ...(compCategories && Object.values(compCategories).some((n) => parseNumber(n ?? "") > 0) ? { compCategories } : {}),
+          ...(facilityFee ? { facilityFee } : {}),
+          ...(serviceCharge ? { serviceCharge } : {}),
+          ...(providerFee ? { providerFee } : {}),
+          ...(capacity ? { capacity } : {}),
+        })),
+        ...(hasTicketFees ? { ticketFeeTreatments: formData.ticketFeeTreatments } : {}),
+        ...(hasCompCategories ? { compAllowances: formData.compAllowances } : {}),
         capacity: formData.capacity,
         expectedGross: formData.expectedGross || undefined,
         ticketPrice: formData.ticketTiers[0]?.price || '',
-        ticketsSold: String(formData.ticketTiers.reduce((sum, t) => sum + parseNumber(t.sold), 0)),
-        taxRate: formData.taxRate,
-        taxMode: formData.taxMode,
+        ticketsSold: String(formData.ticketTiers.reduce((sum, t) => sum + parseNumber(t.sold) + parseNumber(t.walkUpSold || ""), 0)),
+        ...(formData.doorCash ? { doorCash: formData.doorCash } : {}),
+        ...(formData.doorCard ? { doorCard: formData.doorCard } : {}),
+        taxes: formData.taxes.map(({ name, rate, mode, compound, exemptTiers }) => {
+          // Tier ids are reassigned by position on load, so exemptions are saved positionally.
+          const tierKeys = exemptTiers
+            .map((tierId) => formData.ticketTiers.findIndex((t) => t.id === tierId))
+            .filter((i) => i >= 0)
+            .map((i) => String(i + 1));
+          return {
+            name,
+            rate,
+            mode,
+            ...(compound ? { compound } : {}),
+            ...(tierKeys.length > 0 ? { exemptTiers: tierKeys } : {}),
+          };
+        }),
         ccFeeRate: formData.ccFeeRate,
         ccFeeMode: formData.ccFeeMode,
-        expenseItems: formData.expenseItems.map(({ label, amount, note }) => ({ label, amount, ...(note ? { note } : {}) })),
+        expenseItems: formData.expenseItems.map(({ label, amount, note, deductibility, cap, appliesTo }) => {
+          // Artist ids are reassigned by position on load, so scoping is saved positionally.
+          const artistKeys = appliesTo
+            .map((artistId) => formData.artists.findIndex((a) => a.id === artistId))
+            .filter((i) => i >= 0)
+            .map((i) => String(i + 1));
+          return {
+            label,
+            amount,
+            ...(note ? { note } : {}),
+            ...(deductibility === "venue_only" ? { deductibility } : {}),
+            ...(deductibility !== "venue_only" && cap ? { cap } : {}),
+            ...(deductibility !== "venue_only" && artistKeys.length > 0 ? { appliesTo: artistKeys } : {}),
+          };
+        }),
         notes: formData.notes || undefined,
         totalExpenses: String(
           formData.expenseItems.reduce((sum, item) => sum + parseNumber(item.amount), 0)
         ),
-        merchGross: formData.merchGross,
-        merchVenuePercent: formData.merchVenuePercent,
+        ...(formData.merchTaxRate ? { merchTaxRate: formData.merchTaxRate } : {}),
+        ...(formData.merchCardFeeRate ? { merchCardFeeRate: formData.merchCardFeeRate } : {}),
+        ...(formData.outcome !== "performed" ? { outcome: formData.outcome } : {}),
+        ...(isCancellation(formData.outcome) && formData.killFeePercent ? { killFeePercent: formData.killFeePercent } : {}),
+        ...(isCancellation(formData.outcome) && formData.depositTreatment ? { depositTreatment: formData.depositTreatment } : {}),
+        ...(formData.outcome === "shortened" ? { scheduledMinutes: formData.scheduledMinutes, performedMinutes: formData.performedMinutes } : {}),
+        ...(formData.showMode === "promoter" ? { showMode: formData.showMode, venueRental: formData.venueRental } : {}),
+        ...(formData.barGross ? { barGross: formData.barGross } : {}),
+        ...(formData.barCostOfGoods ? { barCostOfGoods: formData.barCostOfGoods } : {}),
+        ...(formData.stage === "projection" ? { stage: formData.stage } : {}),
+        ...(formData.projection ? { projection: formData.projection } : {}),
+        ...(formData.ancillaryRevenue.length > 0
+          ? {
+              ancillaryRevenue: formData.ancillaryRevenue.map(
+                ({ category, label, amount, inclusion, artistSharePercent, artistId }) => ({
+                  category,
+                  ...(label ? { label } : {}),
+                  amount,
+                  inclusion,
+                  ...(inclusion === "split" ? { artistSharePercent } : {}),
+                  ...(inclusion === "split" && artistId ? { artistId } : {}),
+                })
+              ),
+            }
+          : {}),
       };
 
       const res = await fetch("/api/shows/save", {
@@ -902,14 +2113,31 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
       });
 
       const data = await res.json();
+      if (res.status === 409) {
+        // Acknowledged or adjusted settlements are frozen; say why instead of "try again".
+        setSaveStatus('error');
+        setSaveMessage(data.error);
+        setTimeout(() => { setSaveMessage(''); setSaveStatus('idle'); }, 6000);
+        return null;
+      }
       if (!res.ok || !data.success) {
         throw new Error(data.error || "Failed to save");
       }
 
       const savedShowId = data.showId as string;
       if (!currentShowId) setCurrentShowId(savedShowId);
+      if (data.runError) {
+        // The night saved, but its run kept its last settlement; say why.
+        setSaveStatus('error');
+        setSaveMessage(`Show saved, but its run could not be re-settled: ${data.runError}`);
+        setHasUnsavedChanges(false);
+        setTimeout(() => { setSaveMessage(''); setSaveStatus('idle'); }, 6000);
+        return savedShowId;
+      }
       setSaveStatus('success');
-      if (isDraftSave) {
+      if (formData.stage === "projection") {
+        setSaveMessage("Projection saved. Switch to an actual settlement after the show to compare.");
+      } else if (isDraftSave) {
         setSaveMessage("Draft saved. Complete required fields to finalize settlement.");
       } else {
         setSaveMessage(currentShowId ? 'Settlement updated successfully!' : 'Settlement saved successfully!');
@@ -926,15 +2154,37 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
     }
   }
 
+  // Each target re-runs the solver, so wait for typing to pause before solving.
+  useEffect(() => {
+    const timer = setTimeout(() => setSolvedGoalTarget(goalTarget), 400);
+    return () => clearTimeout(timer);
+  }, [goalTarget]);
+
+  const goalSeek = useMemo(
+    () => (goalSeekInput ? solveSettlementGoals(goalSeekInput, parseMoney(solvedGoalTarget)) : null),
+    [goalSeekInput, solvedGoalTarget]
+  );
+
+  const projectionComparison = useMemo(
+    () =>
+      result && formData.stage === "actual" && formData.projection
+        ? compareToProjection(formData.projection, result)
+        : null,
+    [result, formData.stage, formData.projection]
+  );
+
   const liveInputWarnings = useMemo(() => {
     const items: string[] = [];
     const capacity = parseNumber(formData.capacity);
-    const totalSold = formData.ticketTiers.reduce((sum, tier) => sum + parseNumber(tier.sold), 0);
+    const totalSold = formData.ticketTiers.reduce(
+      (sum, tier) => sum + parseNumber(tier.sold) + parseNumber(tier.walkUpSold || ""),
+      0
+    );
     if (capacity > 0 && totalSold > capacity) {
       items.push(`Tickets sold (${totalSold}) is above venue capacity (${capacity}).`);
     }
     for (const tier of formData.ticketTiers) {
-      const sold = parseNumber(tier.sold);
+      const sold = parseNumber(tier.sold) + parseNumber(tier.walkUpSold || "");
       const comps = parseNumber(tier.comps);
       if (comps > sold) {
         items.push(`${tier.name || "Tier"} has more comps than sold tickets.`);
@@ -1078,6 +2328,75 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
           <h3 className="calculator-section-title">Show Info</h3>
           <Input id="showName" name="showName" label="Show Name" value={formData.showName} onChange={handleInputChange} placeholder="ex: Summer Festival 2026" />
           <Input id="showDate" name="showDate" label="Show Date" type="date" value={formData.showDate} onChange={handleInputChange} />
+          <Select id="currency" name="currency" label="Settlement Currency" value={formData.currency} onChange={handleInputChange} hint="Currency tickets were sold and expenses paid in">
+            {SUPPORTED_CURRENCIES.map((c) => (
+              <option key={c.code} value={c.code}>{c.label}</option>
+            ))}
+          </Select>
+          <Select id="stage" name="stage" label="Settlement Stage" value={formData.stage} onChange={handleInputChange} hint="A projection settles the show at 25–100% sell-through from each tier's capacity, before any tickets are sold">
+            <option value="actual">Actual settlement</option>
+            <option value="projection">Pre-show projection</option>
+          </Select>
+          <Select id="showMode" name="showMode" label="Show Mode" value={formData.showMode} onChange={handleInputChange} hint="A rented room settles the rental agreement with the venue alongside the artist settlement">
+            <option value="venue">Venue settlement</option>
+            <option value="promoter">Promoter in a rented room</option>
+          </Select>
+          <Select id="outcome" name="outcome" label="Show Outcome" value={formData.outcome} onChange={handleInputChange} hint="Cancelled shows settle on the contract's cancellation terms; ticket sales are treated as refunded">
+            {SHOW_OUTCOMES.map((o) => (
+              <option key={o.outcome} value={o.outcome}>{o.label}</option>
+            ))}
+          </Select>
+          {isCancellation(formData.outcome) && (
+            <>
+              {formData.outcome !== "cancelled_by_artist" && (
+                <Input
+                  id="killFeePercent"
+                  name="killFeePercent"
+                  label="Kill Fee (% of guarantee)"
+                  type="number"
+                  value={formData.killFeePercent}
+                  onChange={handleInputChange}
+                  placeholder="ex: 50"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                />
+              )}
+              <Select id="depositTreatment" name="depositTreatment" label="Deposit" value={formData.depositTreatment} onChange={handleInputChange}>
+                <option value="">
+                  Contract default ({defaultDepositTreatment(formData.outcome) === "retain" ? "retained by artist" : "refunded"})
+                </option>
+                <option value="retain">Retained by artist</option>
+                <option value="refund">Refunded to venue</option>
+              </Select>
+            </>
+          )}
+          {formData.outcome === "shortened" && (
+            <>
+              <Input
+                id="scheduledMinutes"
+                name="scheduledMinutes"
+                label="Scheduled Set Length (min)"
+                type="number"
+                value={formData.scheduledMinutes}
+                onChange={handleInputChange}
+                placeholder="ex: 90"
+                min={0}
+                step={1}
+              />
+              <Input
+                id="performedMinutes"
+                name="performedMinutes"
+                label="Minutes Performed"
+                type="number"
+                value={formData.performedMinutes}
+                onChange={handleInputChange}
+                placeholder="ex: 45"
+                min={0}
+                step={1}
+              />
+            </>
+          )}
 
           <h3 className="calculator-section-title">Ticket Info</h3>
           <div className="calculator-tier-list">
@@ -1091,7 +2410,7 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                   placeholder="ex: General Admission"
                 />
                 <Input
-                  label={index === 0 ? "Price ($)" : undefined}
+                  label={index === 0 ? `Price (${formData.currency})` : undefined}
                   aria-label={`Tier ${index + 1} price`}
                   type="number"
                   value={tier.price}
@@ -1114,7 +2433,9 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                   label={index === 0 ? "Comps" : undefined}
                   aria-label={`Tier ${index + 1} comps`}
                   type="number"
-                  value={tier.comps}
+                  value={tierCategorizedComps(tier) > 0 ? String(tierCategorizedComps(tier)) : tier.comps}
+                  disabled={tierCategorizedComps(tier) > 0}
+                  title={tierCategorizedComps(tier) > 0 ? "Total of the comp breakdown below" : undefined}
                   onChange={(e) => updateTicketTier(tier.id, "comps", e.target.value)}
                   placeholder="0"
                   min={0}
@@ -1134,48 +2455,289 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
               + Add Tier
             </Button>
           </div>
-          <Input
-            id="capacity"
-            name="capacity"
-            label="Venue Capacity (optional)"
-            type="number"
-            value={formData.capacity}
-            onChange={handleInputChange}
-            placeholder="ex: 500"
-            min={0}
-            step={1}
-          />
-          <Input
-            id="expectedGross"
-            name="expectedGross"
-            label="Ticket report gross check ($)"
-            type="number"
-            value={formData.expectedGross}
-            onChange={handleInputChange}
-            placeholder="Optional: paste gross from your ticketing report"
-            min={0}
-            step={0.01}
-            hint="Use this to quickly catch payout math mismatches."
-          />
 
-          <h3 className="calculator-section-title">Tax & Fees</h3>
-          <div className="calculator-form-row">
-            <Input id="taxRate" name="taxRate" label="Entertainment / Sales Tax (%)" type="number" value={formData.taxRate} onChange={handleInputChange} placeholder="ex: 10" min={0} max={100} step={0.1} hint="Amusement tax, sales tax, or venue tax rate" />
-            <Select id="taxMode" name="taxMode" label="Tax Treatment" value={formData.taxMode} onChange={handleInputChange}>
-              <option value="exclusive">Tax added on top of ticket price</option>
-              <option value="inclusive">Ticket prices already include tax</option>
-            </Select>
-          </div>
-          <div className="calculator-form-row">
-            <Input id="ccFeeRate" name="ccFeeRate" label="CC Processing Fee (%)" type="number" value={formData.ccFeeRate} onChange={handleInputChange} placeholder="ex: 2.9" min={0} max={100} step={0.01} hint="Credit card / payment processing rate" />
-            <Select id="ccFeeMode" name="ccFeeMode" label="Card Fee Treatment" value={formData.ccFeeMode} onChange={handleInputChange}>
-              <option value="expense">Venue-only cost (does not reduce artist deal)</option>
-              <option value="off_top">Deduct before artist split (shared impact)</option>
-            </Select>
-          </div>
+          {(formData.stage === "projection" || formData.ticketTiers.some((t) => t.capacity)) && (
+            <>
+              <h4 className="calculator-subsection-title">Ticket Scaling</h4>
+              <p className="ds-input-hint calculator-field-help">
+                Tickets available in each tier. Projections sell each tier to this capacity; without any, the venue capacity is split evenly across priced tiers.
+              </p>
+              <div className="calculator-tier-list">
+                {formData.ticketTiers.map((tier, index) => (
+                  <div key={tier.id} className="calculator-tier-capacity-row">
+                    <span className="calculator-tier-fee-name">{tier.name || `Tier ${index + 1}`}</span>
+                    <Input
+                      label={index === 0 ? "Capacity" : undefined}
+                      aria-label={`Tier ${index + 1} capacity`}
+                      type="number"
+                      value={tier.capacity || ""}
+                      onChange={(e) => updateTicketTier(tier.id, "capacity", e.target.value)}
+                      placeholder="ex: 400"
+                      min={0}
+                      step={1}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
 
-          <h3 className="calculator-section-title">Show Expenses</h3>
-          <div className="calculator-expense-list">
+          <h4 className="calculator-subsection-title">Walk-Up Sales (optional)</h4>
+          <p className="ds-input-hint calculator-field-help">
+            Day-of-show sales at the door. The price and sold above are advance sales; a blank walk-up price uses the advance price.
+          </p>
+          <div className="calculator-tier-list">
+            {formData.ticketTiers.map((tier, index) => (
+              <div key={tier.id} className="calculator-tier-walkup-row">
+                <span className="calculator-tier-fee-name">{tier.name || `Tier ${index + 1}`}</span>
+                <Input
+                  label={index === 0 ? `Walk-Up Price (${formData.currency})` : undefined}
+                  aria-label={`Tier ${index + 1} walk-up price`}
+                  type="number"
+                  value={tier.walkUpPrice || ""}
+                  onChange={(e) => updateTicketTier(tier.id, "walkUpPrice", e.target.value)}
+                  placeholder={tier.price || "ex: 30"}
+                  min={0}
+                  step={0.01}
+                />
+                <Input
+                  label={index === 0 ? "Walk-Up Sold" : undefined}
+                  aria-label={`Tier ${index + 1} walk-up sold`}
+                  type="number"
+                  value={tier.walkUpSold || ""}
+                  onChange={(e) => updateTicketTier(tier.id, "walkUpSold", e.target.value)}
+                  placeholder="0"
+                  min={0}
+                  step={1}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="calculator-form-row">
+            <Input
+              id="doorCash"
+              name="doorCash"
+              label={`Door Cash Counted (${formData.currency})`}
+              type="number"
+              value={formData.doorCash}
+              onChange={handleInputChange}
+              placeholder="Optional"
+              min={0}
+              step={0.01}
+            />
+            <Input
+              id="doorCard"
+              name="doorCard"
+              label={`Door Card Receipts (${formData.currency})`}
+              type="number"
+              value={formData.doorCard}
+              onChange={handleInputChange}
+              placeholder="Optional"
+              min={0}
+              step={0.01}
+              hint="Reconciled against walk-up sales, separately from ticketing-platform revenue"
+            />
+          </div>
+
+          <h4 className="calculator-subsection-title">Comp Breakdown (optional)</h4>
+          <p className="ds-input-hint calculator-field-help">
+            Comps by category. Comps over a category&apos;s allowance are charged back into gross at the tier&apos;s face value; leave an allowance blank for no cap.
+          </p>
+          <div className="calculator-tier-list">
+            {formData.ticketTiers.map((tier, index) => (
+              <div key={tier.id} className="calculator-tier-comp-row">
+                <span className="calculator-tier-fee-name">{tier.name || `Tier ${index + 1}`}</span>
+                {COMP_CATEGORIES.map(({ category, label }) => (
+                  <Input
+                    key={category}
+                    label={index === 0 ? label : undefined}
+                    aria-label={`Tier ${index + 1} ${label.toLowerCase()}`}
+                    type="number"
+                    value={tier.compCategories?.[category] || ""}
+                    onChange={(e) => updateTierCompCategory(tier.id, category, e.target.value)}
+                    placeholder="0"
+                    min={0}
+                    step={1}
+                  />
+                ))}
+              </div>
+            ))}
+            {hasCompCategories && (
+              <div className="calculator-tier-comp-row">
+                <span className="calculator-tier-fee-name">Allowance (all tiers)</span>
+                {COMP_CATEGORIES.map(({ category, label }) => (
+                  <Input
+                    key={category}
+                    aria-label={`${label} allowance`}
+                    type="number"
+                    value={formData.compAllowances[category]}
+                    onChange={(e) => updateCompAllowance(category, e.target.value)}
+                    placeholder="No cap"
+                    min={0}
+                    step={1}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          <h4 className="calculator-subsection-title">Ticket Fees (optional)</h4>
+          <p className="ds-input-hint calculator-field-help">
+            Per-ticket fees collected on top of the face price. Only the share a fee&apos;s treatment allows counts toward the artist gross.
+          </p>
+          <div className="calculator-tier-list">
+            {formData.ticketTiers.map((tier, index) => (
+              <div key={tier.id} className="calculator-tier-fee-row">
+                <span className="calculator-tier-fee-name">{tier.name || `Tier ${index + 1}`}</span>
+                {TICKET_FEE_KINDS.map(({ kind, label, field }) => (
+                  <Input
+                    key={kind}
+                    label={index === 0 ? `${label} (${formData.currency})` : undefined}
+                    aria-label={`Tier ${index + 1} ${label.toLowerCase()}`}
+                    type="number"
+                    value={tier[field] || ""}
+                    onChange={(e) => updateTicketTier(tier.id, field, e.target.value)}
+                    placeholder="0"
+                    min={0}
+                    step={0.01}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          {hasTicketFees && (
+            <div className="calculator-form-row">
+              {TICKET_FEE_KINDS.map(({ kind, label }) => (
+                <div key={kind}>
+                  <Select
+                    label={`${label} Treatment`}
+                    value={formData.ticketFeeTreatments[kind].treatment}
+                    onChange={(e) => updateFeeTreatment(kind, "treatment", e.target.value)}
+                  >
+                    <option value="excluded">Excluded from gross</option>
+                    <option value="venue">Retained by venue</option>
+                    <option value="split">Split with artist gross</option>
+                  </Select>
+                  {formData.ticketFeeTreatments[kind].treatment === "split" && (
+                    <Input
+                      label="Artist Gross Share (%)"
+                      type="number"
+                      value={formData.ticketFeeTreatments[kind].artistSharePercent}
+                      onChange={(e) => updateFeeTreatment(kind, "artistSharePercent", e.target.value)}
+                      placeholder="ex: 50"
+                      min={0}
+                      max={100}
+                      step={0.1}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          <Input
+            id="capacity"
+            name="capacity"
+            label="Venue Capacity (optional)"
+            type="number"
+            value={formData.capacity}
+            onChange={handleInputChange}
+            placeholder="ex: 500"
+            min={0}
+            step={1}
+          />
+          <Input
+            id="expectedGross"
+            name="expectedGross"
+            label={`Ticket report gross check (${formData.currency})`}
+            type="number"
+            value={formData.expectedGross}
+            onChange={handleInputChange}
+            placeholder="Optional: paste gross from your ticketing report"
+            min={0}
+            step={0.01}
+            hint="Use this to quickly catch payout math mismatches."
+          />
+
+          <h3 className="calculator-section-title">Tax & Fees</h3>
+          <div className="calculator-expense-list">
+            {formData.taxes.map((tax, index) => (
+              <div key={tax.id} className="calculator-tax-row">
+                <Input
+                  label={index === 0 ? "Tax Name" : undefined}
+                  aria-label={`Tax ${index + 1} name`}
+                  value={tax.name}
+                  onChange={(e) => updateTax(tax.id, "name", e.target.value)}
+                  placeholder="ex: Amusement Tax"
+                />
+                <Input
+                  label={index === 0 ? "Rate (%)" : undefined}
+                  aria-label={`Tax ${index + 1} rate`}
+                  type="number"
+                  value={tax.rate}
+                  onChange={(e) => updateTax(tax.id, "rate", e.target.value)}
+                  placeholder="ex: 10"
+                  min={0}
+                  max={100}
+                  step={0.001}
+                />
+                <Select
+                  label={index === 0 ? "Treatment" : undefined}
+                  aria-label={`Tax ${index + 1} treatment`}
+                  value={tax.mode}
+                  onChange={(e) => updateTax(tax.id, "mode", e.target.value)}
+                >
+                  <option value="exclusive">Added on top of ticket price</option>
+                  <option value="inclusive">Included in ticket price</option>
+                </Select>
+                {formData.taxes.length > 1 && (
+                  <DestructiveConfirmPopover
+                    label={tax.name || "this tax"}
+                    ariaLabel={`Remove ${tax.name || "tax"}`}
+                    onConfirm={() => removeTax(tax.id)}
+                    className="calculator-expense-remove"
+                  />
+                )}
+                {(index > 0 || formData.ticketTiers.length > 1) && (
+                  <div className="calculator-expense-terms">
+                    {index > 0 && (
+                      <label className="calculator-checkbox-option">
+                        <input type="checkbox" checked={tax.compound} onChange={() => toggleTaxCompound(tax.id)} />
+                        Compound (charged on the taxes above too)
+                      </label>
+                    )}
+                    {formData.ticketTiers.length > 1 && (
+                      <fieldset className="calculator-checkbox-group">
+                        <legend className="ds-input-hint">Exempt tiers</legend>
+                        {formData.ticketTiers.map((tier, tierIdx) => (
+                          <label key={tier.id} className="calculator-checkbox-option">
+                            <input
+                              type="checkbox"
+                              checked={tax.exemptTiers.includes(tier.id)}
+                              onChange={() => toggleTaxExemptTier(tax.id, tier.id)}
+                            />
+                            {tier.name || `Tier ${tierIdx + 1}`}
+                          </label>
+                        ))}
+                      </fieldset>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button variant="ghost" size="sm" onClick={addTax} type="button">
+              + Add Tax
+            </Button>
+          </div>
+          <div className="calculator-form-row">
+            <Input id="ccFeeRate" name="ccFeeRate" label="CC Processing Fee (%)" type="number" value={formData.ccFeeRate} onChange={handleInputChange} placeholder="ex: 2.9" min={0} max={100} step={0.01} hint="Credit card / payment processing rate, charged on ticket sales paid by card" />
+            <Select id="ccFeeMode" name="ccFeeMode" label="Card Fee Treatment" value={formData.ccFeeMode} onChange={handleInputChange}>
+              <option value="expense">Venue-only cost (does not reduce artist deal)</option>
+              <option value="off_top">Deduct before artist split (shared impact)</option>
+            </Select>
+          </div>
+
+          <h3 className="calculator-section-title">Show Expenses</h3>
+          <div className="calculator-expense-list">
             {formData.expenseItems.map((item, index) => (
               <div key={item.id} className="calculator-expense-row">
                 <Input
@@ -1187,7 +2749,7 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                   list="common-expenses"
                 />
                 <Input
-                  label={index === 0 ? "Amount ($)" : undefined}
+                  label={index === 0 ? `Amount (${formData.currency})` : undefined}
                   aria-label={`Expense ${index + 1} amount`}
                   type="number"
                   value={item.amount}
@@ -1204,6 +2766,46 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                     className="calculator-expense-remove"
                   />
                 )}
+                {(item.label.trim() || parseNumber(item.amount) > 0) && (
+                  <div className="calculator-expense-terms">
+                    <Select
+                      size="sm"
+                      aria-label={`Expense ${index + 1} deductibility`}
+                      value={item.deductibility}
+                      onChange={(e) => updateExpenseItem(item.id, "deductibility", e.target.value)}
+                    >
+                      <option value="artist_approved">Artist-approved (deducted from artist net)</option>
+                      <option value="venue_only">Venue only (not charged to artist)</option>
+                    </Select>
+                    {item.deductibility !== "venue_only" && (
+                      <Input
+                        size="sm"
+                        aria-label={`Expense ${index + 1} not-to-exceed cap`}
+                        type="number"
+                        value={item.cap}
+                        onChange={(e) => updateExpenseItem(item.id, "cap", e.target.value)}
+                        placeholder={`Not to exceed (${formData.currency}, optional)`}
+                        min={0}
+                        step={0.01}
+                      />
+                    )}
+                    {item.deductibility !== "venue_only" && formData.artists.length > 1 && (
+                      <fieldset className="calculator-checkbox-group">
+                        <legend className="ds-input-hint">Charged to (none checked = all artists)</legend>
+                        {formData.artists.map((a, artistIdx) => (
+                          <label key={a.id} className="calculator-checkbox-option">
+                            <input
+                              type="checkbox"
+                              checked={item.appliesTo.includes(a.id)}
+                              onChange={() => toggleExpenseArtist(item.id, a.id)}
+                            />
+                            {a.artistName || `Artist ${artistIdx + 1}`}
+                          </label>
+                        ))}
+                      </fieldset>
+                    )}
+                  </div>
+                )}
                 {(item.label.trim() || parseNumber(item.amount) > 0) && (
                   <div className="calculator-expense-note">
                     <Input
@@ -1228,10 +2830,127 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
             </Button>
           </div>
 
+          <h3 className="calculator-section-title">Ancillary Revenue (optional)</h3>
+          {formData.ancillaryRevenue.map((row, index) => (
+            <div key={row.id} className="calculator-ancillary-row">
+              <Select
+                label={index === 0 ? "Category" : undefined}
+                aria-label={`Revenue stream ${index + 1} category`}
+                value={row.category}
+                onChange={(e) => updateAncillaryRow(row.id, "category", e.target.value)}
+              >
+                {ANCILLARY_CATEGORIES.map((c) => (
+                  <option key={c.category} value={c.category}>{c.label}</option>
+                ))}
+              </Select>
+              <Input
+                label={index === 0 ? "Description" : undefined}
+                aria-label={`Revenue stream ${index + 1} description`}
+                value={row.label}
+                onChange={(e) => updateAncillaryRow(row.id, "label", e.target.value)}
+                placeholder="ex: Lot B"
+              />
+              <Input
+                label={index === 0 ? `Amount (${formData.currency})` : undefined}
+                aria-label={`Revenue stream ${index + 1} amount`}
+                type="number"
+                value={row.amount}
+                onChange={(e) => updateAncillaryRow(row.id, "amount", e.target.value)}
+                placeholder="ex: 800"
+                min={0}
+                step={0.01}
+              />
+              <Select
+                label={index === 0 ? "Counts" : undefined}
+                aria-label={`Revenue stream ${index + 1} inclusion`}
+                value={row.inclusion}
+                onChange={(e) => updateAncillaryRow(row.id, "inclusion", e.target.value)}
+              >
+                {ANCILLARY_INCLUSIONS.map((i) => (
+                  <option key={i.inclusion} value={i.inclusion}>{i.label}</option>
+                ))}
+              </Select>
+              {row.inclusion === "split" ? (
+                <div className="calculator-ancillary-split">
+                  <Input
+                    label={index === 0 ? "Artist %" : undefined}
+                    aria-label={`Revenue stream ${index + 1} artist percentage`}
+                    type="number"
+                    value={row.artistSharePercent}
+                    onChange={(e) => updateAncillaryRow(row.id, "artistSharePercent", e.target.value)}
+                    placeholder="ex: 25"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                  />
+                  {formData.artists.length > 1 && (
+                    <Select
+                      size="sm"
+                      aria-label={`Revenue stream ${index + 1} paid to`}
+                      value={row.artistId}
+                      onChange={(e) => updateAncillaryRow(row.id, "artistId", e.target.value)}
+                    >
+                      {formData.artists.map((a, artistIdx) => (
+                        <option key={a.id} value={artistIdx === 0 ? "" : a.id}>
+                          Paid to {a.artistName || `Artist ${artistIdx + 1}`}
+                        </option>
+                      ))}
+                    </Select>
+                  )}
+                </div>
+              ) : (
+                <span />
+              )}
+              <DestructiveConfirmPopover
+                label={row.label || "this revenue stream"}
+                ariaLabel={`Remove revenue stream ${index + 1}`}
+                onConfirm={() => removeAncillaryRow(row.id)}
+              />
+            </div>
+          ))}
+          <p className="ds-input-hint calculator-field-help">
+            In gross counts toward every deal; in net only counts toward net-based deals; split streams are paid
+            directly to the chosen artist (the headliner unless another is picked) at the artist percentage.
+          </p>
+          <Button variant="ghost" size="sm" onClick={addAncillaryRow} type="button">
+            + Add Revenue Stream
+          </Button>
+
+          {formData.artists.length > 1 && (
+            <>
+              <Select
+                label="Multi-Artist Allocation"
+                name="artistAllocation"
+                value={formData.artistAllocation}
+                onChange={handleInputChange}
+              >
+                <option value="parallel">Parallel (every artist settles on the same net)</option>
+                <option value="sequential">Sequential (artists settle in order; earlier payouts are costs)</option>
+              </Select>
+              <p className="ds-input-hint calculator-field-help">
+                {formData.artistAllocation === "sequential"
+                  ? "Artists settle in the order listed. Each payout marked as a cost comes off the net of every artist after it — e.g. support guarantees before the headliner's percentage."
+                  : "Each artist's deal is computed on the same net, independently of the others."}
+              </p>
+            </>
+          )}
+
           {formData.artists.map((artist, artistIndex) => (
             <div key={artist.id} className="calculator-artist-section">
               <h3 className="calculator-section-title">
                 {formData.artists.length > 1 ? `Artist ${artistIndex + 1} — Deal & Payouts` : "Artist — Deal & Payouts"}
+                {formData.artistAllocation === "sequential" && artistIndex > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    type="button"
+                    onClick={() => moveArtistEarlier(artist.id)}
+                    aria-label={`Move ${artist.artistName || `Artist ${artistIndex + 1}`} earlier`}
+                    className="calculator-artist-move"
+                  >
+                    ↑ Settle Earlier
+                  </Button>
+                )}
                 {formData.artists.length > 1 && (
                   <DestructiveConfirmPopover
                     label={artist.artistName || `Artist ${artistIndex + 1}`}
@@ -1254,28 +2973,127 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                 value={artist.dealType}
                 onChange={(e) => updateArtistField(artist.id, "dealType", e.target.value)}
               >
-                <option value="guarantee" title="Artist receives a fixed amount regardless of show performance">Guarantee</option>
-                <option value="percentage" title="Artist receives a percentage of net profit (after tax and expenses)">Percentage of Net</option>
-                <option value="guarantee_vs_percentage" title="Artist gets the higher of: guarantee OR percentage of net">Guarantee vs Percentage (whichever is higher)</option>
-                <option value="guarantee_plus_percentage" title="Artist gets guarantee plus a percentage of net above breakeven">Guarantee + Back-End Percentage</option>
-                <option value="percentage_of_gross" title="Artist receives a percentage of gross revenue (before expenses)">Percentage of Gross (before deductions)</option>
-                <option value="door_deal" title="Artist receives a percentage of gross after tax (no expenses deducted)">Door Deal (% of gross after tax)</option>
+                {DEAL_TYPES.map((deal) => (
+                  <option key={deal.type} value={deal.type} title={deal.title}>{deal.label}</option>
+                ))}
               </Select>
               <p className="ds-input-hint calculator-field-help">
-                {DEAL_TYPE_HELP[artist.dealType]}
+                {getDealType(artist.dealType)?.help}
               </p>
+              {formData.artists.length > 1 && formData.artistAllocation === "sequential" && artistIndex < formData.artists.length - 1 && (
+                <label className="calculator-checkbox-option calculator-artist-cost-toggle">
+                  <input
+                    type="checkbox"
+                    checked={artist.costToLaterArtists}
+                    onChange={() => toggleArtistCostToLater(artist.id)}
+                  />
+                  Count this payout as a cost for the artists listed after
+                </label>
+              )}
 
               <div className="calculator-form-row">
-                {(artist.dealType === "guarantee" || artist.dealType === "guarantee_vs_percentage" || artist.dealType === "guarantee_plus_percentage") && (
-                  <Input label="Guarantee Amount ($)" type="number" value={artist.guarantee} onChange={(e) => updateArtistField(artist.id, "guarantee", e.target.value)} placeholder="ex: 1000" min={0} step={0.01} />
+                {getDealType(artist.dealType)?.fields.guarantee && (
+                  <Input label={`Guarantee Amount (${formData.currency})`} type="number" value={artist.guarantee} onChange={(e) => updateArtistField(artist.id, "guarantee", e.target.value)} placeholder="ex: 1000" min={0} step={0.01} />
                 )}
-                {(artist.dealType === "percentage" || artist.dealType === "guarantee_vs_percentage" || artist.dealType === "guarantee_plus_percentage" || artist.dealType === "percentage_of_gross" || artist.dealType === "door_deal") && (
-                  <Input label={artist.dealType === "guarantee_plus_percentage" ? "Back-End Percentage (%)" : "Percentage (%)"} type="number" value={artist.percentage} onChange={(e) => updateArtistField(artist.id, "percentage", e.target.value)} placeholder="ex: 85" min={0} max={100} step={0.1} />
+                {getDealType(artist.dealType)?.fields.percentage && (
+                  <Input label={`${describeDealPercentage(artist.dealType)} (%)`} type="number" value={artist.percentage} onChange={(e) => updateArtistField(artist.id, "percentage", e.target.value)} placeholder="ex: 85" min={0} max={100} step={0.1} />
                 )}
               </div>
-              {artist.dealType === "guarantee_plus_percentage" && (
+              {getDealType(artist.dealType)?.fields.promoterProfit && (
+                <div className="calculator-form-row">
+                  <Select
+                    label="Promoter Profit Basis"
+                    value={artist.promoterProfitMode}
+                    onChange={(e) => {
+                      updateArtistField(artist.id, "promoterProfitMode", e.target.value);
+                      updateArtistField(artist.id, "promoterProfit", "");
+                    }}
+                  >
+                    <option value="percent_of_expenses">Percentage of expenses + guarantee</option>
+                    <option value="flat">Flat amount</option>
+                  </Select>
+                  <Input
+                    label={artist.promoterProfitMode === "flat" ? `Promoter Profit (${formData.currency})` : "Promoter Profit (%)"}
+                    type="number"
+                    value={artist.promoterProfit}
+                    onChange={(e) => updateArtistField(artist.id, "promoterProfit", e.target.value)}
+                    placeholder={artist.promoterProfitMode === "flat" ? "ex: 1500" : "ex: 15"}
+                    min={0}
+                    max={artist.promoterProfitMode === "flat" ? undefined : 100}
+                    step={artist.promoterProfitMode === "flat" ? 0.01 : 0.1}
+                  />
+                </div>
+              )}
+              {getDealType(artist.dealType)?.fields.formula && (
+                <Textarea
+                  id={`artist-${artist.id}-formula`}
+                  label="Deal Formula"
+                  value={artist.formula}
+                  onChange={(e) => updateArtistField(artist.id, "formula", e.target.value)}
+                  placeholder="ex: max($5k, 70% * (gross - 2 * tickets))"
+                  rows={2}
+                  error={getFormulaError(artist.formula)}
+                  hint={`Variables: ${Object.keys(FORMULA_VARIABLES).join(", ")} (amounts in ${formData.currency}). Functions: ${FORMULA_FUNCTIONS.join(", ")}, e.g. tiered(net, 0, 80%, 20k, 85%) is 80% of net to 20,000 and 85% above. Guard division with if(), e.g. if(tickets > 0, gross / tickets, 0).`}
+                />
+              )}
+              {getDealType(artist.dealType)?.fields.percentage && (
+                <>
+                  <Select
+                    label="Escalating Percentage (optional)"
+                    value={artist.escalatorBasis}
+                    onChange={(e) => updateArtistField(artist.id, "escalatorBasis", e.target.value)}
+                    hint="Bands replace the flat percentage, e.g. 80% to $20k, 85% to $40k, 90% above"
+                  >
+                    <option value="">None — flat percentage</option>
+                    <option value="net">Bands keyed to net</option>
+                    <option value="gross">Bands keyed to gross</option>
+                    <option value="tickets">Bands keyed to tickets sold</option>
+                  </Select>
+                  {artist.escalatorBasis && (
+                    <div className="calculator-expense-list">
+                      {artist.escalatorTiers.map((tier, index) => (
+                        <div key={tier.id} className="calculator-expense-row">
+                          <Input
+                            label={index === 0 ? (artist.escalatorBasis === "tickets" ? "From (tickets)" : `From (${formData.currency})`) : undefined}
+                            aria-label={`${artist.artistName || `Artist ${artistIndex + 1}`} escalator band ${index + 1} threshold`}
+                            type="number"
+                            value={index === 0 ? "0" : tier.from}
+                            onChange={(e) => updateEscalatorTier(artist.id, tier.id, "from", e.target.value)}
+                            disabled={index === 0}
+                            min={0}
+                            step={artist.escalatorBasis === "tickets" ? 1 : 0.01}
+                          />
+                          <Input
+                            label={index === 0 ? "Percentage (%)" : undefined}
+                            aria-label={`${artist.artistName || `Artist ${artistIndex + 1}`} escalator band ${index + 1} percentage`}
+                            type="number"
+                            value={tier.percentage}
+                            onChange={(e) => updateEscalatorTier(artist.id, tier.id, "percentage", e.target.value)}
+                            placeholder="ex: 80"
+                            min={0}
+                            max={100}
+                            step={0.1}
+                          />
+                          {artist.escalatorTiers.length > 1 && (
+                            <DestructiveConfirmPopover
+                              label="this band"
+                              ariaLabel={`Remove escalator band ${index + 1}`}
+                              onConfirm={() => removeEscalatorTier(artist.id, tier.id)}
+                              className="calculator-expense-remove"
+                            />
+                          )}
+                        </div>
+                      ))}
+                      <Button variant="ghost" size="sm" onClick={() => addEscalatorTier(artist.id)} type="button">
+                        + Add Band
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+              {getDealType(artist.dealType)?.fields.breakeven && (
                 <Input
-                  label="Breakeven Point ($)"
+                  label={`Breakeven Point (${formData.currency})`}
                   type="number"
                   value={artist.breakeven}
                   onChange={(e) => updateArtistField(artist.id, "breakeven", e.target.value)}
@@ -1286,16 +3104,409 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                 />
               )}
 
-              <Input
-                label="Deposit / Advance Already Paid ($)"
-                type="number"
-                value={artist.deposit}
-                onChange={(e) => updateArtistField(artist.id, "deposit", e.target.value)}
-                placeholder="ex: 500"
-                hint="Amount already wired to the artist before the show"
-                min={0}
-                step={0.01}
-              />
+              {artist.depositSchedule.length === 0 && (
+                <Input
+                  label={`Deposit / Advance Already Paid (${formData.currency})`}
+                  type="number"
+                  value={artist.deposit}
+                  onChange={(e) => updateArtistField(artist.id, "deposit", e.target.value)}
+                  placeholder="ex: 500"
+                  hint="Amount already wired to the artist before the show"
+                  min={0}
+                  step={0.01}
+                />
+              )}
+
+              <h4 className="calculator-subsection-title">Deposit Installments (optional)</h4>
+              {artist.depositSchedule.length > 0 && (
+                <p className="ds-input-hint calculator-field-help">
+                  Replaces the single deposit. Only installments with a paid date come off the balance due.
+                </p>
+              )}
+              <div className="calculator-expense-list">
+                {artist.depositSchedule.map((installment, index) => {
+                  const installmentName = `${artist.artistName || `Artist ${artistIndex + 1}`} deposit installment ${index + 1}`;
+                  return (
+                    <div key={installment.id} className="calculator-bonus-clause">
+                      <div className="calculator-form-row">
+                        <Select
+                          label="Amount Type"
+                          aria-label={`${installmentName} amount type`}
+                          value={installment.amountMode}
+                          onChange={(e) => updateDepositInstallment(artist.id, installment.id, "amountMode", e.target.value)}
+                        >
+                          <option value="percent">Percentage of guarantee</option>
+                          <option value="amount">Fixed amount</option>
+                        </Select>
+                        <Input
+                          label={installment.amountMode === "percent" ? "Amount (%)" : `Amount (${formData.currency})`}
+                          aria-label={`${installmentName} amount`}
+                          type="number"
+                          value={installment.amount}
+                          onChange={(e) => updateDepositInstallment(artist.id, installment.id, "amount", e.target.value)}
+                          placeholder={installment.amountMode === "percent" ? "ex: 50" : "ex: 2500"}
+                          min={0}
+                          max={installment.amountMode === "percent" ? 100 : undefined}
+                          step={installment.amountMode === "percent" ? 0.1 : 0.01}
+                        />
+                        <Input
+                          label="Due Date"
+                          aria-label={`${installmentName} due date`}
+                          type="date"
+                          value={installment.dueDate}
+                          onChange={(e) => updateDepositInstallment(artist.id, installment.id, "dueDate", e.target.value)}
+                        />
+                      </div>
+                      <div className="calculator-form-row">
+                        <Input
+                          label="Paid Date"
+                          aria-label={`${installmentName} paid date`}
+                          type="date"
+                          value={installment.paidDate}
+                          onChange={(e) => updateDepositInstallment(artist.id, installment.id, "paidDate", e.target.value)}
+                          hint="Leave blank until the money arrives"
+                        />
+                        <Select
+                          label="Method"
+                          aria-label={`${installmentName} method`}
+                          value={installment.method}
+                          onChange={(e) => updateDepositInstallment(artist.id, installment.id, "method", e.target.value)}
+                        >
+                          <option value="">—</option>
+                          {DEPOSIT_METHODS.map((m) => (
+                            <option key={m.value} value={m.value}>{m.label}</option>
+                          ))}
+                        </Select>
+                        <Input
+                          label="Reference #"
+                          aria-label={`${installmentName} reference number`}
+                          value={installment.reference}
+                          onChange={(e) => updateDepositInstallment(artist.id, installment.id, "reference", e.target.value)}
+                          placeholder="ex: wire confirmation"
+                        />
+                      </div>
+                      <DestructiveConfirmPopover
+                        label="this installment"
+                        ariaLabel={`Remove ${installmentName}`}
+                        onConfirm={() => removeDepositInstallment(artist.id, installment.id)}
+                        className="calculator-expense-remove"
+                      />
+                    </div>
+                  );
+                })}
+                <Button variant="ghost" size="sm" onClick={() => addDepositInstallment(artist.id)} type="button">
+                  + Add Installment
+                </Button>
+              </div>
+
+              <h4 className="calculator-subsection-title">Bonuses (optional)</h4>
+              <div className="calculator-expense-list">
+                {artist.bonusClauses.map((clause, index) => {
+                  const unit = clause.trigger === "tickets" ? "tickets" : formData.currency;
+                  const clauseName = `${artist.artistName || `Artist ${artistIndex + 1}`} bonus ${index + 1}`;
+                  return (
+                    <div key={clause.id} className="calculator-bonus-clause">
+                      <div className="calculator-form-row">
+                        <Input
+                          label="Bonus Label"
+                          aria-label={`${clauseName} label`}
+                          value={clause.label}
+                          onChange={(e) => updateBonusClause(artist.id, clause.id, "label", e.target.value)}
+                          placeholder="ex: Sellout bonus"
+                        />
+                        <Select
+                          label="Trigger"
+                          aria-label={`${clauseName} trigger`}
+                          value={clause.trigger}
+                          onChange={(e) => updateBonusClause(artist.id, clause.id, "trigger", e.target.value)}
+                        >
+                          <option value="sellout">Sellout (tickets sold reach capacity)</option>
+                          <option value="tickets">Tickets sold threshold</option>
+                          <option value="gross">Gross threshold</option>
+                        </Select>
+                      </div>
+                      <div className="calculator-form-row">
+                        {clause.trigger !== "sellout" && (
+                          <>
+                            <Input
+                              label={`Threshold (${unit})`}
+                              aria-label={`${clauseName} threshold`}
+                              type="number"
+                              value={clause.threshold}
+                              onChange={(e) => updateBonusClause(artist.id, clause.id, "threshold", e.target.value)}
+                              placeholder={clause.trigger === "tickets" ? "ex: 800" : "ex: 20000"}
+                              min={0}
+                              step={clause.trigger === "tickets" ? 1 : 0.01}
+                            />
+                            <Select
+                              label="Amount Type"
+                              aria-label={`${clauseName} amount type`}
+                              value={clause.amountMode}
+                              onChange={(e) => updateBonusClause(artist.id, clause.id, "amountMode", e.target.value)}
+                            >
+                              <option value="flat">Flat once threshold is reached</option>
+                              <option value="stepped">Per step above threshold</option>
+                            </Select>
+                          </>
+                        )}
+                        <Input
+                          label={`Bonus Amount (${formData.currency})`}
+                          aria-label={`${clauseName} amount`}
+                          type="number"
+                          value={clause.amount}
+                          onChange={(e) => updateBonusClause(artist.id, clause.id, "amount", e.target.value)}
+                          placeholder="ex: 500"
+                          min={0}
+                          step={0.01}
+                        />
+                        {clause.trigger !== "sellout" && clause.amountMode === "stepped" && (
+                          <Input
+                            label={`Per Every (${unit})`}
+                            aria-label={`${clauseName} step size`}
+                            type="number"
+                            value={clause.step}
+                            onChange={(e) => updateBonusClause(artist.id, clause.id, "step", e.target.value)}
+                            placeholder={clause.trigger === "tickets" ? "ex: 100" : "ex: 5000"}
+                            min={0}
+                            step={clause.trigger === "tickets" ? 1 : 0.01}
+                          />
+                        )}
+                      </div>
+                      <DestructiveConfirmPopover
+                        label={clause.label || "this bonus"}
+                        ariaLabel={`Remove ${clause.label || clauseName}`}
+                        onConfirm={() => removeBonusClause(artist.id, clause.id)}
+                        className="calculator-expense-remove"
+                      />
+                    </div>
+                  );
+                })}
+                <Button variant="ghost" size="sm" onClick={() => addBonusClause(artist.id)} type="button">
+                  + Add Bonus
+                </Button>
+              </div>
+
+              <h4 className="calculator-subsection-title">Bar Deal (optional)</h4>
+              <div className="calculator-form-row">
+                <Input
+                  label="Bar Share (%)"
+                  type="number"
+                  value={artist.bar.sharePercent}
+                  onChange={(e) => updateArtistBar(artist.id, "sharePercent", e.target.value)}
+                  placeholder="ex: 10"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                />
+                <Select
+                  label="Share Of"
+                  value={artist.bar.shareBasis}
+                  onChange={(e) => updateArtistBar(artist.id, "shareBasis", e.target.value)}
+                >
+                  <option value="gross">Bar ring (gross)</option>
+                  <option value="net">Bar ring after cost of goods</option>
+                </Select>
+              </div>
+              <div className="calculator-form-row">
+                <Input
+                  label={`Bar Guarantee (${formData.currency})`}
+                  type="number"
+                  value={artist.bar.guarantee}
+                  onChange={(e) => updateArtistBar(artist.id, "guarantee", e.target.value)}
+                  placeholder="ex: 1000"
+                  min={0}
+                  step={0.01}
+                />
+                <Select
+                  label="Bar Guarantee Type"
+                  value={artist.bar.guaranteeMode}
+                  onChange={(e) => updateArtistBar(artist.id, "guaranteeMode", e.target.value)}
+                  hint={
+                    artist.bar.guaranteeMode === "offset"
+                      ? "A bar ring short of this minimum comes off the artist's guarantee"
+                      : "The artist's bar share is topped up to at least this amount"
+                  }
+                >
+                  <option value="top_up">Guaranteed bar share (top-up)</option>
+                  <option value="offset">Bar minimum (offsets guarantee)</option>
+                </Select>
+              </div>
+
+              <h4 className="calculator-subsection-title">Merch (optional)</h4>
+              <div className="calculator-form-row">
+                <Input
+                  label={`Soft Goods Sales (${formData.currency})`}
+                  type="number"
+                  value={artist.merch.softGross}
+                  onChange={(e) => updateArtistMerch(artist.id, "softGross", e.target.value)}
+                  placeholder="ex: 1500"
+                  hint="Apparel, posters — as rung up, tax included"
+                  min={0}
+                  step={0.01}
+                />
+                <Input
+                  label="Soft Goods Venue Cut (%)"
+                  type="number"
+                  value={artist.merch.softVenuePercent}
+                  onChange={(e) => updateArtistMerch(artist.id, "softVenuePercent", e.target.value)}
+                  placeholder="ex: 20"
+                  hint="Standard is 15–25%"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                />
+              </div>
+              <div className="calculator-form-row">
+                <Input
+                  label={`Hard Goods Sales (${formData.currency})`}
+                  type="number"
+                  value={artist.merch.hardGross}
+                  onChange={(e) => updateArtistMerch(artist.id, "hardGross", e.target.value)}
+                  placeholder="ex: 500"
+                  hint="CDs, vinyl — as rung up, tax included"
+                  min={0}
+                  step={0.01}
+                />
+                <Input
+                  label="Hard Goods Venue Cut (%)"
+                  type="number"
+                  value={artist.merch.hardVenuePercent}
+                  onChange={(e) => updateArtistMerch(artist.id, "hardVenuePercent", e.target.value)}
+                  placeholder="ex: 10"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                />
+              </div>
+              <div className="calculator-form-row">
+                <Input
+                  label={`Merch Card Sales (${formData.currency})`}
+                  type="number"
+                  value={artist.merch.cardSales}
+                  onChange={(e) => updateArtistMerch(artist.id, "cardSales", e.target.value)}
+                  placeholder="ex: 1200"
+                  hint="Part of the sales paid by card"
+                  min={0}
+                  step={0.01}
+                />
+                <Input
+                  label={`Seller Fee (${formData.currency})`}
+                  type="number"
+                  value={artist.merch.sellerFee}
+                  onChange={(e) => updateArtistMerch(artist.id, "sellerFee", e.target.value)}
+                  placeholder="ex: 75"
+                  hint="Venue-provided merch seller"
+                  min={0}
+                  step={0.01}
+                />
+              </div>
+              <div className="calculator-expense-list">
+                {artist.merch.inventory.map((row, index) => {
+                  const rowName = `${artist.artistName || `Artist ${artistIndex + 1}`} merch item ${index + 1}`;
+                  return (
+                    <div key={row.id} className="calculator-merch-inventory-row">
+                      <Input
+                        label={index === 0 ? "SKU" : undefined}
+                        aria-label={`${rowName} SKU`}
+                        value={row.sku}
+                        onChange={(e) => updateInventoryRow(artist.id, row.id, "sku", e.target.value)}
+                        placeholder="ex: Tour Tee (M)"
+                      />
+                      <Input
+                        label={index === 0 ? `Price (${formData.currency})` : undefined}
+                        aria-label={`${rowName} price`}
+                        type="number"
+                        value={row.price}
+                        onChange={(e) => updateInventoryRow(artist.id, row.id, "price", e.target.value)}
+                        placeholder="ex: 30"
+                        min={0}
+                        step={0.01}
+                      />
+                      <Input
+                        label={index === 0 ? "Count In" : undefined}
+                        aria-label={`${rowName} count in`}
+                        type="number"
+                        value={row.countIn}
+                        onChange={(e) => updateInventoryRow(artist.id, row.id, "countIn", e.target.value)}
+                        placeholder="ex: 48"
+                        min={0}
+                        step={1}
+                      />
+                      <Input
+                        label={index === 0 ? "Adds" : undefined}
+                        aria-label={`${rowName} adds`}
+                        type="number"
+                        value={row.adds}
+                        onChange={(e) => updateInventoryRow(artist.id, row.id, "adds", e.target.value)}
+                        placeholder="0"
+                        min={0}
+                        step={1}
+                      />
+                      <Input
+                        label={index === 0 ? "Comps" : undefined}
+                        aria-label={`${rowName} comps and giveaways`}
+                        type="number"
+                        value={row.comps}
+                        onChange={(e) => updateInventoryRow(artist.id, row.id, "comps", e.target.value)}
+                        placeholder="0"
+                        min={0}
+                        step={1}
+                      />
+                      <Input
+                        label={index === 0 ? "Count Out" : undefined}
+                        aria-label={`${rowName} count out`}
+                        type="number"
+                        value={row.countOut}
+                        onChange={(e) => updateInventoryRow(artist.id, row.id, "countOut", e.target.value)}
+                        placeholder="ex: 20"
+                        min={0}
+                        step={1}
+                      />
+                      <DestructiveConfirmPopover
+                        label={row.sku || "this merch item"}
+                        ariaLabel={`Remove ${row.sku || rowName}`}
+                        onConfirm={() => removeInventoryRow(artist.id, row.id)}
+                        className="calculator-expense-remove"
+                      />
+                    </div>
+                  );
+                })}
+                <Button variant="ghost" size="sm" onClick={() => addInventoryRow(artist.id)} type="button">
+                  + Add Inventory Count
+                </Button>
+              </div>
+
+              <h4 className="calculator-subsection-title">Payout Currency (optional)</h4>
+              <Select
+                label="Artist Paid In"
+                value={artist.payoutCurrency}
+                onChange={(e) => updateArtistField(artist.id, "payoutCurrency", e.target.value)}
+              >
+                <option value="">Same as show ({formData.currency})</option>
+                {SUPPORTED_CURRENCIES.filter((c) => c.code !== formData.currency).map((c) => (
+                  <option key={c.code} value={c.code}>{c.label}</option>
+                ))}
+              </Select>
+              {artist.payoutCurrency && artist.payoutCurrency !== formData.currency && (
+                <div className="calculator-form-row">
+                  <Input
+                    label={`FX Rate (${artist.payoutCurrency} per 1 ${formData.currency})`}
+                    type="number"
+                    value={artist.fxRate}
+                    onChange={(e) => updateArtistField(artist.id, "fxRate", e.target.value)}
+                    placeholder="ex: 0.79"
+                    hint="Rate agreed for converting the balance due"
+                    min={0}
+                    step={0.0001}
+                  />
+                  <Input
+                    label="FX Rate Date"
+                    type="date"
+                    value={artist.fxDate}
+                    onChange={(e) => updateArtistField(artist.id, "fxDate", e.target.value)}
+                  />
+                </div>
+              )}
 
               <h4 className="calculator-subsection-title">Withholding & Buyouts (optional)</h4>
               <div className="calculator-form-row">
@@ -1329,7 +3540,7 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                       list="common-buyouts"
                     />
                     <Input
-                      label={index === 0 ? "Amount ($)" : undefined}
+                      label={index === 0 ? `Amount (${formData.currency})` : undefined}
                       aria-label={`${artist.artistName || `Artist ${artistIndex + 1}`} buyout ${index + 1} amount`}
                       type="number"
                       value={item.amount}
@@ -1386,34 +3597,132 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
             className="calculator-notes-textarea"
           />
 
-          <h3 className="calculator-section-title">Merch (optional)</h3>
+          <h3 className="calculator-section-title">Bar / F&amp;B (optional)</h3>
+          <div className="calculator-form-row">
+            <Input
+              id="barGross"
+              name="barGross"
+              label={`Bar Ring (${formData.currency})`}
+              type="number"
+              value={formData.barGross}
+              onChange={handleInputChange}
+              placeholder="ex: 6000"
+              hint="Food and beverage sales for the night"
+              min={0}
+              step={0.01}
+            />
+            <Input
+              id="barCostOfGoods"
+              name="barCostOfGoods"
+              label={`Bar Cost of Goods (${formData.currency})`}
+              type="number"
+              value={formData.barCostOfGoods}
+              onChange={handleInputChange}
+              placeholder="ex: 1500"
+              min={0}
+              step={0.01}
+            />
+          </div>
+
+          <h3 className="calculator-section-title">Merch Rates (optional)</h3>
           <div className="calculator-form-row">
             <Input
-              id="merchGross"
-              name="merchGross"
-              label="Gross Merch Sales ($)"
+              id="merchTaxRate"
+              name="merchTaxRate"
+              label="Merch Sales Tax (%)"
               type="number"
-              value={formData.merchGross}
+              value={formData.merchTaxRate}
               onChange={handleInputChange}
-              placeholder="ex: 2000"
+              placeholder="ex: 8.25"
+              hint="Backed out of each artist's merch sales before the venue cut"
               min={0}
+              max={100}
               step={0.01}
             />
             <Input
-              id="merchVenuePercent"
-              name="merchVenuePercent"
-              label="Venue Merch Cut (%)"
+              id="merchCardFeeRate"
+              name="merchCardFeeRate"
+              label="Merch Card Fee Rate (%)"
               type="number"
-              value={formData.merchVenuePercent}
+              value={formData.merchCardFeeRate}
               onChange={handleInputChange}
-              placeholder="ex: 20"
-              hint="Standard is 15–25% of gross merch"
+              placeholder="ex: 2.9"
+              hint="Charged on merch card sales"
               min={0}
               max={100}
-              step={0.1}
+              step={0.01}
             />
           </div>
 
+          {formData.showMode === "promoter" && (
+            <>
+              <h3 className="calculator-section-title">Venue Rental</h3>
+              <div className="calculator-form-row">
+                <Input
+                  label={`Flat Rent (${formData.currency})`}
+                  type="number"
+                  value={formData.venueRental.flatRent}
+                  onChange={(e) => updateVenueRental("flatRent", e.target.value)}
+                  placeholder="ex: 2500"
+                  min={0}
+                  step={0.01}
+                />
+                <Input
+                  label="Or % of Ticket Sales"
+                  type="number"
+                  value={formData.venueRental.rentPercent}
+                  onChange={(e) => updateVenueRental("rentPercent", e.target.value)}
+                  placeholder="ex: 15"
+                  hint="After tax; rent is whichever is greater"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                />
+              </div>
+              <div className="calculator-form-row">
+                <Input
+                  label={`House Crew Billed (${formData.currency})`}
+                  type="number"
+                  value={formData.venueRental.houseCrewCharges}
+                  onChange={(e) => updateVenueRental("houseCrewCharges", e.target.value)}
+                  placeholder="ex: 1200"
+                  min={0}
+                  step={0.01}
+                />
+                <Input
+                  label={`House Crew Minimum (${formData.currency})`}
+                  type="number"
+                  value={formData.venueRental.houseCrewMinimum}
+                  onChange={(e) => updateVenueRental("houseCrewMinimum", e.target.value)}
+                  placeholder="ex: 1500"
+                  min={0}
+                  step={0.01}
+                />
+              </div>
+              <div className="calculator-form-row">
+                <Input
+                  label={`Bar Guarantee (${formData.currency})`}
+                  type="number"
+                  value={formData.venueRental.barGuarantee}
+                  onChange={(e) => updateVenueRental("barGuarantee", e.target.value)}
+                  placeholder="ex: 3000"
+                  hint="A bar ring short of this is charged to the promoter"
+                  min={0}
+                  step={0.01}
+                />
+                <Input
+                  label={`Rental Deposit Paid (${formData.currency})`}
+                  type="number"
+                  value={formData.venueRental.deposit}
+                  onChange={(e) => updateVenueRental("deposit", e.target.value)}
+                  placeholder="ex: 1000"
+                  min={0}
+                  step={0.01}
+                />
+              </div>
+            </>
+          )}
+
           {errorMessage && (
             <div className="calculator-save-status error" style={{ marginTop: "1rem" }}>{errorMessage}</div>
           )}
@@ -1427,10 +3736,56 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
           )}
 
           <Button type="button" variant="primary" size="lg" onClick={handleCalculate} className="calculator-calculate-btn">
-            Calculate Settlement (Ctrl/Cmd + Enter)
+            {formData.stage === "projection" ? "Project Sell-Through" : "Calculate Settlement"} (Ctrl/Cmd + Enter)
           </Button>
         </Card>
 
+        {formData.stage === "projection" && formData.projection && (
+          <section className="results-section" style={{ marginTop: "2rem" }} aria-live="polite">
+            <Card className="results-card" variant="elevated" padding="lg">
+              <h2>Sell-Through Projection</h2>
+              <p className="ds-input-hint calculator-field-help">
+                The show settled with every tier selling the given share of its capacity ({formData.projection.capacity} tickets at 100%).
+                Save the show, then switch to an actual settlement after the show to compare.
+              </p>
+              <div className="calculator-projection-scroll">
+                <table className="calculator-projection-table">
+                  <thead>
+                    <tr>
+                      <th scope="col">Sell-Through</th>
+                      <th scope="col">Tickets</th>
+                      <th scope="col">Gross</th>
+                      <th scope="col">Net</th>
+                      {(formData.projection.rows[0]?.artists ?? []).map((artist, artistIdx) => (
+                        <th scope="col" key={`projection-artist-${artistIdx}`}>{artist.artistName}</th>
+                      ))}
+                      <th scope="col">{describeHousePosition(formData.projection.showMode)}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {formData.projection.rows.map((row) => (
+                      <tr key={row.sellThroughPercent}>
+                        <th scope="row">{row.sellThroughPercent}%</th>
+                        <td>{row.tickets}</td>
+                        <td>{formatMoney(row.gross, formData.projection?.currency)}</td>
+                        <td>{formatMoney(row.netProfit, formData.projection?.currency)}</td>
+                        {row.artists.map((artist, artistIdx) => (
+                          <td key={`projection-${row.sellThroughPercent}-artist-${artistIdx}`}>
+                            {formatMoney(artist.payout, formData.projection?.currency)}
+                          </td>
+                        ))}
+                        <td className={row.housePosition < 0 ? "calculator-projection-loss" : undefined}>
+                          {formatMoney(row.housePosition, formData.projection?.currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </section>
+        )}
+
         {result && (
           <section className="results-section" style={{ marginTop: "2rem" }} aria-live="polite">
             <Card className="results-card" variant="elevated" padding="lg">
@@ -1439,7 +3794,7 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                 <BreakdownList className="calculator-due-tonight">
                   <BreakdownList.Row
                     label="Amount due tonight"
-                    value={formatCurrency(result.totalDueToArtist ?? result.balanceDue ?? 0)}
+                    value={formatMoney(result.totalDueToArtist ?? result.balanceDue ?? 0, result.currency)}
                     variant="highlight"
                   />
                 </BreakdownList>
@@ -1460,36 +3815,158 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                   <strong>Notes:</strong> {result.notes}
                 </div>
               )}
+              {result.outcome && (
+                <p className="calculator-deal-summary">Show Outcome: {describeShowOutcome(result.outcome)}</p>
+              )}
               <BreakdownList>
-                {result.ticketTiers && result.ticketTiers.length > 1 ? (
+                {result.outcome?.refundedTicketRevenue != null && (
+                  <BreakdownList.Row
+                    label="Ticket Sales Refunded"
+                    value={`−${formatMoney(result.outcome.refundedTicketRevenue, result.currency)}`}
+                    variant="negative"
+                  />
+                )}
+                {result.ticketFees && result.ticketFees.length > 0 ? (
                   <>
-                    {result.ticketTiers.map((tier, index) => (
+                    {(result.ticketTiers ?? []).flatMap((tier, index) => [
+                      ...describeTierSales(tier, result.currency).map((line, lineIdx) => (
+                        <BreakdownList.Row
+                          key={`tier-${index}-${lineIdx}`}
+                          label={line.label}
+                          value={formatMoney(line.amount, result.currency)}
+                        />
+                      )),
+                      ...(tier.fees ?? []).map((line, feeIdx) => (
+                        <BreakdownList.Row
+                          key={`tier-${index}-fee-${feeIdx}`}
+                          label={describeTierFee(tier.name, tier.sold, line, result.currency)}
+                          value={formatMoney(line.total, result.currency)}
+                        />
+                      )),
+                    ])}
+                    <BreakdownList.Row
+                      label={`Ticketing Gross (${result.totalTicketsSold} sold${result.totalComps ? `, ${result.totalComps} comps` : ''})`}
+                      value={formatMoney(result.ticketingGross ?? result.grossRevenue, result.currency)}
+                    />
+                    {result.ticketFees.filter((fee) => fee.total > fee.toGross).map((fee) => (
                       <BreakdownList.Row
-                        key={index}
-                        label={`${tier.name} (${tier.sold} × ${formatCurrency(tier.price)})`}
-                        value={formatCurrency(tier.revenue)}
+                        key={`fee-${fee.kind}`}
+                        label={`Less ${fee.label} (${describeFeeTreatment(fee)})`}
+                        value={`−${formatMoney(fee.total - fee.toGross, result.currency)}`}
+                        variant="negative"
                       />
                     ))}
+                    {(result.ticketTiers ?? []).flatMap((tier, index) =>
+                      (tier.compChargebacks ?? []).map((line, lineIdx) => (
+                        <BreakdownList.Row
+                          key={`comp-chargeback-${index}-${lineIdx}`}
+                          label={describeCompChargeback(tier.name, tier.price, line, result.currency)}
+                          value={`+${formatMoney(line.amount, result.currency)}`}
+                        />
+                      ))
+                    )}
+                    <BreakdownList.Row
+                      label="Adjusted Gross (artist gross)"
+                      value={formatMoney(result.grossRevenue, result.currency)}
+                    />
+                  </>
+                ) : result.ticketTiers && (result.ticketTiers.length > 1 || result.salesChannels) ? (
+                  <>
+                    {result.ticketTiers.flatMap((tier, index) =>
+                      describeTierSales(tier, result.currency).map((line, lineIdx) => (
+                        <BreakdownList.Row
+                          key={`tier-${index}-${lineIdx}`}
+                          label={line.label}
+                          value={formatMoney(line.amount, result.currency)}
+                        />
+                      ))
+                    )}
+                    {(result.ticketTiers ?? []).flatMap((tier, index) =>
+                      (tier.compChargebacks ?? []).map((line, lineIdx) => (
+                        <BreakdownList.Row
+                          key={`comp-chargeback-${index}-${lineIdx}`}
+                          label={describeCompChargeback(tier.name, tier.price, line, result.currency)}
+                          value={`+${formatMoney(line.amount, result.currency)}`}
+                        />
+                      ))
+                    )}
                     <BreakdownList.Row
                       label={`Gross Revenue (${result.totalTicketsSold} sold${result.totalComps ? `, ${result.totalComps} comps` : ''})`}
-                      value={formatCurrency(result.grossRevenue)}
+                      value={formatMoney(result.grossRevenue, result.currency)}
+                    />
+                  </>
+                ) : (
+                  <>
+  {(result.ticketTiers ?? []).flatMap((tier, index) =>
+                      (tier.compChargebacks ?? []).map((line, lineIdx) => (
+                        <BreakdownList.Row
+                          key={`comp-chargeback-${index}-${lineIdx}`}
+                          label={describeCompChargeback(tier.name, tier.price, line, result.currency)}
+                          value={`+${formatMoney(line.amount, result.currency)}`}
+                        />
+                      ))
+                    )}
+                    <BreakdownList.Row
+                      label={`Gross Revenue${result.totalTicketsSold ? ` (${result.totalTicketsSold} sold${result.totalComps ? `, ${result.totalComps} comps` : ''})` : ''}`}
+                      value={formatMoney(result.grossRevenue, result.currency)}
                     />
                   </>
+                )}
+                {result.salesChannels && (
+                  <>
+                    <BreakdownList.Row
+                      label={`Advance Sales (${result.salesChannels.advanceSold} tickets)`}
+                      value={formatMoney(result.salesChannels.advanceRevenue, result.currency)}
+                    />
+                    <BreakdownList.Row
+                      label={`Walk-Up Sales (${result.salesChannels.walkUpSold} tickets)`}
+                      value={formatMoney(result.salesChannels.walkUpRevenue, result.currency)}
+                    />
+                  </>
+                )}
+                {result.doorReconciliation && (
+                  <>
+                    <BreakdownList.Row label="Door Cash Counted" value={formatMoney(result.doorReconciliation.cash, result.currency)} />
+                    <BreakdownList.Row label="Door Card Receipts" value={formatMoney(result.doorReconciliation.card, result.currency)} />
+                    <BreakdownList.Row
+                      label={describeDoorVariance(result.doorReconciliation, result.currency)}
+                      value={`${result.doorReconciliation.variance < 0 ? "−" : result.doorReconciliation.variance > 0 ? "+" : ""}${formatMoney(Math.abs(result.doorReconciliation.variance), result.currency)}`}
+                      variant={result.doorReconciliation.variance === 0 ? "success" : "warning"}
+                    />
+                  </>
+                )}
+                {result.compCategories && result.compCategories.map((c) => (
+                  <BreakdownList.Row key={`comp-${c.category}`} label={c.label} value={describeCompCount(c)} />
+                ))}
+                {result.taxes && result.taxes.length > 0 ? (
+                  <>
+                    {result.taxes.map((tax, taxIdx) => (
+                      <BreakdownList.Row
+                        key={`tax-${taxIdx}`}
+                        label={describeTax(tax)}
+                        value={`−${formatMoney(tax.amount, result.currency)}`}
+                        variant="negative"
+                      />
+                    ))}
+                    {result.taxes.length > 1 && (
+                      <BreakdownList.Row
+                        label="Total Tax"
+                        value={`−${formatMoney(result.taxAmount, result.currency)}`}
+                        variant="negative"
+                      />
+                    )}
+                  </>
                 ) : (
                   <BreakdownList.Row
-                    label={`Gross Revenue${result.totalTicketsSold ? ` (${result.totalTicketsSold} sold${result.totalComps ? `, ${result.totalComps} comps` : ''})` : ''}`}
-                    value={formatCurrency(result.grossRevenue)}
+                    label={`Tax (${formData.taxes[0]?.rate || '0'}%${formData.taxes[0]?.mode === 'inclusive' ? ', included in price' : ''})`}
+                    value={`−${formatMoney(result.taxAmount, result.currency)}`}
+                    variant="negative"
                   />
                 )}
-                <BreakdownList.Row
-                  label={`Tax (${formData.taxRate || '0'}%${formData.taxMode === 'inclusive' ? ', included in price' : ''})`}
-                  value={`−${formatCurrency(result.taxAmount)}`}
-                  variant="negative"
-                />
                 {result.ccFees != null && result.ccFees > 0 && formData.ccFeeMode === 'off_top' && (
                   <BreakdownList.Row
                     label={`CC Processing Fees (${formData.ccFeeRate}%)`}
-                    value={`−${formatCurrency(result.ccFees)}`}
+                    value={`−${formatMoney(result.ccFees, result.currency)}`}
                     variant="negative"
                   />
                 )}
@@ -1498,8 +3975,12 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                     {result.expenseItems.map((item, index) => (
                       <BreakdownList.Row
                         key={index}
-                        label={item.note ? `${item.label} — ${item.note}` : item.label}
-                        value={`−${formatCurrency(item.amount)}`}
+                        label={
+                          `${item.label}${describeExpenseTerms(item, result.currency)}` +
+                          `${item.artistNames ? ` (${item.artistNames.join(", ")} only)` : ""}` +
+                          `${item.note ? ` — ${item.note}` : ""}`
+                        }
+                        value={`−${formatMoney(item.amount, result.currency)}`}
                         variant="negative"
                       />
                     ))}
@@ -1510,7 +3991,7 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                         <BreakdownList.Row
                           key={`buyout-exp-${ar.artistName}-${bi}`}
                           label={`${item.label} (buyout${(result.artists || []).length > 1 ? ` — ${ar.artistName}` : ''})`}
-                          value={`−${formatCurrency(item.amount)}`}
+                          value={`−${formatMoney(item.amount, result.currency)}`}
                           variant="negative"
                         />
                       ));
@@ -1518,7 +3999,7 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                     {result.expenseItems.length > 1 && (
                       <BreakdownList.Row
                         label="Total Expenses"
-                        value={`−${formatCurrency(result.totalExpenses)}`}
+                        value={`−${formatMoney(result.totalExpenses, result.currency)}`}
                         variant="negative"
                       />
                     )}
@@ -1526,60 +4007,162 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                 ) : (
                   <BreakdownList.Row
                     label="Expenses"
-                    value={`−${formatCurrency(result.totalExpenses)}`}
+                    value={`−${formatMoney(result.totalExpenses, result.currency)}`}
                     variant="negative"
                   />
                 )}
+                {result.ancillary && result.ancillary.inGross + result.ancillary.inNet > 0 && (
+                  <BreakdownList.Row
+                    label="Ancillary Revenue (in gross or net)"
+                    value={`+${formatMoney(result.ancillary.inGross + result.ancillary.inNet, result.currency)}`}
+                  />
+                )}
                 <BreakdownList.Row
                   label="Net"
-                  value={formatCurrency(result.netProfit)}
+                  value={formatMoney(result.netProfit, result.currency)}
                   variant="highlight"
                 />
               </BreakdownList>
+              {result.trace && <DerivationTrace nodes={[result.trace.netProfit]} currency={result.currency} />}
+
+              {result.ancillary && (
+                <div className="calculator-artist-result-block">
+                  <h4 className="calculator-subsection-title">Ancillary Revenue</h4>
+                  <BreakdownList className="calculator-summary-breakdown">
+                    {result.ancillary.lines.map((line, lineIdx) => (
+                      <BreakdownList.Row
+                        key={`ancillary-${lineIdx}`}
+                        label={describeAncillaryLine(line, result.currency)}
+                        value={formatMoney(line.amount, result.currency)}
+                      />
+                    ))}
+                    <BreakdownList.Row
+                      label="Total Ancillary Revenue"
+                      value={formatMoney(result.ancillary.total, result.currency)}
+                      variant="success"
+                    />
+                  </BreakdownList>
+                </div>
+              )}
 
               {(result.artists || []).map((ar, arIdx) => {
                 const fa = formData.artists[arIdx];
                 const isMulti = (result.artists || []).length > 1;
                 const hasDeductions = ar.deposit > 0 || (ar.withholdingAmount != null && ar.withholdingAmount > 0) || (ar.totalBuyouts != null && ar.totalBuyouts > 0 && fa?.buyoutMode === "deduct_from_balance");
+                const cancelled = result.outcome != null && isCancellation(result.outcome.outcome);
+                const today = todayIsoDate();
                 return (
                   <div key={arIdx} className="calculator-artist-result-block">
                     {isMulti && (
                       <h3 className="calculator-section-title" style={{ marginTop: "1.5rem" }}>{ar.artistName}</h3>
                     )}
                     <p className="calculator-deal-summary">
-                      {getDealSummary(ar, fa, result.netProfit)}
+                      {cancelled && result.outcome
+                        ? describeShowOutcome(result.outcome)
+                        : getDealSummary(
+                            ar,
+                            fa,
+                            result.artistWaterfall?.[arIdx]?.settledNet ?? ar.expenseTerms?.dealNet ?? result.netProfit,
+                            result.currency
+                          )}
                     </p>
                     <BreakdownList>
+                      {ar.expenseTerms && (
+                        <>
+                          {ar.expenseTerms.adjustments.map((adj, adjIdx) => (
+                            <BreakdownList.Row
+                              key={`expense-adj-${adjIdx}`}
+                              label={`${adj.label} — ${describeExpenseAdjustment(adj, result.currency)}`}
+                              value={`+${formatMoney(adj.actual - adj.deducted, result.currency)}`}
+                              variant="success"
+                            />
+                          ))}
+                          <BreakdownList.Row
+                            label={`Expenses Charged to Artist (actual ${formatMoney(result.totalExpenses, result.currency)})`}
+                            value={`−${formatMoney(ar.expenseTerms.deductibleExpenses, result.currency)}`}
+                            variant="negative"
+                          />
+                          <BreakdownList.Row label="Net for Artist Deal" value={formatMoney(ar.expenseTerms.dealNet, result.currency)} />
+                        </>
+                      )}
+                      {ar.profitSplit && (
+                        <>
+                          <BreakdownList.Row label="Net Receipts (after tax & expenses)" value={formatMoney(ar.profitSplit.netReceipts, result.currency)} />
+                          <BreakdownList.Row label="Less Guarantee" value={`−${formatMoney(ar.profitSplit.guarantee, result.currency)}`} variant="negative" />
+                          <BreakdownList.Row
+                            label={`Less Promoter Profit${ar.profitSplit.promoterProfitPercent != null ? ` (${ar.profitSplit.promoterProfitPercent}% of expenses + guarantee)` : ""}`}
+                            value={`−${formatMoney(ar.profitSplit.promoterProfit, result.currency)}`}
+                            variant="negative"
+                          />
+                          <BreakdownList.Row label={`Split Pool (split point ${formatMoney(ar.profitSplit.splitPoint, result.currency)})`} value={formatMoney(ar.profitSplit.splitPool, result.currency)} />
+                          <BreakdownList.Row label={`Artist Split${ar.profitSplit.artistSplitPercent != null ? ` (${ar.profitSplit.artistSplitPercent}%)` : " (escalating)"}`} value={formatMoney(ar.profitSplit.artistSplit, result.currency)} />
+                          <BreakdownList.Row label={`Promoter Split${ar.profitSplit.artistSplitPercent != null ? ` (${100 - ar.profitSplit.artistSplitPercent}%)` : ""}`} value={formatMoney(ar.profitSplit.promoterSplit, result.currency)} />
+                        </>
+                      )}
+                      {ar.escalator && ar.escalator.bands.map((band, bandIdx) => (
+                        <BreakdownList.Row
+                          key={`escalator-${bandIdx}`}
+                          label={`${describeEscalatorBand(band, ar.escalator!.basis, result.currency)}: ${band.percentage}% of ${formatMoney(band.baseAmount, result.currency)}`}
+                          value={formatMoney(band.amount, result.currency)}
+                        />
+                      ))}
                       {ar.overage != null && ar.breakeven != null && (
                         <>
                           <BreakdownList.Row
                             label="Guarantee"
-                            value={formatCurrency(ar.artistPayout - ar.overage)}
+                            value={formatMoney((ar.proRatedFrom ?? ar.artistPayout) - ar.overage - (ar.totalBonuses ?? 0) - (ar.bar?.total ?? 0), result.currency)}
                           />
                           <BreakdownList.Row
                             label="Breakeven Point"
-                            value={formatCurrency(ar.breakeven)}
+                            value={formatMoney(ar.breakeven, result.currency)}
                           />
                           <BreakdownList.Row
                             label="Back-End Overage"
-                            value={formatCurrency(ar.overage)}
+                            value={formatMoney(ar.overage, result.currency)}
                           />
                         </>
                       )}
+                      {ar.bonuses && ar.bonuses.map((bonus, bonusIdx) => (
+                        <BreakdownList.Row
+                          key={`bonus-${bonusIdx}`}
+                          label={`${bonus.label} (${bonus.triggered ? bonus.detail : `not reached: ${bonus.detail}`})`}
+                          value={formatMoney(bonus.amount, result.currency)}
+                          variant={bonus.triggered ? "success" : "default"}
+                        />
+                      ))}
+                      {ar.bar && describeArtistBar(ar.bar, result.currency).map((line, lineIdx) => (
+                        <BreakdownList.Row
+                          key={`bar-${lineIdx}`}
+                          label={line.label}
+                          value={`${line.amount < 0 ? "−" : ""}${formatMoney(Math.abs(line.amount), result.currency)}`}
+                          variant={line.amount < 0 ? "negative" : "default"}
+                        />
+                      ))}
+                      {ar.killFee != null && (
+                        <BreakdownList.Row
+                          label={`Kill Fee (${result.outcome?.killFeePercent ?? 0}% of guarantee)`}
+                          value={formatMoney(ar.killFee, result.currency)}
+                        />
+                      )}
+                      {ar.proRatedFrom != null && result.outcome?.scheduledMinutes && (
+                        <BreakdownList.Row
+                          label={`Full Payout, pro-rated ${result.outcome.performedMinutes ?? 0}/${result.outcome.scheduledMinutes} min`}
+                          value={formatMoney(ar.proRatedFrom, result.currency)}
+                        />
+                      )}
                       <BreakdownList.Row
                         label={
+                          cancelled ? `${isMulti ? `${ar.artistName} Payout` : "Artist Payout"} (Cancellation)` :
                           `${isMulti ? `${ar.artistName} Payout` : "Artist Payout"}` +
-                          `${ar.overage != null ? " (Guarantee + Overage)" : ""}` +
-                          `${ar.dealType === "percentage_of_gross" ? ` (${fa?.percentage || ""}% of Gross)` : ""}` +
-                          `${ar.dealType === "door_deal" ? ` (${fa?.percentage || ""}% of Gross After Tax)` : ""}`
+                          describePayoutBasis(ar.dealType, fa?.percentage || "")
                         }
-                        value={formatCurrency(ar.artistPayout)}
+                        value={formatMoney(ar.artistPayout, result.currency)}
                         variant="success"
                       />
                       {ar.withholdingAmount != null && ar.withholdingAmount > 0 && (
                         <BreakdownList.Row
                           label={`Withholding Tax (${fa?.withholdingRate || ""}%${ar.withholdingState ? `, ${ar.withholdingState}` : ""})`}
-                          value={`−${formatCurrency(ar.withholdingAmount)}`}
+                          value={`−${formatMoney(ar.withholdingAmount, result.currency)}`}
                           variant="negative"
                         />
                       )}
@@ -1588,35 +4171,89 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                           <BreakdownList.Row
                             key={`buyout-deduct-${index}`}
                             label={item.label}
-                            value={`−${formatCurrency(item.amount)}`}
+                            value={`−${formatMoney(item.amount, result.currency)}`}
                             variant="negative"
                           />
                         ))
                       )}
                       {hasDeductions && ar.deposit > 0 && (
                         <BreakdownList.Row
-                          label="Deposit Paid"
-                          value={`−${formatCurrency(ar.deposit)}`}
+                          label={ar.depositRefund ? "Deposit Paid (refunded to venue)" : "Deposit Paid"}
+                          value={`−${formatMoney(ar.deposit, result.currency)}`}
                           variant="negative"
                         />
                       )}
+                      {ar.depositSchedule?.installments.map((inst, i) => (
+                        <BreakdownList.Row
+                          key={`deposit-${i}`}
+                          label={`${describeDepositInstallment(inst, i)} · ${describeInstallmentStatus(inst, today)}`}
+                          value={formatMoney(inst.amount, result.currency)}
+                          variant={isInstallmentOverdue(inst, today) ? "warning" : "default"}
+                        />
+                      ))}
                       {hasDeductions && (
                         <BreakdownList.Row
-                          label={ar.balanceDue < 0 ? "Overpayment (due back to promoter)" : "Balance Due at Settlement"}
-                          value={formatCurrency(Math.abs(ar.balanceDue))}
+                          label={ar.balanceDue < 0
+                            ? ar.depositRefund ? "Deposit Refund (due back to promoter)" : "Overpayment (due back to promoter)"
+                            : "Balance Due at Settlement"}
+                          value={formatMoney(Math.abs(ar.balanceDue), result.currency)}
+                          variant={ar.balanceDue < 0 ? "warning" : "highlight"}
+                        />
+                      )}
+                      {ar.payoutCurrency && ar.convertedBalanceDue != null && (
+                        <BreakdownList.Row
+                          label={`${ar.balanceDue < 0 ? "Overpayment" : "Balance Due"} in ${ar.payoutCurrency} (1 ${result.currency} = ${ar.fxRate} ${ar.payoutCurrency}${ar.fxDate ? `, ${ar.fxDate}` : ""})`}
+                          value={formatMoney(Math.abs(ar.convertedBalanceDue), ar.payoutCurrency)}
                           variant={ar.balanceDue < 0 ? "warning" : "highlight"}
                         />
                       )}
+                      {ar.ancillaryShare != null && (
+                        <BreakdownList.Row
+                          label="Ancillary Revenue Share (split streams)"
+                          value={`+${formatMoney(ar.ancillaryShare, result.currency)}`}
+                          variant="success"
+                        />
+                      )}
+                      {ar.ancillaryShare != null && !ar.merch && ar.totalDue != null && (
+                        <BreakdownList.Row
+                          label="Total Due to Artist"
+                          value={formatMoney(ar.totalDue, result.currency)}
+                          variant="highlight"
+                        />
+                      )}
                     </BreakdownList>
+                    {ar.trace && (
+                      <DerivationTrace
+                        nodes={[ar.trace.payout, ar.trace.overage, ar.trace.withholding].filter(
+                          (node): node is TraceNode => node != null
+                        )}
+                        currency={result.currency}
+                      />
+                    )}
                   </div>
                 );
               })}
 
+              {result.artistWaterfall && (
+                <div className="calculator-artist-result-block">
+                  <h4 className="calculator-subsection-title">Artist Waterfall</h4>
+                  <BreakdownList className="calculator-summary-breakdown">
+                    {result.artistWaterfall.map((step, stepIdx) => (
+                      <BreakdownList.Row
+                        key={`waterfall-${stepIdx}`}
+                        label={describeWaterfallStep(step, result.currency)}
+                        value={`${formatMoney(step.artistPayout, result.currency)}${step.costToLaterArtists ? " (cost to later artists)" : ""}`}
+                      />
+                    ))}
+                  </BreakdownList>
+                </div>
+              )}
+
               {(result.artists || []).length > 1 && (
                 <BreakdownList className="calculator-summary-breakdown">
                   <BreakdownList.Row
                     label="Total Artist Payouts"
-                    value={formatCurrency(result.artistPayout)}
+                    value={formatMoney(result.artistPayout, result.currency)}
                     variant="success"
                   />
                 </BreakdownList>
@@ -1626,53 +4263,201 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                 {result.ccFees != null && result.ccFees > 0 && formData.ccFeeMode === 'expense' && (
                   <BreakdownList.Row
                     label={`CC Processing Fees (${formData.ccFeeRate}%, venue cost)`}
-                    value={`−${formatCurrency(result.ccFees)}`}
+                    value={`−${formatMoney(result.ccFees, result.currency)}`}
                     variant="negative"
                   />
                 )}
+                {result.venueFeeIncome != null && result.venueFeeIncome > 0 && (
+                  <BreakdownList.Row
+                    label="Ticket Fees Retained by Venue"
+                    value={formatMoney(result.venueFeeIncome, result.currency)}
+                  />
+                )}
+                {result.bar && !result.venueRental && (
+                  <BreakdownList.Row
+                    label={describeBarNet(result.bar, result.currency)}
+                    value={`${result.bar.net < 0 ? "−" : ""}${formatMoney(Math.abs(result.bar.net), result.currency)}`}
+                  />
+                )}
                 <BreakdownList.Row
-                  label={result.venuePayout < 0 ? 'Venue Loss' : 'Promoter/House Settlement'}
-                  value={`${result.venuePayout < 0 ? '−' : ''}${formatCurrency(Math.abs(result.venuePayout))}`}
+                  label={
+                    result.venueRental
+                      ? "Promoter Proceeds (before venue rental)"
+                      : result.venuePayout < 0 ? 'Venue Loss' : 'Promoter/House Settlement'
+                  }
+                  value={`${result.venuePayout < 0 ? '−' : ''}${formatMoney(Math.abs(result.venuePayout), result.currency)}`}
                   variant="warning"
                 />
               </BreakdownList>
-              {result.merchGross != null && result.merchGross > 0 && (
+              {result.trace && <DerivationTrace nodes={[result.trace.venuePayout]} currency={result.currency} />}
+              {result.venueRental && (
                 <>
-                  <h3 className="calculator-section-title" style={{ marginTop: "1.5rem" }}>Merch Settlement</h3>
-                  <BreakdownList>
+                  <h3 className="calculator-section-title" style={{ marginTop: "1.5rem" }}>Venue Rental Settlement</h3>
+                  <BreakdownList className="calculator-summary-breakdown">
                     <BreakdownList.Row
-                      label="Gross Merch Sales"
-                      value={formatCurrency(result.merchGross)}
+                      label={describeVenueRent(result.venueRental, result.currency)}
+                      value={formatMoney(result.venueRental.rent, result.currency)}
                     />
+                    {(result.venueRental.houseCrew > 0 || result.venueRental.houseCrewMinimum > 0) && (
+                      <BreakdownList.Row
+                        label={describeHouseCrew(result.venueRental, result.currency)}
+                        value={formatMoney(result.venueRental.houseCrew, result.currency)}
+                      />
+                    )}
+                    {result.venueRental.barShortfall > 0 && (
+                      <BreakdownList.Row
+                        label={describeBarShortfall(result.venueRental, result.currency)}
+                        value={formatMoney(result.venueRental.barShortfall, result.currency)}
+                      />
+                    )}
+                    {!!result.venueRental.artistBarCredit && (
+                      <BreakdownList.Row
+                        label={ARTIST_BAR_CREDIT_LABEL}
+                        value={formatAdjustmentAmount(-result.venueRental.artistBarCredit, result.currency)}
+                        variant="negative"
+                      />
+                    )}
+                    <BreakdownList.Row label="Total Owed to Venue" value={formatMoney(result.venueRental.totalOwed, result.currency)} />
+                    {result.venueRental.deposit > 0 && (
+                      <BreakdownList.Row
+                        label="Rental Deposit Paid"
+                        value={`−${formatMoney(result.venueRental.deposit, result.currency)}`}
+                        variant="negative"
+                      />
+                    )}
                     <BreakdownList.Row
-                      label={`Venue Merch Cut (${formData.merchVenuePercent || '0'}%)`}
-                      value={`−${formatCurrency(result.merchVenueCut ?? 0)}`}
-                      variant="negative"
+                      label={result.venueRental.balanceDue < 0 ? "Venue Owes Promoter" : "Balance Due to Venue"}
+                      value={formatMoney(Math.abs(result.venueRental.balanceDue), result.currency)}
+                      variant="highlight"
                     />
                     <BreakdownList.Row
-                      label="Net Merch to Artist"
-                      value={formatCurrency(result.merchNetToArtist ?? 0)}
-                      variant="success"
+                      label={result.venueRental.promoterNet < 0 ? "Promoter Loss" : "Remaining for Promoter"}
+                      value={`${result.venueRental.promoterNet < 0 ? "−" : ""}${formatMoney(Math.abs(result.venueRental.promoterNet), result.currency)}`}
+                      variant={result.venueRental.promoterNet < 0 ? "warning" : "success"}
                     />
                   </BreakdownList>
-                  {result.totalDueToArtist != null && (
+                </>
+              )}
+              {((result.merchGross != null && result.merchGross > 0) || result.artists.some((ar) => ar.merch)) && (
+                <>
+                  <h3 className="calculator-section-title" style={{ marginTop: "1.5rem" }}>Merch Settlement</h3>
+                  {result.artists.some((ar) => ar.merch) ? (
+                    result.artists.map((ar, arIdx) => {
+                      const merch = ar.merch;
+                      if (!merch) return null;
+                      return (
+                        <div key={arIdx} className="calculator-artist-result-block">
+                          {result.artists.length > 1 && (
+                            <h4 className="calculator-subsection-title">{ar.artistName}</h4>
+                          )}
+                          <BreakdownList>
+                            <BreakdownList.Row label="Soft Goods Sales" value={formatMoney(merch.softGross, result.currency)} />
+                            <BreakdownList.Row label="Hard Goods Sales" value={formatMoney(merch.hardGross, result.currency)} />
+                            {merch.tax > 0 && (
+                              <BreakdownList.Row
+                                label="Merch Sales Tax"
+                                value={`−${formatMoney(merch.tax, result.currency)}`}
+                                variant="negative"
+                              />
+                            )}
+                            {merch.cardFees > 0 && (
+                              <BreakdownList.Row
+                                label="Merch Card Fees"
+                                value={`−${formatMoney(merch.cardFees, result.currency)}`}
+                                variant="negative"
+                              />
+                            )}
+                            <BreakdownList.Row
+                              label={describeMerchVenueCut("soft", merch.softVenuePercent)}
+                              value={`−${formatMoney(merch.softVenueCut, result.currency)}`}
+                              variant="negative"
+                            />
+                            <BreakdownList.Row
+                              label={describeMerchVenueCut("hard", merch.hardVenuePercent)}
+                              value={`−${formatMoney(merch.hardVenueCut, result.currency)}`}
+                              variant="negative"
+                            />
+                            {merch.sellerFee != null && (
+                              <BreakdownList.Row
+                                label="Seller Fee"
+                                value={`−${formatMoney(merch.sellerFee, result.currency)}`}
+                                variant="negative"
+                              />
+                            )}
+                            <BreakdownList.Row
+                              label="Net Merch to Artist"
+                              value={formatMoney(merch.netToArtist, result.currency)}
+                              variant="success"
+                            />
+                            <BreakdownList.Divider />
+                            <BreakdownList.Row label="Show Balance Due" value={formatMoney(ar.balanceDue, result.currency)} />
+                            <BreakdownList.Row
+                              label="Total Due to Artist"
+                              value={formatMoney(ar.totalDue ?? ar.balanceDue, result.currency)}
+                              variant="success"
+                            />
+                            {merch.inventory && (
+                              <>
+                                <BreakdownList.Divider />
+                                {merch.inventory.lines.map((line, lineIdx) => (
+                                  <BreakdownList.Row
+                                    key={lineIdx}
+                                    label={describeInventoryLine(line, result.currency)}
+                                    value={formatMoney(line.expectedGross, result.currency)}
+                                    variant={line.unitsSold < 0 ? "warning" : undefined}
+                                  />
+                                ))}
+                                <BreakdownList.Row label="Merch Cash Reported" value={formatMoney(merch.inventory.cash, result.currency)} />
+                                <BreakdownList.Row label="Merch Card Reported" value={formatMoney(merch.inventory.card, result.currency)} />
+                                <BreakdownList.Row
+                                  label={describeMerchInventoryVariance(merch.inventory, result.currency)}
+                                  value={`${merch.inventory.variance < 0 ? "−" : merch.inventory.variance > 0 ? "+" : ""}${formatMoney(Math.abs(merch.inventory.variance), result.currency)}`}
+                                  variant={merch.inventory.variance === 0 ? "success" : "warning"}
+                                />
+                              </>
+                            )}
+                          </BreakdownList>
+                        </div>
+                      );
+                    })
+                  ) : (
                     <>
-                      <h3 className="calculator-section-title" style={{ marginTop: "1.5rem" }}>Total</h3>
-                      <BreakdownList>
-                        <BreakdownList.Row
-                          label="Show Balance Due"
-                          value={formatCurrency(result.deposit > 0 ? result.balanceDue : result.artistPayout)}
-                        />
-                        <BreakdownList.Row
-                          label="Net Merch to Artist"
-                          value={formatCurrency(result.merchNetToArtist ?? 0)}
-                        />
-                        <BreakdownList.Row
-                          label="Total Due to Artist"
-                          value={formatCurrency(result.totalDueToArtist)}
-                          variant="success"
-                        />
-                      </BreakdownList>
+                    <BreakdownList>
+                      <BreakdownList.Row
+                        label="Gross Merch Sales"
+                        value={formatMoney(result.merchGross ?? 0, result.currency)}
+                      />
+                      <BreakdownList.Row
+                        label={`Venue Merch Cut (${formData.artists[0]?.merch.softVenuePercent || '0'}%)`}
+                        value={`−${formatMoney(result.merchVenueCut ?? 0, result.currency)}`}
+                        variant="negative"
+                      />
+                      <BreakdownList.Row
+                        label="Net Merch to Artist"
+                        value={formatMoney(result.merchNetToArtist ?? 0, result.currency)}
+                        variant="success"
+                      />
+                    </BreakdownList>
+                    {result.totalDueToArtist != null && (
+                      <>
+                        <h3 className="calculator-section-title" style={{ marginTop: "1.5rem" }}>Total</h3>
+                        <BreakdownList>
+                          <BreakdownList.Row
+                            label="Show Balance Due"
+                            value={formatMoney(result.deposit > 0 ? result.balanceDue : result.artistPayout, result.currency)}
+                          />
+                          <BreakdownList.Row
+                            label="Net Merch to Artist"
+                            value={formatMoney(result.merchNetToArtist ?? 0, result.currency)}
+                          />
+                          <BreakdownList.Row
+                            label="Total Due to Artist"
+                            value={formatMoney(result.totalDueToArtist, result.currency)}
+                            variant="success"
+                          />
+                        </BreakdownList>
+                      </>
+                    )}
                     </>
                   )}
                 </>
@@ -1696,6 +4481,65 @@ function CalculatorInner({ userId, userEmail, accountMenuData }: CalculatorConte
                 🖨️ Print / Save as PDF
               </Button>
             </Card>
+            {goalSeek && (
+              <Card className="results-card calculator-goal-seek" variant="default" padding="lg">
+                <h3 className="calculator-section-title">What Would It Take?</h3>
+                <p className="ds-input-hint calculator-field-help">
+                  Tickets needed at this show&apos;s price mix, searched up to{" "}
+                  {goalSeek.searchLimit} tickets. {goalSeek.currentTickets} sold as entered.
+                </p>
+                <BreakdownList>
+                  <BreakdownList.Row
+                    label={`House breaks even${goalSeek.houseBreakeven.alreadyMet ? " (already met)" : ""}`}
+                    value={describeGoalSeekAnswer(goalSeek.houseBreakeven, goalSeek.searchLimit, result.currency)}
+                    variant={goalSeek.houseBreakeven.alreadyMet ? "success" : "default"}
+                  />
+                  {goalSeek.artistOverage.map((goal, goalIdx) => (
+                    <BreakdownList.Row
+                      key={`overage-goal-${goalIdx}`}
+                      label={`${goal.artistName} goes into overage${goal.alreadyMet ? " (already met)" : ""}`}
+                      value={describeGoalSeekAnswer(goal, goalSeek.searchLimit, result.currency)}
+                      variant={goal.alreadyMet ? "success" : "default"}
+                    />
+                  ))}
+                  {goalSeek.targetHousePayout && (
+                    <BreakdownList.Row
+                      label={`House payout of ${formatMoney(goalSeek.targetHousePayout.target, result.currency)}${goalSeek.targetHousePayout.alreadyMet ? " (already met)" : ""}`}
+                      value={describeGoalSeekAnswer(goalSeek.targetHousePayout, goalSeek.searchLimit, result.currency)}
+                      variant={goalSeek.targetHousePayout.alreadyMet ? "success" : "default"}
+                    />
+                  )}
+                </BreakdownList>
+                <Input
+                  label={`Target House Payout (${result.currency})`}
+                  type="number"
+                  value={goalTarget}
+                  onChange={(e) => setGoalTarget(sanitizeNonNegative(e.target.value))}
+                  placeholder="ex: 5000"
+                  hint="Finds the tickets and gross needed for the house to take home this amount"
+                  min={0}
+                  step={0.01}
+                />
+              </Card>
+            )}
+            {projectionComparison && (
+              <Card className="results-card calculator-projection-comparison" variant="default" padding="lg">
+                <h3 className="calculator-section-title">Projection vs Actual</h3>
+                <p className="ds-input-hint calculator-field-help">
+                  {projectionComparison.actualTickets} tickets sold ({projectionComparison.actualSellThroughPercent}% sell-through),
+                  compared with the {projectionComparison.row.sellThroughPercent}% projection ({projectionComparison.row.tickets} tickets).
+                </p>
+                <BreakdownList>
+                  {projectionComparison.lines.map((line, lineIdx) => (
+                    <BreakdownList.Row
+                      key={`projection-variance-${lineIdx}`}
+                      label={`${line.label} (projected ${formatMoney(line.projected, result.currency)}, actual ${formatMoney(line.actual, result.currency)})`}
+                      value={formatAdjustmentAmount(line.variance, result.currency)}
+                    />
+                  ))}
+                </BreakdownList>
+              </Card>
+            )}
           </section>
         )}
 
@@ -0,0 +1,48 @@
+import { formatTraceValue, type TraceNode } from "@/lib/settlement/trace";
+import "./DerivationTrace.css";
+
+interface DerivationTraceProps {
+  /** Figures explained together, e.g. an artist's payout and withholding. */
+  nodes: TraceNode[];
+  currency: string;
+}
+
+function TraceStep({ node, currency }: { node: TraceNode; currency: string }) {
+  const line = (
+    <>
+      <span className="derivation-trace-label">{node.label}</span>
+      <span className="derivation-trace-value">{formatTraceValue(node, currency)}</span>
+      {node.formula && <span className="derivation-trace-formula">= {node.formula}</span>}
+    </>
+  );
+  if (!node.inputs || node.inputs.length === 0) {
+    return <li className="derivation-trace-step">{line}</li>;
+  }
+  return (
+    <li className="derivation-trace-step">
+      <details>
+        <summary>{line}</summary>
+        <ul className="derivation-trace-inputs">
+          {node.inputs.map((input, i) => (
+            <TraceStep key={i} node={input} currency={currency} />
+          ))}
+        </ul>
+      </details>
+    </li>
+  );
+}
+
+/** Expandable "how we got this" section rendered from the engine's derivation trace. */
+export default function DerivationTrace({ nodes, currency }: DerivationTraceProps) {
+  if (nodes.length === 0) return null;
+  return (
+    <details className="derivation-trace">
+      <summary className="derivation-trace-toggle">How we got this</summary>
+      <ul className="derivation-trace-inputs derivation-trace-root">
+        {nodes.map((node, i) => (
+          <TraceStep key={i} node={node} currency={currency} />
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { Popover } from "@/components/ui/Popover";
+import {
+  ADJUSTMENT_KINDS,
+  describeAdjustment,
+  formatAdjustmentAmount,
+  type AdjustmentKind,
+  type AmendedBalance,
+  type SettlementAdjustment,
+} from "@/lib/settlement/adjustments";
+import { formatMoney } from "@/lib/settlement/money";
+import { useDashboardToast } from "./DashboardToast";
+
+interface AdjustmentsLedgerProps {
+  showId: string;
+  currency: string;
+  entries: SettlementAdjustment[];
+  /** Null when the show has no settled result to amend. */
+  amended: AmendedBalance | null;
+}
+
+/**
+ * Append-only ledger of post-settlement adjustments for one show.
+ */
+export default function AdjustmentsLedger({ showId, currency, entries, amended }: AdjustmentsLedgerProps) {
+  const router = useRouter();
+  const showToast = useDashboardToast();
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<AdjustmentKind>("refund");
+  const [entryDate, setEntryDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [amount, setAmount] = useState("");
+  const [direction, setDirection] = useState("debit");
+  const [allocation, setAllocation] = useState("artist");
+  const [artistSharePercent, setArtistSharePercent] = useState("50");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleAdd() {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/shows/adjustments/add", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          showId,
+          kind,
+          entryDate,
+          amount,
+          direction,
+          reason,
+          artistSharePercent: allocation === "artist" ? 100 : allocation === "venue" ? 0 : artistSharePercent,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || "Failed to add adjustment");
+      }
+      showToast("Adjustment added");
+      setAmount("");
+      setReason("");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong. Try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={setOpen}
+      panelWidth={380}
+      className="adjustments-ledger"
+      trigger={
+        <Button type="button" variant="ghost" size="sm">
+          Adjustments{entries.length > 0 ? ` (${entries.length})` : ""}
+        </Button>
+      }
+    >
+      <h3 className="show-title">Adjustments Ledger</h3>
+      <p className="run-builder-hint">
+        Entries are added on top of the settlement and can&apos;t be edited; fix a mistake with a correction.
+      </p>
+      {entries.length > 0 && (
+        <ul className="adjustments-ledger-list">
+          {entries.map((entry) => (
+            <li key={entry.id}>
+              <span>{describeAdjustment(entry)}</span>
+              <span>{formatAdjustmentAmount(entry.amount, currency)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {amended && entries.length > 0 && (
+        <p className="adjustments-ledger-total">
+          Amended balance due {formatMoney(amended.amendedBalance, currency)}
+          {" "}(was {formatMoney(amended.originalBalance, currency)})
+        </p>
+      )}
+      <div className="adjustments-ledger-form">
+        <Select label="Type" value={kind} onChange={(e) => setKind(e.target.value as AdjustmentKind)}>
+          {ADJUSTMENT_KINDS.map((k) => (
+            <option key={k.kind} value={k.kind}>{k.label}</option>
+          ))}
+        </Select>
+        <Input label="Date" type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} />
+        <Input
+          label={`Amount (${currency})`}
+          type="number"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value.replace(/-/g, ""))}
+          placeholder="ex: 120"
+          min={0}
+          step={0.01}
+        />
+        {kind === "correction" && (
+          <Select label="Direction" value={direction} onChange={(e) => setDirection(e.target.value)}>
+            <option value="debit">Takes money out of the settlement</option>
+            <option value="credit">Adds money to the settlement</option>
+          </Select>
+        )}
+        <Select label="Borne By" value={allocation} onChange={(e) => setAllocation(e.target.value)}>
+          <option value="artist">Artist</option>
+          <option value="venue">Venue</option>
+          <option value="split">Split</option>
+        </Select>
+        {allocation === "split" && (
+          <Input
+            label="Artist Share (%)"
+            type="number"
+            value={artistSharePercent}
+            onChange={(e) => setArtistSharePercent(e.target.value.replace(/-/g, ""))}
+            min={0}
+            max={100}
+            step={0.1}
+          />
+        )}
+        <Input
+          label="Reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="ex: Disputed card sale, order #4411"
+        />
+      </div>
+      {error && <p className="error-message">{error}</p>}
+      <div className="run-builder-actions">
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={handleAdd}
+          disabled={saving || !amount || !reason.trim() || !entryDate}
+        >
+          {saving ? "Saving…" : "Add to Ledger"}
+        </Button>
+      </div>
+    </Popover>
+  );
+}
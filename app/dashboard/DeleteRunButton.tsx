@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/Button";
+import { useDashboardToast } from "./DashboardToast";
+
+/** Ungroups a run; its shows stay saved and settle on their own. */
+export default function DeleteRunButton({ runId }: { runId: string }) {
+  const router = useRouter();
+  const showToast = useDashboardToast();
+  const [loading, setLoading] = useState(false);
+
+  async function handleClick(e: React.MouseEvent<HTMLButtonElement>) {
+    e.preventDefault();
+    e.stopPropagation();
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/runs/delete", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ runId }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to ungroup run");
+      }
+      showToast("Run ungrouped");
+      router.refresh();
+    } catch (err) {
+      console.error("Delete run error:", err);
+      showToast("Something went wrong. Try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleClick} disabled={loading}>
+      {loading ? "Ungrouping…" : "Ungroup Run"}
+    </Button>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
+import { useDashboardToast } from "./DashboardToast";
+
+interface RunBuilderProps {
+  /** Saved shows that are not already nights of a run. */
+  shows: { id: string; title: string | null; show_date: string | null }[];
+}
+
+/**
+ * Groups saved shows into a multi-night run settled as one deal.
+ */
+export default function RunBuilder({ shows }: RunBuilderProps) {
+  const router = useRouter();
+  const showToast = useDashboardToast();
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function toggleShow(showId: string) {
+    setSelected((prev) => (prev.includes(showId) ? prev.filter((id) => id !== showId) : [...prev, showId]));
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/runs/save", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, showIds: selected }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || "Failed to create run");
+      }
+      showToast("Run created");
+      setOpen(false);
+      setTitle("");
+      setSelected([]);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong. Try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!open) {
+    return (
+      <div className="run-builder-toggle">
+        <Button variant="secondary" size="sm" onClick={() => setOpen(true)} disabled={shows.length < 2}>
+          Group Shows Into a Run
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="run-builder" padding="md">
+      <h3 className="show-title">New Run</h3>
+      <p className="run-builder-hint">
+        The nights settle as one cross-collateralized deal, using the artist deal entered on the first night.
+      </p>
+      <Input
+        label="Run Name"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="ex: Three-Night Residency"
+      />
+      <fieldset className="run-builder-shows">
+        <legend>Nights</legend>
+        {shows.map((show) => (
+          <label key={show.id} className="run-builder-option">
+            <input type="checkbox" checked={selected.includes(show.id)} onChange={() => toggleShow(show.id)} />
+            {show.title || "Untitled show"}
+            {show.show_date ? ` — ${new Date(show.show_date).toLocaleDateString()}` : ""}
+          </label>
+        ))}
+      </fieldset>
+      {error && <p className="error-message">{error}</p>}
+      <div className="run-builder-actions">
+        <Button variant="ghost" size="sm" onClick={() => setOpen(false)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={handleSave}
+          disabled={saving || !title.trim() || selected.length < 2}
+        >
+          {saving ? "Saving…" : "Create Run"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -14,6 +14,14 @@ import { buildPageMetadata } from "@/lib/seo";
 import SubscribeButton from "./SubscribeButton";
 import { DashboardToastProvider } from "./DashboardToast";
 import CopyShareLinkButton from "./CopyShareLinkButton";
+import RunBuilder from "./RunBuilder";
+import DeleteRunButton from "./DeleteRunButton";
+import AdjustmentsLedger from "./AdjustmentsLedger";
+import { readStoredResult, readStoredRunResult } from "@/lib/settlement/stored-result";
+import { amendSettlement, readStoredAdjustments, type SettlementAdjustment } from "@/lib/settlement/adjustments";
+import { DEFAULT_CURRENCY } from "@/lib/settlement/currency";
+import { describeOverdueDeposits, findOverdueDeposits, todayIsoDate } from "@/lib/settlement/deposits";
+import { formatMoney } from "@/lib/settlement/money";
 import "./dashboard.css";
 
 export const metadata: Metadata = buildPageMetadata({
@@ -61,13 +69,39 @@ export default async function DashboardPage() {
   // Fetch user's shows
   const { data: shows, error: showsError } = await supabase
     .from('shows')
-    .select('id, title, updated_at, inputs, results')
+    .select('id, title, show_date, updated_at, inputs, results, run_id')
     .eq('user_id', user.id)
     .order('updated_at', { ascending: false });
 
   const userShows = shows || [];
+  // Unpaid deposit installments past this date are flagged on each show card.
+  const today = todayIsoDate();
+
+  // Fetch user's multi-night runs
+  const { data: runs } = await supabase
+    .from('runs')
+    .select('id, title, results')
+    .eq('user_id', user.id)
+    .order('updated_at', { ascending: false });
+
+  const userRuns = runs || [];
+  const runTitleById = new Map(userRuns.map((run) => [run.id, run.title || "Untitled run"]));
   const showIds = userShows.map((show) => show.id);
 
+  // Fetch post-settlement adjustments ledgers (if any)
+  const adjustmentsByShowId = new Map<string, SettlementAdjustment[]>();
+  if (showIds.length > 0) {
+    const { data: adjustmentRows } = await supabase
+      .from('show_adjustments')
+      .select('id, show_id, kind, entry_date, amount_cents, reason, artist_share_percent, created_at')
+      .in('show_id', showIds);
+
+    for (const showId of showIds) {
+      const rows = (adjustmentRows || []).filter((row) => row.show_id === showId);
+      if (rows.length > 0) adjustmentsByShowId.set(showId, readStoredAdjustments(rows));
+    }
+  }
+
   // Fetch share links for shows (if any)
   const shareLinksByShowId = new Map<string, { token: string; is_active: boolean }>();
   if (showIds.length > 0) {
@@ -121,9 +155,45 @@ export default async function DashboardPage() {
             {/* Shows List */}
             {userShows.length > 0 ? (
               <DashboardToastProvider>
+                {userRuns.length > 0 && (
+                  <div className="shows-list">
+                    {userRuns.map((run) => {
+                      const runResult = readStoredRunResult(run.results);
+                      const nightCount = userShows.filter((show) => show.run_id === run.id).length;
+
+                      return (
+                        <Card key={run.id} className="show-card run-card" padding="md">
+                          <div className="show-card-content">
+                            <h3 className="show-title">{run.title}</h3>
+                            <p className="show-artist">
+                              Run of {nightCount} night{nightCount === 1 ? "" : "s"} · settled as one deal
+                            </p>
+                            {runResult ? (
+                              <p className="show-timestamp">
+                                Gross {formatMoney(runResult.grossRevenue, runResult.currency)}
+                                {" · "}Artist {formatMoney(runResult.artistPayout, runResult.currency)}
+                                {" · "}Venue {formatMoney(runResult.venuePayout, runResult.currency)}
+                              </p>
+                            ) : (
+                              <Badge variant="warning">Run does not settle — check its nights</Badge>
+                            )}
+                          </div>
+                          <div className="show-card-actions">
+                            <DeleteRunButton runId={run.id} />
+                          </div>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                )}
+                <RunBuilder shows={userShows.filter((show) => !show.run_id)} />
                 <div className="shows-list">
                   {userShows.map((show) => {
                     const shareLink = shareLinksByShowId.get(show.id);
+                    const result = readStoredResult(show.results);
+                    const adjustments = adjustmentsByShowId.get(show.id) ?? [];
+                    const amended = result ? amendSettlement(result, adjustments) : null;
+                    const overdueDeposits = findOverdueDeposits(show.inputs?.artists, today);
 
                     return (
                       <Card key={show.id} className="show-card" padding="md">
@@ -135,6 +205,9 @@ export default async function DashboardPage() {
                         </Link>
                         <div className="show-card-content">
                           <h3 className="show-title">{show.title}</h3>
+                          {show.run_id && runTitleById.has(show.run_id) && (
+                            <Badge variant="accent">Night of {runTitleById.get(show.run_id)}</Badge>
+                          )}
                           {(() => {
                             const artists = show.inputs?.artists;
                             const names = artists && artists.length > 0
@@ -145,6 +218,20 @@ export default async function DashboardPage() {
                           <p className="show-timestamp">
                             Last saved: {formatRelativeTime(show.updated_at)}
                           </p>
+                          {amended && result && adjustments.length > 0 && (
+                            <p className="show-timestamp">
+                              Amended balance due {formatMoney(amended.amendedBalance, result.currency)}
+                              {" · "}{adjustments.length} adjustment{adjustments.length === 1 ? "" : "s"}
+                            </p>
+                          )}
+                          {overdueDeposits.length > 0 && (
+                            <Badge variant="warning">
+                              {describeOverdueDeposits(
+                                overdueDeposits,
+                                result?.currency ?? show.inputs?.currency ?? DEFAULT_CURRENCY
+                              )}
+                            </Badge>
+                          )}
                           {show.results?.acknowledgments && show.results.acknowledgments.length > 0 && (
                             <Badge variant="success">
                               Acknowledged by {show.results.acknowledgments[show.results.acknowledgments.length - 1].name}
@@ -159,6 +246,12 @@ export default async function DashboardPage() {
                             initialToken={shareLink?.token}
                             initialIsActive={shareLink?.is_active}
                           />
+                          <AdjustmentsLedger
+                            showId={show.id}
+                            currency={result?.currency ?? show.inputs?.currency ?? DEFAULT_CURRENCY}
+                            entries={adjustments}
+                            amended={amended}
+                          />
                         </div>
                       </Card>
                     );
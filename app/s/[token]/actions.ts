@@ -28,13 +28,16 @@ export async function acknowledgeSettlement(
 
   const { data: show, error: showError } = await serviceClient
     .from("shows")
-    .select("results")
+    .select("results, run_id")
     .eq("id", shareLink.show_id)
     .single();
 
   if (showError || !show) {
     return { success: false, error: "Show not found." };
   }
+  if (show.run_id) {
+    return { success: false, error: "This night is settled with its run and can't be acknowledged on its own." };
+  }
 
   const existing: { name: string; email: string; timestamp: string }[] =
     show.results?.acknowledgments || [];
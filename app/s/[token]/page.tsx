@@ -1,8 +1,10 @@
 import type { Metadata } from "next";
 import { createServiceClient } from "@/lib/supabase/service";
+import { createClient } from "@/lib/supabase/server";
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import JsonLd from "@/app/components/JsonLd";
+import DerivationTrace from "@/app/components/DerivationTrace";
 import { buildPageMetadata, toAbsoluteUrl } from "@/lib/seo";
 import { MarketingShell } from "@/components/ui/MarketingShell";
 import { Card } from "@/components/ui/Card";
@@ -11,6 +13,36 @@ import { DescriptionList } from "@/components/ui/DescriptionList";
 import { BreakdownList } from "@/components/ui/BreakdownList";
 import { SharePagePrintButton } from "./SharePagePrintButton";
 import { AcknowledgeForm } from "./AcknowledgeForm";
+import type { CalculationResult } from "@/lib/settlement/calculate";
+import type { TraceNode } from "@/lib/settlement/trace";
+import { formatMoney, parseMoney } from "@/lib/settlement/money";
+import { readStoredResult, readStoredRunResult } from "@/lib/settlement/stored-result";
+import { describeEscalatorBand } from "@/lib/settlement/escalator";
+import { describeDealPercentage, describeDealType, describePayoutBasis, getDealType } from "@/lib/settlement/deal-types";
+import { describeExpenseAdjustment, describeExpenseTerms } from "@/lib/settlement/expenses";
+import { describeFeeTreatment, describeTierFee } from "@/lib/settlement/ticket-fees";
+import { describeTax } from "@/lib/settlement/taxes";
+import { describeDoorVariance, describeTierSales } from "@/lib/settlement/door";
+import { describeCompChargeback, describeCompCount } from "@/lib/settlement/comps";
+import { describeWaterfallStep } from "@/lib/settlement/waterfall";
+import { describeMerchVenueCut } from "@/lib/settlement/merch";
+import { amendSettlement, describeAdjustment, formatAdjustmentAmount, readStoredAdjustments } from "@/lib/settlement/adjustments";
+import { describeInventoryLine, describeMerchInventoryVariance } from "@/lib/settlement/merch-inventory";
+import { describeShowOutcome, isCancellation } from "@/lib/settlement/outcome";
+import { describeAncillaryLine } from "@/lib/settlement/ancillary";
+import {
+  describeDepositInstallment,
+  describeInstallmentStatus,
+  isInstallmentOverdue,
+  todayIsoDate,
+} from "@/lib/settlement/deposits";
+import { describeArtistBar, describeBarNet } from "@/lib/settlement/bar";
+import {
+  ARTIST_BAR_CREDIT_LABEL,
+  describeBarShortfall,
+  describeHouseCrew,
+  describeVenueRent,
+} from "@/lib/settlement/venue-rental";
 import "./shared-settlement.css";
 
 /**
@@ -31,20 +63,15 @@ interface ArtistInput {
   withholdingState?: string;
   buyoutItems?: { label: string; amount: string }[];
   buyoutMode?: string;
-}
-
-interface ArtistResultEntry {
-  artistName: string;
-  dealType: string;
-  artistPayout: number;
-  overage?: number;
-  breakeven?: number;
-  withholdingAmount?: number;
-  withholdingState?: string;
-  buyoutItems?: { label: string; amount: number }[];
-  totalBuyouts?: number;
-  deposit: number;
-  balanceDue: number;
+  payoutCurrency?: string;
+  fxRate?: string;
+  fxDate?: string;
+  promoterProfitMode?: string;
+  promoterProfit?: string;
+  formula?: string;
+  escalatorBasis?: string;
+  escalatorTiers?: { from: string; percentage: string }[];
+  bonusClauses?: { label: string; trigger: string }[];
 }
 
 interface Show {
@@ -52,10 +79,12 @@ interface Show {
   user_id: string;
   title: string | null;
   show_date: string | null;
+  run_id?: string | null;
   inputs: {
     artists?: ArtistInput[];
     artistName?: string;
-    ticketTiers?: { name: string; price: string; sold: string; comps?: string }[];
+    currency?: string;
+    ticketTiers?: { name: string; price: string; sold: string; comps?: string; walkUpPrice?: string; walkUpSold?: string }[];
     capacity?: string;
     ticketPrice?: string;
     ticketsSold?: string;
@@ -64,7 +93,7 @@ interface Show {
     ccFeeRate?: string;
     ccFeeMode?: string;
     totalExpenses?: string;
-    expenseItems?: { label: string; amount: string; note?: string }[];
+    expenseItems?: { label: string; amount: string; note?: string; deductibility?: string; cap?: string }[];
     notes?: string;
     dealType?: string;
     guarantee?: string;
@@ -78,35 +107,7 @@ interface Show {
     merchGross?: string;
     merchVenuePercent?: string;
   };
-  results: {
-    grossRevenue: number;
-    ticketTiers?: { name: string; price: number; sold: number; comps: number; revenue: number }[];
-    totalTicketsSold?: number;
-    totalComps?: number;
-    taxAmount: number;
-    totalExpenses: number;
-    expenseItems?: { label: string; amount: number; note?: string }[];
-    notes?: string;
-    netProfit: number;
-    artists?: ArtistResultEntry[];
-    artistPayout: number;
-    overage?: number;
-    breakeven?: number;
-    deposit?: number;
-    balanceDue?: number;
-    ccFees?: number;
-    withholdingAmount?: number;
-    withholdingState?: string;
-    buyoutItems?: { label: string; amount: number }[];
-    totalBuyouts?: number;
-    venuePayout: number;
-    merchGross?: number;
-    merchVenueCut?: number;
-    merchNetToArtist?: number;
-    totalDueToArtist?: number;
-    calculatedAt?: string;
-    acknowledgments?: { name: string; email: string; timestamp: string }[];
-  };
+  results: CalculationResult;
   created_at: string;
   updated_at: string;
 }
@@ -120,41 +121,6 @@ export async function generateMetadata(): Promise<Metadata> {
   });
 }
 
-/**
- * Formats a number as USD currency
- */
-function formatCurrency(amount: number): string {
-  const formatter = new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  });
-  return formatter.format(amount);
-}
-
-/**
- * Formats deal type for display
- */
-function formatDealType(dealType: string): string {
-  switch (dealType) {
-    case "guarantee":
-      return "Guarantee";
-    case "percentage":
-      return "Percentage of Net";
-    case "guarantee_vs_percentage":
-      return "Guarantee vs Percentage (whichever is higher)";
-    case "guarantee_plus_percentage":
-      return "Guarantee + Back-End Percentage";
-    case "percentage_of_gross":
-      return "Percentage of Gross (before deductions)";
-    case "door_deal":
-      return "Door Deal (% of gross after tax)";
-    default:
-      return dealType;
-  }
-}
-
 export default async function SharedSettlementPage({
   params,
 }: {
@@ -187,7 +153,46 @@ export default async function SharedSettlementPage({
     notFound();
   }
 
-  const typedShow = show as Show;
+  const storedResult = readStoredResult(show.results);
+  if (!storedResult) {
+    notFound();
+  }
+  const typedShow: Show = { ...(show as Show), results: storedResult };
+  // Per-artist merch replaces the legacy whole-show merch and total sections.
+  const hasArtistMerch = (typedShow.results.artists ?? []).some((ar) => ar.merch);
+
+  // Nights of a run also show their part of the run's cross-collateralized
+  // settlement. Only the run's owner sees the run's title and other nights;
+  // anyone else with a night's link sees that night's figures alone. The
+  // night's own balance due and acknowledgment give way to the run's.
+  let run: { title: string | null; results: ReturnType<typeof readStoredRunResult> } | null = null;
+  if (typedShow.run_id) {
+    const { data: runData } = await serviceClient
+      .from("runs")
+      .select("title, results")
+      .eq("id", typedShow.run_id)
+      .single();
+    if (runData) run = { title: runData.title, results: readStoredRunResult(runData.results) };
+  }
+  const runResult = run?.results ?? null;
+  const runNight = runResult?.nights.find((n) => n.showId === typedShow.id) ?? null;
+  let viewerOwnsRun = false;
+  if (runResult) {
+    const supabase = await createClient();
+    const {
+      data: { user: viewer },
+    } = await supabase.auth.getUser();
+    viewerOwnsRun = viewer?.id === typedShow.user_id;
+  }
+  const settledWithRun = Boolean(typedShow.run_id);
+
+  // Adjustments appended after settlement; the settlement above them stays as acknowledged.
+  const { data: adjustmentRows } = await serviceClient
+    .from("show_adjustments")
+    .select("id, kind, entry_date, amount_cents, reason, artist_share_percent, created_at")
+    .eq("show_id", typedShow.id);
+  const adjustments = readStoredAdjustments(adjustmentRows);
+  const amended = adjustments.length > 0 ? amendSettlement(typedShow.results, adjustments) : null;
   let authorEmail: string | null = null;
   try {
     const { data: userData } = await serviceClient.auth.admin.getUserById(
@@ -254,6 +259,18 @@ export default async function SharedSettlementPage({
                 value={new Date(typedShow.show_date).toLocaleDateString()}
               />
             )}
+            <DescriptionList.Item label="Currency:" value={typedShow.results.currency} />
+            {typedShow.results.outcome && (
+              <DescriptionList.Item label="Outcome:" value={describeShowOutcome(typedShow.results.outcome)} />
+            )}
+            {runResult && (
+              <DescriptionList.Item
+                label="Run:"
+                value={viewerOwnsRun
+                  ? `${run?.title || runResult.runName} (night ${runResult.nights.findIndex((n) => n.showId === typedShow.id) + 1} of ${runResult.nights.length}, settled as one deal)`
+                  : "Settled as one deal with other nights"}
+              />
+            )}
           </DescriptionList>
         </section>
 
@@ -291,30 +308,59 @@ export default async function SharedSettlementPage({
               <DescriptionList>
                 <DescriptionList.Item
                   label="Deal Type:"
-                  value={formatDealType(ai.dealType || "")}
+                  value={describeDealType(ai.dealType || "")}
                 />
                 {ai.guarantee && (
                   <DescriptionList.Item
                     label="Guarantee Amount:"
-                    value={formatCurrency(parseFloat(ai.guarantee))}
+                    value={formatMoney(parseMoney(ai.guarantee), typedShow.results.currency)}
                   />
                 )}
                 {ai.percentage && (
                   <DescriptionList.Item
-                    label={ai.dealType === "guarantee_plus_percentage" ? "Back-End Percentage:" : "Percentage:"}
+                    label={`${describeDealPercentage(ai.dealType || "")}:`}
                     value={`${ai.percentage}%`}
                   />
                 )}
+                {getDealType(ai.dealType)?.fields.promoterProfit && ai.promoterProfit && (
+                  <DescriptionList.Item
+                    label="Promoter Profit:"
+                    value={ai.promoterProfitMode === "flat"
+                      ? formatMoney(parseMoney(ai.promoterProfit), typedShow.results.currency)
+                      : `${ai.promoterProfit}% of expenses + guarantee`}
+                  />
+                )}
+                {getDealType(ai.dealType)?.fields.formula && ai.formula && (
+                  <DescriptionList.Item label="Formula:" value={ai.formula} />
+                )}
+                {ai.escalatorBasis && ai.escalatorTiers && ai.escalatorTiers.length > 0 && (
+                  <DescriptionList.Item
+                    label="Escalating Percentage:"
+                    value={`Bands keyed to ${ai.escalatorBasis === "tickets" ? "tickets sold" : ai.escalatorBasis}`}
+                  />
+                )}
+                {ai.bonusClauses && ai.bonusClauses.length > 0 && (
+                  <DescriptionList.Item
+                    label="Bonuses:"
+                    value={ai.bonusClauses.map((b) => b.label || "Bonus").join(", ")}
+                  />
+                )}
                 {ai.breakeven && parseFloat(ai.breakeven) > 0 && (
                   <DescriptionList.Item
                     label="Breakeven Point:"
-                    value={formatCurrency(parseFloat(ai.breakeven))}
+                    value={formatMoney(parseMoney(ai.breakeven), typedShow.results.currency)}
                   />
                 )}
                 {ai.deposit && parseFloat(ai.deposit) > 0 && (
                   <DescriptionList.Item
                     label="Deposit / Advance Paid:"
-                    value={formatCurrency(parseFloat(ai.deposit))}
+                    value={formatMoney(parseMoney(ai.deposit), typedShow.results.currency)}
+                  />
+                )}
+                {ai.payoutCurrency && ai.payoutCurrency !== typedShow.results.currency && (
+                  <DescriptionList.Item
+                    label="Paid In:"
+                    value={`${ai.payoutCurrency}${ai.fxRate ? ` at ${ai.fxRate} per ${typedShow.results.currency}` : ""}${ai.fxDate ? ` (rate date ${ai.fxDate})` : ""}`}
                   />
                 )}
                 {ai.withholdingRate && parseFloat(ai.withholdingRate) > 0 && (
@@ -344,7 +390,7 @@ export default async function SharedSettlementPage({
                 <DescriptionList.Item
                   key={index}
                   label={`${tier.name || "Tier"}:`}
-                  value={`${formatCurrency(parseFloat(tier.price))} × ${tier.sold} sold${parseInt(tier.comps || "0") > 0 ? `, ${tier.comps} comps` : ''}`}
+                  value={`${formatMoney(parseMoney(tier.price), typedShow.results.currency)} × ${tier.sold} sold${parseInt(tier.walkUpSold || "0") > 0 ? `, ${tier.walkUpSold} walk-up at ${formatMoney(parseMoney(tier.walkUpPrice || tier.price), typedShow.results.currency)}` : ''}${parseInt(tier.comps || "0") > 0 ? `, ${tier.comps} comps` : ''}`}
                 />
               ))
             ) : (
@@ -352,7 +398,7 @@ export default async function SharedSettlementPage({
                 {(typedShow.inputs.ticketTiers?.[0]?.price || typedShow.inputs.ticketPrice) && (
                   <DescriptionList.Item
                     label="Ticket Price:"
-                    value={formatCurrency(parseFloat(typedShow.inputs.ticketTiers?.[0]?.price || typedShow.inputs.ticketPrice || "0"))}
+                    value={formatMoney(parseMoney(typedShow.inputs.ticketTiers?.[0]?.price || typedShow.inputs.ticketPrice || "0"), typedShow.results.currency)}
                   />
                 )}
                 {(typedShow.inputs.ticketTiers?.[0]?.sold || typedShow.inputs.ticketsSold) && (
@@ -375,12 +421,17 @@ export default async function SharedSettlementPage({
                 value={typedShow.inputs.capacity}
               />
             )}
-            {typedShow.inputs.taxRate && (
+            {typedShow.results.taxes && typedShow.results.taxes.length > 0 ? (
+              <DescriptionList.Item
+                label={typedShow.results.taxes.length > 1 ? "Taxes:" : "Tax:"}
+                value={typedShow.results.taxes.map((tax) => describeTax(tax)).join("; ")}
+              />
+            ) : typedShow.inputs.taxRate ? (
               <DescriptionList.Item
                 label="Tax Rate:"
                 value={`${typedShow.inputs.taxRate}%${typedShow.inputs.taxMode === 'inclusive' ? ' (included in price)' : ''}`}
               />
-            )}
+            ) : null}
             {typedShow.inputs.ccFeeRate && parseFloat(typedShow.inputs.ccFeeRate) > 0 && (
               <DescriptionList.Item
                 label="CC Processing Fee:"
@@ -391,14 +442,17 @@ export default async function SharedSettlementPage({
               typedShow.inputs.expenseItems.map((item, index) => (
                 <DescriptionList.Item
                   key={index}
-                  label={`${item.label || "Expense"}${item.note ? ` (${item.note})` : ""}:`}
-                  value={formatCurrency(parseFloat(item.amount))}
+                  label={`${item.label || "Expense"}${item.note ? ` (${item.note})` : ""}${describeExpenseTerms(
+                    { deductibility: item.deductibility === "venue_only" ? "venue_only" : undefined, cap: parseMoney(item.cap ?? "") > 0 ? parseMoney(item.cap ?? "") : undefined },
+                    typedShow.results.currency
+                  )}:`}
+                  value={formatMoney(parseMoney(item.amount), typedShow.results.currency)}
                 />
               ))
             ) : typedShow.inputs.totalExpenses ? (
               <DescriptionList.Item
                 label="Total Expenses:"
-                value={formatCurrency(parseFloat(typedShow.inputs.totalExpenses))}
+                value={formatMoney(parseMoney(typedShow.inputs.totalExpenses), typedShow.results.currency)}
               />
             ) : null}
           </DescriptionList>
@@ -408,35 +462,154 @@ export default async function SharedSettlementPage({
         <section className="settlement-section">
           <h2 className="ds-section-title">Settlement Breakdown</h2>
           <BreakdownList>
-            {typedShow.results.ticketTiers && typedShow.results.ticketTiers.length > 1 ? (
+            {typedShow.results.outcome?.refundedTicketRevenue != null && (
+              <BreakdownList.Row
+                label="Ticket Sales Refunded"
+                value={`−${formatMoney(typedShow.results.outcome.refundedTicketRevenue, typedShow.results.currency)}`}
+                variant="negative"
+              />
+            )}
+            {typedShow.results.ticketFees && typedShow.results.ticketFees.length > 0 ? (
               <>
-                {typedShow.results.ticketTiers.map((tier, index) => (
+                {(typedShow.results.ticketTiers ?? []).flatMap((tier, index) => [
+                  ...describeTierSales(tier, typedShow.results.currency).map((line, lineIdx) => (
+                    <BreakdownList.Row
+                      key={`tier-${index}-${lineIdx}`}
+                      label={line.label}
+                      value={formatMoney(line.amount, typedShow.results.currency)}
+                    />
+                  )),
+                  ...(tier.fees ?? []).map((line, feeIdx) => (
+                    <BreakdownList.Row
+                      key={`tier-${index}-fee-${feeIdx}`}
+                      label={describeTierFee(tier.name, tier.sold, line, typedShow.results.currency)}
+                      value={formatMoney(line.total, typedShow.results.currency)}
+                    />
+                  )),
+                ])}
+                <BreakdownList.Row
+                  label={`Ticketing Gross (${typedShow.results.totalTicketsSold} sold${typedShow.results.totalComps ? `, ${typedShow.results.totalComps} comps` : ''})`}
+                  value={formatMoney(typedShow.results.ticketingGross ?? typedShow.results.grossRevenue, typedShow.results.currency)}
+                />
+                {typedShow.results.ticketFees.filter((fee) => fee.total > fee.toGross).map((fee) => (
                   <BreakdownList.Row
-                    key={index}
-                    label={`${tier.name} (${tier.sold} × ${formatCurrency(tier.price)})`}
-                    value={formatCurrency(tier.revenue)}
+                    key={`fee-${fee.kind}`}
+                    label={`Less ${fee.label} (${describeFeeTreatment(fee)})`}
+                    value={`−${formatMoney(fee.total - fee.toGross, typedShow.results.currency)}`}
+                    variant="negative"
                   />
                 ))}
+                {(typedShow.results.ticketTiers ?? []).flatMap((tier, index) =>
+                  (tier.compChargebacks ?? []).map((line, lineIdx) => (
+                    <BreakdownList.Row
+                      key={`comp-chargeback-${index}-${lineIdx}`}
+                      label={describeCompChargeback(tier.name, tier.price, line, typedShow.results.currency)}
+                      value={`+${formatMoney(line.amount, typedShow.results.currency)}`}
+                    />
+                  ))
+                )}
+                <BreakdownList.Row
+                  label="Adjusted Gross (artist gross)"
+                  value={formatMoney(typedShow.results.grossRevenue, typedShow.results.currency)}
+                />
+              </>
+            ) : typedShow.results.ticketTiers && (typedShow.results.ticketTiers.length > 1 || typedShow.results.salesChannels) ? (
+              <>
+                {typedShow.results.ticketTiers.flatMap((tier, index) =>
+                  describeTierSales(tier, typedShow.results.currency).map((line, lineIdx) => (
+                    <BreakdownList.Row
+                      key={`tier-${index}-${lineIdx}`}
+                      label={line.label}
+                      value={formatMoney(line.amount, typedShow.results.currency)}
+                    />
+                  ))
+                )}
+                {(typedShow.results.ticketTiers ?? []).flatMap((tier, index) =>
+                  (tier.compChargebacks ?? []).map((line, lineIdx) => (
+                    <BreakdownList.Row
+                      key={`comp-chargeback-${index}-${lineIdx}`}
+                      label={describeCompChargeback(tier.name, tier.price, line, typedShow.results.currency)}
+                      value={`+${formatMoney(line.amount, typedShow.results.currency)}`}
+                    />
+                  ))
+                )}
                 <BreakdownList.Row
                   label={`Gross Revenue (${typedShow.results.totalTicketsSold} sold${typedShow.results.totalComps ? `, ${typedShow.results.totalComps} comps` : ''})`}
-                  value={formatCurrency(typedShow.results.grossRevenue)}
+                  value={formatMoney(typedShow.results.grossRevenue, typedShow.results.currency)}
                 />
               </>
+            ) : (
+              <>
+                {(typedShow.results.ticketTiers ?? []).flatMap((tier, index) =>
+                  (tier.compChargebacks ?? []).map((line, lineIdx) => (
+                    <BreakdownList.Row
+                      key={`comp-chargeback-${index}-${lineIdx}`}
+                      label={describeCompChargeback(tier.name, tier.price, line, typedShow.results.currency)}
+                      value={`+${formatMoney(line.amount, typedShow.results.currency)}`}
+                    />
+                  ))
+                )}
+                <BreakdownList.Row
+                  label={`Gross Revenue${typedShow.results.totalTicketsSold ? ` (${typedShow.results.totalTicketsSold} sold${typedShow.results.totalComps ? `, ${typedShow.results.totalComps} comps` : ''})` : ''}`}
+                  value={formatMoney(typedShow.results.grossRevenue, typedShow.results.currency)}
+                />
+              </>
+            )}
+            {typedShow.results.salesChannels && (
+              <>
+                <BreakdownList.Row
+                  label={`Advance Sales (${typedShow.results.salesChannels.advanceSold} tickets)`}
+                  value={formatMoney(typedShow.results.salesChannels.advanceRevenue, typedShow.results.currency)}
+                />
+                <BreakdownList.Row
+                  label={`Walk-Up Sales (${typedShow.results.salesChannels.walkUpSold} tickets)`}
+                  value={formatMoney(typedShow.results.salesChannels.walkUpRevenue, typedShow.results.currency)}
+                />
+              </>
+            )}
+            {typedShow.results.doorReconciliation && (
+              <>
+                <BreakdownList.Row label="Door Cash Counted" value={formatMoney(typedShow.results.doorReconciliation.cash, typedShow.results.currency)} />
+                <BreakdownList.Row label="Door Card Receipts" value={formatMoney(typedShow.results.doorReconciliation.card, typedShow.results.currency)} />
+                <BreakdownList.Row
+                  label={describeDoorVariance(typedShow.results.doorReconciliation, typedShow.results.currency)}
+                  value={`${typedShow.results.doorReconciliation.variance < 0 ? "−" : typedShow.results.doorReconciliation.variance > 0 ? "+" : ""}${formatMoney(Math.abs(typedShow.results.doorReconciliation.variance), typedShow.results.currency)}`}
+                  variant={typedShow.results.doorReconciliation.variance === 0 ? "success" : "warning"}
+                />
+              </>
+            )}
+            {typedShow.results.compCategories && typedShow.results.compCategories.map((c) => (
+              <BreakdownList.Row key={`comp-${c.category}`} label={c.label} value={describeCompCount(c)} />
+            ))}
+            {typedShow.results.taxes && typedShow.results.taxes.length > 0 ? (
+              <>
+                {typedShow.results.taxes.map((tax, taxIdx) => (
+                  <BreakdownList.Row
+                    key={`tax-${taxIdx}`}
+                    label={describeTax(tax)}
+                    value={`−${formatMoney(tax.amount, typedShow.results.currency)}`}
+                    variant="negative"
+                  />
+                ))}
+                {typedShow.results.taxes.length > 1 && (
+                  <BreakdownList.Row
+                    label="Total Tax"
+                    value={`−${formatMoney(typedShow.results.taxAmount, typedShow.results.currency)}`}
+                    variant="negative"
+                  />
+                )}
+              </>
             ) : (
               <BreakdownList.Row
-                label={`Gross Revenue${typedShow.results.totalTicketsSold ? ` (${typedShow.results.totalTicketsSold} sold${typedShow.results.totalComps ? `, ${typedShow.results.totalComps} comps` : ''})` : ''}`}
-                value={formatCurrency(typedShow.results.grossRevenue)}
+                label={`Tax (${typedShow.inputs.taxRate || '0'}%${typedShow.inputs.taxMode === 'inclusive' ? ', included in price' : ''})`}
+                value={`−${formatMoney(typedShow.results.taxAmount, typedShow.results.currency)}`}
+                variant="negative"
               />
             )}
-            <BreakdownList.Row
-              label={`Tax (${typedShow.inputs.taxRate || '0'}%${typedShow.inputs.taxMode === 'inclusive' ? ', included in price' : ''})`}
-              value={`−${formatCurrency(typedShow.results.taxAmount)}`}
-              variant="negative"
-            />
             {typedShow.results.ccFees != null && typedShow.results.ccFees > 0 && typedShow.inputs.ccFeeMode === 'off_top' && (
               <BreakdownList.Row
                 label={`CC Processing Fees (${typedShow.inputs.ccFeeRate}%)`}
-                value={`−${formatCurrency(typedShow.results.ccFees)}`}
+                value={`−${formatMoney(typedShow.results.ccFees, typedShow.results.currency)}`}
                 variant="negative"
               />
             )}
@@ -445,8 +618,12 @@ export default async function SharedSettlementPage({
                 {typedShow.results.expenseItems.map((item, index) => (
                   <BreakdownList.Row
                     key={index}
-                    label={item.note ? `${item.label} — ${item.note}` : item.label}
-                    value={`−${formatCurrency(item.amount)}`}
+                    label={
+                      `${item.label}${describeExpenseTerms(item, typedShow.results.currency)}` +
+                      `${item.artistNames ? ` (${item.artistNames.join(", ")} only)` : ""}` +
+                      `${item.note ? ` — ${item.note}` : ""}`
+                    }
+                    value={`−${formatMoney(item.amount, typedShow.results.currency)}`}
                     variant="negative"
                   />
                 ))}
@@ -460,7 +637,7 @@ export default async function SharedSettlementPage({
                         <BreakdownList.Row
                           key={`buyout-exp-${arIdx}-${bi}`}
                           label={`${item.label} (buyout${typedShow.results.artists!.length > 1 ? ` — ${ar.artistName}` : ''})`}
-                          value={`−${formatCurrency(item.amount)}`}
+                          value={`−${formatMoney(item.amount, typedShow.results.currency)}`}
                           variant="negative"
                         />
                       ));
@@ -471,7 +648,7 @@ export default async function SharedSettlementPage({
                       <BreakdownList.Row
                         key={`buyout-exp-${index}`}
                         label={`${item.label} (buyout)`}
-                        value={`−${formatCurrency(item.amount)}`}
+                        value={`−${formatMoney(item.amount, typedShow.results.currency)}`}
                         variant="negative"
                       />
                     ));
@@ -481,7 +658,7 @@ export default async function SharedSettlementPage({
                 {typedShow.results.expenseItems.length > 1 && (
                   <BreakdownList.Row
                     label="Total Expenses"
-                    value={`−${formatCurrency(typedShow.results.totalExpenses)}`}
+                    value={`−${formatMoney(typedShow.results.totalExpenses, typedShow.results.currency)}`}
                     variant="negative"
                   />
                 )}
@@ -489,15 +666,24 @@ export default async function SharedSettlementPage({
             ) : (
               <BreakdownList.Row
                 label="Expenses"
-                value={`−${formatCurrency(typedShow.results.totalExpenses)}`}
+                value={`−${formatMoney(typedShow.results.totalExpenses, typedShow.results.currency)}`}
                 variant="negative"
               />
             )}
+            {typedShow.results.ancillary && typedShow.results.ancillary.inGross + typedShow.results.ancillary.inNet > 0 && (
+              <BreakdownList.Row
+                label="Ancillary Revenue (in gross or net)"
+                value={`+${formatMoney(typedShow.results.ancillary.inGross + typedShow.results.ancillary.inNet, typedShow.results.currency)}`}
+              />
+            )}
             <BreakdownList.Row
               label="Net Profit"
-              value={formatCurrency(typedShow.results.netProfit)}
+              value={formatMoney(typedShow.results.netProfit, typedShow.results.currency)}
               variant="highlight"
             />
+            {typedShow.results.trace && (
+              <DerivationTrace nodes={[typedShow.results.trace.netProfit]} currency={typedShow.results.currency} />
+            )}
             <BreakdownList.Divider />
             {(() => {
               const artistResults = typedShow.results.artists && typedShow.results.artists.length > 0
@@ -519,6 +705,7 @@ export default async function SharedSettlementPage({
                 ? typedShow.inputs.artists
                 : [typedShow.inputs];
               const isMulti = artistResults.length > 1;
+              const today = todayIsoDate();
 
               return artistResults.map((ar, arIdx) => {
                 const ai = artistInputs[arIdx] || {};
@@ -529,39 +716,108 @@ export default async function SharedSettlementPage({
                     {isMulti && (
                       <BreakdownList.Row label={ar.artistName} value="" variant="highlight" />
                     )}
+                    {ar.expenseTerms && (
+                      <>
+                        {ar.expenseTerms.adjustments.map((adj, adjIdx) => (
+                          <BreakdownList.Row
+                            key={`expense-adj-${adjIdx}`}
+                            label={`${adj.label} — ${describeExpenseAdjustment(adj, typedShow.results.currency)}`}
+                            value={`+${formatMoney(adj.actual - adj.deducted, typedShow.results.currency)}`}
+                            variant="success"
+                          />
+                        ))}
+                        <BreakdownList.Row
+                          label={`Expenses Charged to Artist (actual ${formatMoney(typedShow.results.totalExpenses, typedShow.results.currency)})`}
+                          value={`−${formatMoney(ar.expenseTerms.deductibleExpenses, typedShow.results.currency)}`}
+                          variant="negative"
+                        />
+                        <BreakdownList.Row label="Net for Artist Deal" value={formatMoney(ar.expenseTerms.dealNet, typedShow.results.currency)} />
+                      </>
+                    )}
+                    {ar.profitSplit && (
+                      <>
+                        <BreakdownList.Row label="Net Receipts (after tax & expenses)" value={formatMoney(ar.profitSplit.netReceipts, typedShow.results.currency)} />
+                        <BreakdownList.Row label="Less Guarantee" value={`−${formatMoney(ar.profitSplit.guarantee, typedShow.results.currency)}`} variant="negative" />
+                        <BreakdownList.Row
+                          label={`Less Promoter Profit${ar.profitSplit.promoterProfitPercent != null ? ` (${ar.profitSplit.promoterProfitPercent}% of expenses + guarantee)` : ""}`}
+                          value={`−${formatMoney(ar.profitSplit.promoterProfit, typedShow.results.currency)}`}
+                          variant="negative"
+                        />
+                        <BreakdownList.Row label={`Split Pool (split point ${formatMoney(ar.profitSplit.splitPoint, typedShow.results.currency)})`} value={formatMoney(ar.profitSplit.splitPool, typedShow.results.currency)} />
+                        <BreakdownList.Row label={`Artist Split${ar.profitSplit.artistSplitPercent != null ? ` (${ar.profitSplit.artistSplitPercent}%)` : " (escalating)"}`} value={formatMoney(ar.profitSplit.artistSplit, typedShow.results.currency)} />
+                        <BreakdownList.Row label={`Promoter Split${ar.profitSplit.artistSplitPercent != null ? ` (${100 - ar.profitSplit.artistSplitPercent}%)` : ""}`} value={formatMoney(ar.profitSplit.promoterSplit, typedShow.results.currency)} />
+                      </>
+                    )}
+                    {ar.escalator && ar.escalator.bands.map((band, bandIdx) => (
+                      <BreakdownList.Row
+                        key={`escalator-${arIdx}-${bandIdx}`}
+                        label={`${describeEscalatorBand(band, ar.escalator!.basis, typedShow.results.currency)}: ${band.percentage}% of ${formatMoney(band.baseAmount, typedShow.results.currency)}`}
+                        value={formatMoney(band.amount, typedShow.results.currency)}
+                      />
+                    ))}
                     {ar.overage != null && ar.breakeven != null && (
                       <>
                         <BreakdownList.Row
                           label="Guarantee"
-                          value={formatCurrency(ar.artistPayout - ar.overage)}
+                          value={formatMoney((ar.proRatedFrom ?? ar.artistPayout) - ar.overage - (ar.totalBonuses ?? 0) - (ar.bar?.total ?? 0), typedShow.results.currency)}
                         />
                         <BreakdownList.Row
                           label="Breakeven Point"
-                          value={formatCurrency(ar.breakeven)}
+                          value={formatMoney(ar.breakeven, typedShow.results.currency)}
                         />
                         <BreakdownList.Row
                           label="Back-End Overage"
-                          value={formatCurrency(ar.overage)}
+                          value={formatMoney(ar.overage, typedShow.results.currency)}
                         />
                       </>
                     )}
+                    {ar.bonuses && ar.bonuses.map((bonus, bonusIdx) => (
+                      <BreakdownList.Row
+                        key={`bonus-${arIdx}-${bonusIdx}`}
+                        label={`${bonus.label} (${bonus.triggered ? bonus.detail : `not reached: ${bonus.detail}`})`}
+                        value={formatMoney(bonus.amount, typedShow.results.currency)}
+                        variant={bonus.triggered ? "success" : "default"}
+                      />
+                    ))}
+                    {ar.bar && describeArtistBar(ar.bar, typedShow.results.currency).map((line, lineIdx) => (
+                      <BreakdownList.Row
+                        key={`bar-${arIdx}-${lineIdx}`}
+                        label={line.label}
+                        value={`${line.amount < 0 ? "−" : ""}${formatMoney(Math.abs(line.amount), typedShow.results.currency)}`}
+                        variant={line.amount < 0 ? "negative" : "default"}
+                      />
+                    ))}
+                    {ar.killFee != null && (
+                      <BreakdownList.Row
+                        label={`Kill Fee (${typedShow.results.outcome?.killFeePercent ?? 0}% of guarantee)`}
+                        value={formatMoney(ar.killFee, typedShow.results.currency)}
+                      />
+                    )}
+                    {ar.proRatedFrom != null && typedShow.results.outcome?.scheduledMinutes && (
+                      <BreakdownList.Row
+                        label={`Full Payout, pro-rated ${typedShow.results.outcome.performedMinutes ?? 0}/${typedShow.results.outcome.scheduledMinutes} min`}
+                        value={formatMoney(ar.proRatedFrom, typedShow.results.currency)}
+                      />
+                    )}
                     <BreakdownList.Row
                       label={
-                        ar.overage != null
-                          ? `${isMulti ? ar.artistName + ' ' : ''}Payout (Guarantee + Overage)`
-                          : ar.dealType === "percentage_of_gross"
-                          ? `${isMulti ? ar.artistName + ' ' : 'Artist '}Payout (${ai.percentage}% of Gross)`
-                          : ar.dealType === "door_deal"
-                          ? `${isMulti ? ar.artistName + ' ' : 'Artist '}Payout (${ai.percentage}% of Gross After Tax)`
-                          : `${isMulti ? ar.artistName + ' ' : 'Artist '}Payout`
+                        typedShow.results.outcome && isCancellation(typedShow.results.outcome.outcome)
+                          ? `${isMulti ? ar.artistName + ' ' : 'Artist '}Payout (Cancellation)`
+                          : `${isMulti ? ar.artistName + ' ' : 'Artist '}Payout${describePayoutBasis(ar.dealType, ai.percentage || "")}`
                       }
-                      value={formatCurrency(ar.artistPayout)}
-                      variant="success"
+                      value={formatMoney(ar.artistPayout, typedShow.results.currency)}
+                      variant={settledWithRun ? "default" : "success"}
                     />
+                    {settledWithRun && (
+                      <BreakdownList.Row
+                        label="Balance Due"
+                        value={runResult ? "Settled with the run (see Run Settlement)" : "Settled with the run"}
+                      />
+                    )}
                     {ar.withholdingAmount != null && ar.withholdingAmount > 0 && (
                       <BreakdownList.Row
                         label={`Withholding Tax (${ai.withholdingRate}%${ar.withholdingState ? `, ${ar.withholdingState}` : ''})`}
-                        value={`−${formatCurrency(ar.withholdingAmount)}`}
+                        value={`−${formatMoney(ar.withholdingAmount, typedShow.results.currency)}`}
                         variant="negative"
                       />
                     )}
@@ -570,39 +826,88 @@ export default async function SharedSettlementPage({
                         <BreakdownList.Row
                           key={`buyout-${arIdx}-${index}`}
                           label={item.label}
-                          value={`−${formatCurrency(item.amount)}`}
+                          value={`−${formatMoney(item.amount, typedShow.results.currency)}`}
                           variant="negative"
                         />
                       ))
                     )}
-                    {hasDeductions && (
+                    {ar.depositSchedule?.installments.map((inst, index) => (
+                      <BreakdownList.Row
+                        key={`deposit-${arIdx}-${index}`}
+                        label={`${describeDepositInstallment(inst, index)} · ${describeInstallmentStatus(inst, today)}`}
+                        value={formatMoney(inst.amount, typedShow.results.currency)}
+                        variant={isInstallmentOverdue(inst, today) ? "warning" : "default"}
+                      />
+                    ))}
+                    {hasDeductions && !settledWithRun && (
                       <>
                         {ar.deposit > 0 && (
                           <BreakdownList.Row
-                            label="Deposit Paid"
-                            value={`−${formatCurrency(ar.deposit)}`}
+                            label={ar.depositRefund ? "Deposit Paid (refunded to venue)" : "Deposit Paid"}
+                            value={`−${formatMoney(ar.deposit, typedShow.results.currency)}`}
                             variant="negative"
                           />
                         )}
                         <BreakdownList.Row
                           label={ar.balanceDue < 0
-                            ? "Overpayment (due back to promoter)"
+                            ? ar.depositRefund ? "Deposit Refund (due back to promoter)" : "Overpayment (due back to promoter)"
                             : "Balance Due at Settlement"}
-                          value={formatCurrency(Math.abs(ar.balanceDue))}
+                          value={formatMoney(Math.abs(ar.balanceDue), typedShow.results.currency)}
                           variant={ar.balanceDue < 0 ? "warning" : "success"}
                         />
                       </>
                     )}
+                    {ar.payoutCurrency && ar.convertedBalanceDue != null && !settledWithRun && (
+                      <BreakdownList.Row
+                        label={`${ar.balanceDue < 0 ? "Overpayment" : "Balance Due"} in ${ar.payoutCurrency} (1 ${typedShow.results.currency} = ${ar.fxRate} ${ar.payoutCurrency}${ar.fxDate ? `, ${ar.fxDate}` : ""})`}
+                        value={formatMoney(Math.abs(ar.convertedBalanceDue), ar.payoutCurrency)}
+                        variant={ar.balanceDue < 0 ? "warning" : "success"}
+                      />
+                    )}
+                    {ar.ancillaryShare != null && (
+                      <BreakdownList.Row
+                        label="Ancillary Revenue Share (split streams)"
+                        value={`+${formatMoney(ar.ancillaryShare, typedShow.results.currency)}`}
+                        variant="success"
+                      />
+                    )}
+                    {ar.ancillaryShare != null && !ar.merch && ar.totalDue != null && !settledWithRun && (
+                      <BreakdownList.Row
+                        label="Total Due to Artist"
+                        value={formatMoney(ar.totalDue, typedShow.results.currency)}
+                        variant="success"
+                      />
+                    )}
+                    {ar.trace && (
+                      <DerivationTrace
+                        nodes={[ar.trace.payout, ar.trace.overage, ar.trace.withholding].filter(
+                          (node): node is TraceNode => node != null
+                        )}
+                        currency={typedShow.results.currency}
+                      />
+                    )}
                   </div>
                 );
               });
             })()}
+            {typedShow.results.artistWaterfall && (
+              <>
+                <BreakdownList.Divider />
+                {typedShow.results.artistWaterfall.map((step, stepIdx) => (
+                  <BreakdownList.Row
+                    key={`waterfall-${stepIdx}`}
+                    label={describeWaterfallStep(step, typedShow.results.currency)}
+                    value={`${formatMoney(step.artistPayout, typedShow.results.currency)}${step.costToLaterArtists ? " (cost to later artists)" : ""}`}
+                  />
+                ))}
+              </>
+            )}
             {typedShow.results.artists && typedShow.results.artists.length > 1 && (
               <>
                 <BreakdownList.Divider />
                 <BreakdownList.Row
                   label="Total Artist Payouts"
-                  value={formatCurrency(typedShow.results.artistPayout)}
+                  value={formatMoney(typedShow.results.artistPayout, typedShow.results.currency)}
                   variant="highlight"
                 />
               </>
@@ -610,70 +915,420 @@ export default async function SharedSettlementPage({
             {typedShow.results.ccFees != null && typedShow.results.ccFees > 0 && typedShow.inputs.ccFeeMode !== 'off_top' && (
               <BreakdownList.Row
                 label={`CC Processing Fees (${typedShow.inputs.ccFeeRate}%, venue cost)`}
-                value={`−${formatCurrency(typedShow.results.ccFees)}`}
+                value={`−${formatMoney(typedShow.results.ccFees, typedShow.results.currency)}`}
                 variant="negative"
               />
             )}
+            {typedShow.results.venueFeeIncome != null && typedShow.results.venueFeeIncome > 0 && (
+              <BreakdownList.Row
+                label="Ticket Fees Retained by Venue"
+                value={formatMoney(typedShow.results.venueFeeIncome, typedShow.results.currency)}
+              />
+            )}
+            {typedShow.results.bar && !typedShow.results.venueRental && (
+              <BreakdownList.Row
+                label={describeBarNet(typedShow.results.bar, typedShow.results.currency)}
+                value={`${typedShow.results.bar.net < 0 ? "−" : ""}${formatMoney(Math.abs(typedShow.results.bar.net), typedShow.results.currency)}`}
+              />
+            )}
             <BreakdownList.Row
-              label={typedShow.results.venuePayout < 0 ? "Venue Loss" : "Promoter/House Settlement"}
-              value={`${typedShow.results.venuePayout < 0 ? '−' : ''}${formatCurrency(Math.abs(typedShow.results.venuePayout))}`}
+              label={
+                typedShow.results.venueRental
+                  ? "Promoter Proceeds (before venue rental)"
+                  : typedShow.results.venuePayout < 0 ? "Venue Loss" : "Promoter/House Settlement"
+              }
+              value={`${typedShow.results.venuePayout < 0 ? '−' : ''}${formatMoney(Math.abs(typedShow.results.venuePayout), typedShow.results.currency)}`}
               variant={typedShow.results.venuePayout < 0 ? "warning" : "warning"}
             />
+            {typedShow.results.trace && (
+              <DerivationTrace nodes={[typedShow.results.trace.venuePayout]} currency={typedShow.results.currency} />
+            )}
           </BreakdownList>
         </section>
 
-        {typedShow.results.merchGross != null && typedShow.results.merchGross > 0 && (
+        {typedShow.results.ancillary && (
+          <section className="settlement-section">
+            <h2 className="ds-section-title">Ancillary Revenue</h2>
+            <BreakdownList>
+              {typedShow.results.ancillary.lines.map((line, lineIdx) => (
+                <BreakdownList.Row
+                  key={`ancillary-${lineIdx}`}
+                  label={describeAncillaryLine(line, typedShow.results.currency)}
+                  value={formatMoney(line.amount, typedShow.results.currency)}
+                />
+              ))}
+              <BreakdownList.Row
+                label="Total Ancillary Revenue"
+                value={formatMoney(typedShow.results.ancillary.total, typedShow.results.currency)}
+                variant="highlight"
+              />
+            </BreakdownList>
+          </section>
+        )}
+
+        {typedShow.results.venueRental && (() => {
+          const rental = typedShow.results.venueRental;
+          const currency = typedShow.results.currency;
+          return (
+            <section className="settlement-section">
+              <h2 className="ds-section-title">Venue Rental Settlement</h2>
+              <BreakdownList>
+                <BreakdownList.Row label={describeVenueRent(rental, currency)} value={formatMoney(rental.rent, currency)} />
+                {(rental.houseCrew > 0 || rental.houseCrewMinimum > 0) && (
+                  <BreakdownList.Row label={describeHouseCrew(rental, currency)} value={formatMoney(rental.houseCrew, currency)} />
+                )}
+                {rental.barShortfall > 0 && (
+                  <BreakdownList.Row label={describeBarShortfall(rental, currency)} value={formatMoney(rental.barShortfall, currency)} />
+                )}
+                {!!rental.artistBarCredit && (
+                  <BreakdownList.Row
+                    label={ARTIST_BAR_CREDIT_LABEL}
+                    value={formatAdjustmentAmount(-rental.artistBarCredit, currency)}
+                    variant="negative"
+                  />
+                )}
+                <BreakdownList.Row label="Total Owed to Venue" value={formatMoney(rental.totalOwed, currency)} />
+                {rental.deposit > 0 && (
+                  <BreakdownList.Row label="Rental Deposit Paid" value={`−${formatMoney(rental.deposit, currency)}`} variant="negative" />
+                )}
+                <BreakdownList.Row
+                  label={rental.balanceDue < 0 ? "Venue Owes Promoter" : "Balance Due to Venue"}
+                  value={formatMoney(Math.abs(rental.balanceDue), currency)}
+                  variant="highlight"
+                />
+                <BreakdownList.Row
+                  label={rental.promoterNet < 0 ? "Promoter Loss" : "Remaining for Promoter"}
+                  value={`${rental.promoterNet < 0 ? "−" : ""}${formatMoney(Math.abs(rental.promoterNet), currency)}`}
+                  variant={rental.promoterNet < 0 ? "warning" : "success"}
+                />
+              </BreakdownList>
+            </section>
+          );
+        })()}
+
+        {hasArtistMerch && (
+          <section className="settlement-section">
+            <h2 className="ds-section-title">Merch Settlement</h2>
+            <BreakdownList>
+              {typedShow.results.artists.flatMap((ar, arIdx) => {
+                const merch = ar.merch;
+                if (!merch) return [];
+                const currency = typedShow.results.currency;
+                const suffix = typedShow.results.artists.length > 1 ? ` — ${ar.artistName}` : "";
+                return [
+                  ...(arIdx > 0 ? [<BreakdownList.Divider key={`merch-${arIdx}-divider`} />] : []),
+                  <BreakdownList.Row key={`merch-${arIdx}-soft`} label={`Soft Goods Sales${suffix}`} value={formatMoney(merch.softGross, currency)} />,
+                  <BreakdownList.Row key={`merch-${arIdx}-hard`} label={`Hard Goods Sales${suffix}`} value={formatMoney(merch.hardGross, currency)} />,
+                  ...(merch.tax > 0
+                    ? [<BreakdownList.Row key={`merch-${arIdx}-tax`} label={`Merch Sales Tax${suffix}`} value={`−${formatMoney(merch.tax, currency)}`} variant="negative" />]
+                    : []),
+                  ...(merch.cardFees > 0
+                    ? [<BreakdownList.Row key={`merch-${arIdx}-card`} label={`Merch Card Fees${suffix}`} value={`−${formatMoney(merch.cardFees, currency)}`} variant="negative" />]
+                    : []),
+                  <BreakdownList.Row
+                    key={`merch-${arIdx}-soft-cut`}
+                    label={`${describeMerchVenueCut("soft", merch.softVenuePercent)}${suffix}`}
+                    value={`−${formatMoney(merch.softVenueCut, currency)}`}
+                    variant="negative"
+                  />,
+                  <BreakdownList.Row
+                    key={`merch-${arIdx}-hard-cut`}
+                    label={`${describeMerchVenueCut("hard", merch.hardVenuePercent)}${suffix}`}
+                    value={`−${formatMoney(merch.hardVenueCut, currency)}`}
+                    variant="negative"
+                  />,
+                  ...(merch.sellerFee != null
+                    ? [<BreakdownList.Row key={`merch-${arIdx}-seller`} label={`Seller Fee${suffix}`} value={`−${formatMoney(merch.sellerFee, currency)}`} variant="negative" />]
+                    : []),
+                  <BreakdownList.Row key={`merch-${arIdx}-net`} label={`Net Merch to Artist${suffix}`} value={formatMoney(merch.netToArtist, currency)} variant="success" />,
+                  ...(settledWithRun
+                    ? []
+                    : [
+                        <BreakdownList.Row key={`merch-${arIdx}-balance`} label={`Show Balance Due${suffix}`} value={formatMoney(ar.balanceDue, currency)} />,
+                        <BreakdownList.Row
+                          key={`merch-${arIdx}-total`}
+                          label={`Total Due to Artist${suffix}`}
+                          value={formatMoney(ar.totalDue ?? ar.balanceDue, currency)}
+                          variant="success"
+                        />,
+                      ]),
+                  ...(merch.inventory
+                    ? [
+                        ...merch.inventory.lines.map((line, lineIdx) => (
+                          <BreakdownList.Row
+                            key={`merch-${arIdx}-inventory-${lineIdx}`}
+                            label={`${describeInventoryLine(line, currency)}${suffix}`}
+                            value={formatMoney(line.expectedGross, currency)}
+                            variant={line.unitsSold < 0 ? "warning" : undefined}
+                          />
+                        )),
+                        <BreakdownList.Row key={`merch-${arIdx}-cash`} label={`Merch Cash Reported${suffix}`} value={formatMoney(merch.inventory.cash, currency)} />,
+                        <BreakdownList.Row key={`merch-${arIdx}-card-reported`} label={`Merch Card Reported${suffix}`} value={formatMoney(merch.inventory.card, currency)} />,
+                        <BreakdownList.Row
+                          key={`merch-${arIdx}-variance`}
+                          label={`${describeMerchInventoryVariance(merch.inventory, currency)}${suffix}`}
+                          value={`${merch.inventory.variance < 0 ? "−" : merch.inventory.variance > 0 ? "+" : ""}${formatMoney(Math.abs(merch.inventory.variance), currency)}`}
+                          variant={merch.inventory.variance === 0 ? "success" : "warning"}
+                        />,
+                      ]
+                    : []),
+                ];
+              })}
+            </BreakdownList>
+          </section>
+        )}
+
+        {typedShow.results.merchGross != null && typedShow.results.merchGross > 0 && !hasArtistMerch && (
           <section className="settlement-section">
             <h2 className="ds-section-title">Merch Settlement</h2>
             <BreakdownList>
               <BreakdownList.Row
                 label="Gross Merch Sales"
-                value={formatCurrency(typedShow.results.merchGross)}
+                value={formatMoney(typedShow.results.merchGross, typedShow.results.currency)}
               />
               <BreakdownList.Row
                 label={`Venue Merch Cut (${typedShow.inputs.merchVenuePercent || '0'}%)`}
-                value={`−${formatCurrency(typedShow.results.merchVenueCut ?? 0)}`}
+                value={`−${formatMoney(typedShow.results.merchVenueCut ?? 0, typedShow.results.currency)}`}
                 variant="negative"
               />
               <BreakdownList.Row
                 label="Net Merch to Artist"
-                value={formatCurrency(typedShow.results.merchNetToArtist ?? 0)}
+                value={formatMoney(typedShow.results.merchNetToArtist ?? 0, typedShow.results.currency)}
                 variant="success"
               />
             </BreakdownList>
           </section>
         )}
 
-        {typedShow.results.totalDueToArtist != null && (
+        {typedShow.results.totalDueToArtist != null && !hasArtistMerch && !settledWithRun && (
           <section className="settlement-section">
             <h2 className="ds-section-title">Total</h2>
             <BreakdownList>
               <BreakdownList.Row
                 label="Show Balance Due"
-                value={formatCurrency(
+                value={formatMoney(
                   typedShow.results.deposit != null && typedShow.results.deposit > 0
                     ? (typedShow.results.balanceDue ?? typedShow.results.artistPayout)
                     : typedShow.results.artistPayout
-                )}
+                , typedShow.results.currency)}
               />
               <BreakdownList.Row
                 label="Net Merch to Artist"
-                value={formatCurrency(typedShow.results.merchNetToArtist ?? 0)}
+                value={formatMoney(typedShow.results.merchNetToArtist ?? 0, typedShow.results.currency)}
               />
               <BreakdownList.Row
                 label="Total Due to Artist"
-                value={formatCurrency(typedShow.results.totalDueToArtist)}
+                value={formatMoney(typedShow.results.totalDueToArtist, typedShow.results.currency)}
                 variant="success"
               />
             </BreakdownList>
           </section>
         )}
 
-        {/* Acknowledgment */}
-        <AcknowledgeForm
-          token={token}
-          initialAcknowledgments={typedShow.results.acknowledgments || []}
-        />
+        {/* Adjustments Ledger — post-settlement refunds, chargebacks and corrections */}
+        {amended && (
+          <section className="settlement-section">
+            <h2 className="ds-section-title">Adjustments Ledger</h2>
+            <BreakdownList>
+              <BreakdownList.Row
+                label="Balance Due as Settled"
+                value={formatMoney(amended.originalBalance, typedShow.results.currency)}
+              />
+              {adjustments.map((entry) => (
+                <BreakdownList.Row
+                  key={entry.id}
+                  label={describeAdjustment(entry)}
+                  value={formatAdjustmentAmount(entry.amount, typedShow.results.currency)}
+                  variant={entry.amount < 0 ? "negative" : undefined}
+                />
+              ))}
+              <BreakdownList.Row
+                label="Artist Share of Adjustments"
+                value={formatAdjustmentAmount(amended.artistAdjustments, typedShow.results.currency)}
+              />
+              <BreakdownList.Row
+                label="Venue Share of Adjustments"
+                value={formatAdjustmentAmount(amended.venueAdjustments, typedShow.results.currency)}
+              />
+              <BreakdownList.Divider />
+              <BreakdownList.Row
+                label="Amended Balance Due"
+                value={formatMoney(amended.amendedBalance, typedShow.results.currency)}
+                variant="success"
+              />
+              <BreakdownList.Row
+                label="Amended Promoter/House Settlement"
+                value={formatMoney(amended.amendedVenuePayout, typedShow.results.currency)}
+                variant="warning"
+              />
+            </BreakdownList>
+          </section>
+        )}
+
+        {/* Run Settlement — the run's deal applied once to all nights, for the run's owner */}
+        {runResult && viewerOwnsRun && (
+          <section className="settlement-section">
+            <h2 className="ds-section-title">Run Settlement — {run?.title || runResult.runName}</h2>
+            <p className="settlement-run-note">
+              This night is cross-collateralized with the rest of the run: the artist deal is settled once on the run totals, and replaces this night&apos;s own artist payout above.
+            </p>
+            <BreakdownList>
+              <BreakdownList.Row
+                label={`Run Gross Revenue (${runResult.nights.length} nights, ${runResult.totalTicketsSold} sold)`}
+                value={formatMoney(runResult.grossRevenue, runResult.currency)}
+              />
+              <BreakdownList.Row
+                label="Run Taxes"
+                value={`−${formatMoney(runResult.taxAmount, runResult.currency)}`}
+                variant="negative"
+              />
+              <BreakdownList.Row
+                label="Run Expenses"
+                value={`−${formatMoney(runResult.totalExpenses, runResult.currency)}`}
+                variant="negative"
+              />
+              <BreakdownList.Row
+                label="Run Net"
+                value={`${runResult.netProfit < 0 ? "−" : ""}${formatMoney(Math.abs(runResult.netProfit), runResult.currency)}`}
+                variant="highlight"
+              />
+              {runResult.artistWaterfall && runResult.artistWaterfall.map((step, stepIdx) => (
+                <BreakdownList.Row
+                  key={`run-waterfall-${stepIdx}`}
+                  label={describeWaterfallStep(step, runResult.currency)}
+                  value={`${formatMoney(step.artistPayout, runResult.currency)}${step.costToLaterArtists ? " (cost to later artists)" : ""}`}
+                />
+              ))}
+              {runResult.artists.map((ar, arIdx) => (
+                <div key={`run-artist-${arIdx}`}>
+                  {ar.expenseTerms && (
+                    <BreakdownList.Row
+                      label={`${ar.artistName} Deal Net (expenses charged ${formatMoney(ar.expenseTerms.deductibleExpenses, runResult.currency)})`}
+                      value={formatMoney(ar.expenseTerms.dealNet, runResult.currency)}
+                    />
+                  )}
+                  {ar.breakeven != null && ar.overage != null && (
+                    <BreakdownList.Row
+                      label={`${ar.artistName} Back-End Overage (breakeven ${formatMoney(ar.breakeven, runResult.currency)})`}
+                      value={formatMoney(ar.overage, runResult.currency)}
+                    />
+                  )}
+                  <BreakdownList.Row
+                    label={`${ar.artistName} Run Payout (${describeDealType(ar.dealType)})`}
+                    value={formatMoney(ar.artistPayout, runResult.currency)}
+                    variant="success"
+                  />
+                  {ar.deposit > 0 && (
+                    <BreakdownList.Row
+                      label="Deposit Paid"
+                      value={`−${formatMoney(ar.deposit, runResult.currency)}`}
+                      variant="negative"
+                    />
+                  )}
+                  <BreakdownList.Row
+                    label={ar.balanceDue < 0 ? "Overpayment (due back to promoter)" : "Balance Due at Run Settlement"}
+                    value={formatMoney(Math.abs(ar.balanceDue), runResult.currency)}
+                    variant={ar.balanceDue < 0 ? "warning" : "success"}
+                  />
+                  {ar.totalDue != null && (
+                    <>
+                      {ar.totalDue - ar.balanceDue - (ar.ancillaryShare ?? 0) !== 0 && (
+                        <BreakdownList.Row
+                          label="Net Merch to Artist (all nights)"
+                          value={formatMoney(ar.totalDue - ar.balanceDue - (ar.ancillaryShare ?? 0), runResult.currency)}
+                        />
+                      )}
+                      {ar.ancillaryShare != null && (
+                        <BreakdownList.Row
+                          label="Ancillary Revenue Share (split streams, all nights)"
+                          value={`+${formatMoney(ar.ancillaryShare, runResult.currency)}`}
+                        />
+                      )}
+                      <BreakdownList.Row
+                        label={`Total Due to ${ar.artistName}`}
+                        value={formatMoney(ar.totalDue, runResult.currency)}
+                        variant="success"
+                      />
+                    </>
+                  )}
+                </div>
+              ))}
+              <BreakdownList.Row
+                label={runResult.venuePayout < 0 ? "Run Venue Loss" : "Run Promoter/House Settlement"}
+                value={`${runResult.venuePayout < 0 ? "−" : ""}${formatMoney(Math.abs(runResult.venuePayout), runResult.currency)}`}
+                variant="warning"
+              />
+            </BreakdownList>
+
+            <h3 className="settlement-run-subtitle">Night-by-Night</h3>
+            <BreakdownList>
+              {runResult.nights.map((night, nightIdx) => (
+                <div key={`run-night-${nightIdx}`}>
+                  {nightIdx > 0 && <BreakdownList.Divider />}
+                  <BreakdownList.Row
+                    label={`${night.title}${night.showDate ? ` — ${new Date(night.showDate).toLocaleDateString()}` : ""} (${night.totalTicketsSold} sold)`}
+                    value={formatMoney(night.grossRevenue, runResult.currency)}
+                    variant={night.showId === typedShow.id ? "highlight" : "default"}
+                  />
+                  <BreakdownList.Row
+                    label="Taxes and Expenses"
+                    value={`−${formatMoney(night.taxAmount + night.totalExpenses, runResult.currency)}`}
+                    variant="negative"
+                  />
+                  <BreakdownList.Row
+                    label="Share of Artist Payout (by gross)"
+                    value={`−${formatMoney(night.artistShare, runResult.currency)}`}
+                    variant="negative"
+                  />
+                  <BreakdownList.Row
+                    label="Promoter/House"
+                    value={`${night.venuePayout < 0 ? "−" : ""}${formatMoney(Math.abs(night.venuePayout), runResult.currency)}`}
+                  />
+                </div>
+              ))}
+            </BreakdownList>
+          </section>
+        )}
+
+        {/* Run Settlement — this night's part of the run's deal; other nights stay with their own links */}
+        {runResult && runNight && !viewerOwnsRun && (
+          <section className="settlement-section">
+            <h2 className="ds-section-title">Run Settlement</h2>
+            <p className="settlement-run-note">
+              This night is cross-collateralized with other nights: the artist deal is settled once on their totals, and this night&apos;s share of that payout replaces its own artist payout above.
+            </p>
+            <BreakdownList>
+              <BreakdownList.Row
+                label={`${runNight.title}${runNight.showDate ? ` — ${new Date(runNight.showDate).toLocaleDateString()}` : ""} (${runNight.totalTicketsSold} sold)`}
+                value={formatMoney(runNight.grossRevenue, runResult.currency)}
+                variant="highlight"
+              />
+              <BreakdownList.Row
+                label="Taxes and Expenses"
+                value={`−${formatMoney(runNight.taxAmount + runNight.totalExpenses, runResult.currency)}`}
+                variant="negative"
+              />
+              <BreakdownList.Row
+                label="Share of Run Artist Payout (by gross)"
+                value={`−${formatMoney(runNight.artistShare, runResult.currency)}`}
+                variant="negative"
+              />
+              <BreakdownList.Row
+                label={runNight.venuePayout < 0 ? "Venue Loss" : "Promoter/House"}
+                value={`${runNight.venuePayout < 0 ? "−" : ""}${formatMoney(Math.abs(runNight.venuePayout), runResult.currency)}`}
+                variant="warning"
+              />
+            </BreakdownList>
+          </section>
+        )}
+
+        {/* Acknowledgment — a run night's figures are acknowledged with the run, not on their own */}
+        {!settledWithRun && (
+          <AcknowledgeForm
+            token={token}
+            initialAcknowledgments={typedShow.results.acknowledgments || []}
+          />
+        )}
 
         {/* Footer */}
         <footer className="ds-card-footer">
@@ -0,0 +1,45 @@
+import { createClient } from "@/lib/supabase/server";
+import { computeRunSettlement, type RunComputeOutput } from "@/lib/settlement/run";
+import { readStoredRunInput } from "@/lib/settlement/stored-input";
+
+/**
+ * Re-settles a run from its nights' saved inputs and stores the result on
+ * the run (server-side). A run that no longer settles keeps its last
+ * settlement, and the error is returned for the caller to report.
+ */
+export async function recomputeRun(runId: string, userId: string): Promise<RunComputeOutput> {
+  const supabase = await createClient();
+
+  const { data: run, error: runError } = await supabase
+    .from("runs")
+    .select("id, title")
+    .eq("id", runId)
+    .eq("user_id", userId)
+    .single();
+  if (runError || !run) {
+    return { ok: false, error: "Run not found or access denied" };
+  }
+
+  const { data: shows, error: showsError } = await supabase
+    .from("shows")
+    .select("id, title, show_date, inputs")
+    .eq("run_id", runId)
+    .eq("user_id", userId);
+  if (showsError) {
+    console.error("Error fetching run nights:", showsError);
+    return { ok: false, error: showsError.message };
+  }
+
+  const output = computeRunSettlement(readStoredRunInput(run.title || "", shows || []));
+  if (!output.ok) return output;
+  const { error: updateError } = await supabase
+    .from("runs")
+    .update({ results: output.result })
+    .eq("id", runId)
+    .eq("user_id", userId);
+  if (updateError) {
+    console.error("Error updating run results:", updateError);
+    return { ok: false, error: updateError.message };
+  }
+  return output;
+}
@@ -0,0 +1,122 @@
+/**
+ * Post-settlement adjustments ledger (`show_adjustments`). Refunds,
+ * chargebacks and late invoices arrive after a settlement is signed; they are
+ * appended here instead of editing inputs, so the original settlement stays
+ * frozen and the ledger produces an amended balance on top of it.
+ */
+
+import type { CalculationResult } from "./calculate";
+import { applyRate, formatMoney, percentToRate, sumMoney, type Money } from "./money";
+
+export type AdjustmentKind = "refund" | "chargeback" | "late_invoice" | "correction";
+
+export const ADJUSTMENT_KINDS: { kind: AdjustmentKind; label: string }[] = [
+  { kind: "refund", label: "Refund" },
+  { kind: "chargeback", label: "Chargeback" },
+  { kind: "late_invoice", label: "Late Invoice" },
+  { kind: "correction", label: "Correction" },
+];
+
+export interface SettlementAdjustment {
+  id: string;
+  kind: AdjustmentKind;
+  /** YYYY-MM-DD the adjustment applies from. */
+  entryDate: string;
+  /** Signed: negative takes money out of the settlement, positive adds to it. */
+  amount: Money;
+  reason: string;
+  /** Share of the amount borne by the artist; the venue bears the rest. */
+  artistSharePercent: number;
+  createdAt?: string;
+}
+
+export interface AmendedBalance {
+  /** Balance due to the artist(s) on the frozen settlement, merch included. */
+  originalBalance: Money;
+  originalVenuePayout: Money;
+  artistAdjustments: Money;
+  venueAdjustments: Money;
+  amendedBalance: Money;
+  amendedVenuePayout: Money;
+}
+
+export function isAdjustmentKind(value: unknown): value is AdjustmentKind {
+  return ADJUSTMENT_KINDS.some(({ kind }) => kind === value);
+}
+
+/** A real calendar date as YYYY-MM-DD, which `show_adjustments.entry_date` requires. */
+export function isEntryDate(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/** Reads rows from `show_adjustments`, oldest first. */
+export function readStoredAdjustments(
+  rows: {
+    id: string;
+    kind: string;
+    entry_date: string;
+    amount_cents: number | string;
+    reason: string | null;
+    artist_share_percent: number | string;
+    created_at?: string;
+  }[] | null
+): SettlementAdjustment[] {
+  return (rows ?? [])
+    .filter((row) => isAdjustmentKind(row.kind))
+    .map((row) => ({
+      id: row.id,
+      kind: row.kind as AdjustmentKind,
+      entryDate: row.entry_date,
+      amount: Number(row.amount_cents) || 0,
+      reason: row.reason || "",
+      artistSharePercent: Number(row.artist_share_percent) || 0,
+      createdAt: row.created_at,
+    }))
+    .sort((a, b) => a.entryDate.localeCompare(b.entryDate) || (a.createdAt ?? "").localeCompare(b.createdAt ?? ""));
+}
+
+/** The artist's part of an adjustment; the venue's part is the remainder. */
+export function adjustmentArtistShare(entry: SettlementAdjustment): Money {
+  const share = applyRate(Math.abs(entry.amount), percentToRate(entry.artistSharePercent));
+  return entry.amount < 0 ? -share : share;
+}
+
+export function settlementArtistBalance(result: CalculationResult): Money {
+  if (result.artists.length > 0) {
+    return sumMoney(result.artists.map((a) => a.totalDue ?? a.balanceDue));
+  }
+  return result.totalDueToArtist ?? result.balanceDue;
+}
+
+export function amendSettlement(result: CalculationResult, entries: SettlementAdjustment[]): AmendedBalance {
+  const originalBalance = settlementArtistBalance(result);
+  const artistAdjustments = sumMoney(entries.map(adjustmentArtistShare));
+  const venueAdjustments = sumMoney(entries.map((entry) => entry.amount - adjustmentArtistShare(entry)));
+  return {
+    originalBalance,
+    originalVenuePayout: result.venuePayout,
+    artistAdjustments,
+    venueAdjustments,
+    amendedBalance: originalBalance + artistAdjustments,
+    amendedVenuePayout: result.venuePayout + venueAdjustments,
+  };
+}
+
+/** e.g. "Chargeback (2026-11-02): Disputed card sale — 50% artist / 50% venue". */
+export function describeAdjustment(entry: SettlementAdjustment): string {
+  const kind = ADJUSTMENT_KINDS.find((k) => k.kind === entry.kind)?.label ?? entry.kind;
+  const allocation =
+    entry.artistSharePercent >= 100
+      ? "artist"
+      : entry.artistSharePercent <= 0
+      ? "venue"
+      : `${entry.artistSharePercent}% artist / ${100 - entry.artistSharePercent}% venue`;
+  return `${kind} (${entry.entryDate})${entry.reason ? `: ${entry.reason}` : ""} — ${allocation}`;
+}
+
+/** e.g. "−$120.00" / "+$40.00". */
+export function formatAdjustmentAmount(amount: Money, currency: string): string {
+  return `${amount < 0 ? "−" : amount > 0 ? "+" : ""}${formatMoney(Math.abs(amount), currency)}`;
+}
@@ -0,0 +1,114 @@
+/**
+ * Ancillary revenue: parking, coat check, VIP upgrades, meet-and-greets,
+ * sponsorship and the like. Each stream says how it enters the settlement:
+ * counted in the gross (so every deal sees it), counted in the net only
+ * (so only net-based deals see it), kept by the venue, or split directly
+ * with one artist at its own percentage (the headliner unless another
+ * artist is named).
+ */
+
+import { applyRate, formatMoney, percentToRate, sumMoney, type Money } from "./money";
+
+export type AncillaryCategory = "parking" | "coat_check" | "vip_upgrade" | "meet_and_greet" | "sponsorship" | "other";
+
+export const ANCILLARY_CATEGORIES: { category: AncillaryCategory; label: string }[] = [
+  { category: "parking", label: "Parking" },
+  { category: "coat_check", label: "Coat Check" },
+  { category: "vip_upgrade", label: "VIP Upgrades" },
+  { category: "meet_and_greet", label: "Meet & Greet" },
+  { category: "sponsorship", label: "Sponsorship" },
+  { category: "other", label: "Other" },
+];
+
+export type AncillaryInclusion = "gross" | "net" | "venue_only" | "split";
+
+export const ANCILLARY_INCLUSIONS: { inclusion: AncillaryInclusion; label: string }[] = [
+  { inclusion: "gross", label: "In gross" },
+  { inclusion: "net", label: "In net only" },
+  { inclusion: "venue_only", label: "Venue only" },
+  { inclusion: "split", label: "Split with artist" },
+];
+
+export interface AncillaryRevenueInput {
+  category: string;
+  /** Optional description, e.g. the sponsor's name. */
+  label?: string;
+  amount: string;
+  inclusion: string;
+  /** Split streams: the artist's percentage. */
+  artistSharePercent?: string;
+  /** Split streams: id of the artist paid the share; blank means the first artist. */
+  artistId?: string;
+}
+
+export interface ParsedAncillaryRevenue {
+  category: AncillaryCategory;
+  label?: string;
+  amount: Money;
+  inclusion: AncillaryInclusion;
+  artistSharePercent: number;
+  /** Split streams: the artist paid the share, by lineup position and name. */
+  artistIndex?: number;
+  artistName?: string;
+}
+
+export interface AncillaryRevenueLine extends ParsedAncillaryRevenue {
+  /** Paid directly to the artist; set for split streams. */
+  artistShare: Money;
+}
+
+export interface AncillaryRevenueSummary {
+  lines: AncillaryRevenueLine[];
+  total: Money;
+  /** Added to the gross every deal settles against. */
+  inGross: Money;
+  /** Added to the net only. */
+  inNet: Money;
+  venueOnly: Money;
+  /** Split streams: the artist's and venue's parts. */
+  artistShare: Money;
+  venueShare: Money;
+}
+
+export function normalizeAncillaryCategory(value: string | undefined): AncillaryCategory {
+  return ANCILLARY_CATEGORIES.some(({ category }) => category === value) ? (value as AncillaryCategory) : "other";
+}
+
+export function normalizeAncillaryInclusion(value: string | undefined): AncillaryInclusion {
+  return ANCILLARY_INCLUSIONS.some(({ inclusion }) => inclusion === value) ? (value as AncillaryInclusion) : "venue_only";
+}
+
+/** A split stream with no artist to pay (no artistIndex) stays whole with the venue. */
+export function summarizeAncillaryRevenue(streams: ParsedAncillaryRevenue[]): AncillaryRevenueSummary {
+  const lines = streams.map((stream) => ({
+    ...stream,
+    artistShare:
+      stream.inclusion === "split" && stream.artistIndex != null
+        ? applyRate(stream.amount, percentToRate(stream.artistSharePercent))
+        : 0,
+  }));
+  const total = (inclusion: AncillaryInclusion) =>
+    sumMoney(lines.filter((line) => line.inclusion === inclusion).map((line) => line.amount));
+  const artistShare = sumMoney(lines.map((line) => line.artistShare));
+  return {
+    lines,
+    total: sumMoney(lines.map((line) => line.amount)),
+    inGross: total("gross"),
+    inNet: total("net"),
+    venueOnly: total("venue_only"),
+    artistShare,
+    venueShare: total("split") - artistShare,
+  };
+}
+
+/** e.g. "Sponsorship: Acme Beer — split 25% to The Band ($250.00)". */
+export function describeAncillaryLine(line: AncillaryRevenueLine, currency: string): string {
+  const category = ANCILLARY_CATEGORIES.find((c) => c.category === line.category)?.label ?? line.category;
+  const name = line.label ? `${category}: ${line.label}` : category;
+  if (line.inclusion === "split" && line.artistIndex == null) return `${name} — split, kept by the venue (no artist to pay)`;
+  if (line.inclusion === "split") {
+    return `${name} — split ${line.artistSharePercent}% to ${line.artistName || "artist"} (${formatMoney(line.artistShare, currency)})`;
+  }
+  const inclusion = ANCILLARY_INCLUSIONS.find((i) => i.inclusion === line.inclusion)?.label.toLowerCase();
+  return `${name} — ${inclusion}`;
+}
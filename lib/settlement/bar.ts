@@ -0,0 +1,123 @@
+/**
+ * Bar / food-and-beverage deals. The show records the bar ring and its cost
+ * of goods; each artist can take a percentage of the ring (gross) or of the
+ * ring after cost of goods (net), and can carry a bar guarantee that either
+ * tops up that share to a guaranteed amount or, as a bar minimum, has its
+ * shortfall offset against the artist's guarantee.
+ */
+
+import { applyRate, formatMoney, percentToRate, type Money } from "./money";
+
+export type BarShareBasis = "gross" | "net";
+
+/**
+ * top_up — the artist's bar share is guaranteed to be at least the amount.
+ * offset — a bar minimum; a ring short of it comes off the artist's guarantee.
+ */
+export type BarGuaranteeMode = "top_up" | "offset";
+
+export interface ArtistBarInput {
+  sharePercent: string;
+  shareBasis?: string;
+  guarantee: string;
+  guaranteeMode?: string;
+}
+
+export interface ParsedArtistBar {
+  sharePercent: number;
+  shareBasis: BarShareBasis;
+  guarantee: Money;
+  guaranteeMode: BarGuaranteeMode;
+}
+
+export interface BarRevenue {
+  gross: Money;
+  costOfGoods: Money;
+  /** gross − costOfGoods; may be negative. */
+  net: Money;
+}
+
+export interface ArtistBarResult {
+  sharePercent: number;
+  shareBasis: BarShareBasis;
+  /** Bar gross or net the share was taken on. */
+  basisAmount: Money;
+  share: Money;
+  guarantee: Money;
+  guaranteeMode: BarGuaranteeMode;
+  /** Amount added to reach a guaranteed bar share. */
+  topUp: Money;
+  /** Bar minimum shortfall taken off the artist's guarantee. */
+  offset: Money;
+  /** share + topUp − offset; included in artistPayout. */
+  total: Money;
+}
+
+export function normalizeBarShareBasis(value: string | undefined): BarShareBasis {
+  return value === "net" ? "net" : "gross";
+}
+
+export function normalizeBarGuaranteeMode(value: string | undefined): BarGuaranteeMode {
+  return value === "offset" ? "offset" : "top_up";
+}
+
+export function barRevenue(gross: Money, costOfGoods: Money): BarRevenue {
+  return { gross, costOfGoods, net: gross - costOfGoods };
+}
+
+/**
+ * `guarantee` is the artist's deal guarantee: a bar minimum shortfall is
+ * never offset past it, or past the deal payout when that is smaller.
+ */
+export function settleArtistBar(
+  terms: ParsedArtistBar,
+  bar: BarRevenue,
+  guarantee: Money,
+  dealPayout: Money
+): ArtistBarResult {
+  const basisAmount = Math.max(terms.shareBasis === "net" ? bar.net : bar.gross, 0);
+  const share = applyRate(basisAmount, percentToRate(terms.sharePercent));
+  const topUp = terms.guaranteeMode === "top_up" ? Math.max(terms.guarantee - share, 0) : 0;
+  const offset =
+    terms.guaranteeMode === "offset"
+      ? Math.min(Math.max(terms.guarantee - bar.gross, 0), Math.min(guarantee, dealPayout))
+      : 0;
+  return {
+    sharePercent: terms.sharePercent,
+    shareBasis: terms.shareBasis,
+    basisAmount,
+    share,
+    guarantee: terms.guarantee,
+    guaranteeMode: terms.guaranteeMode,
+    topUp,
+    offset,
+    total: share + topUp - offset,
+  };
+}
+
+/** Breakdown lines for an artist's bar deal, e.g. "Bar Share (10% of bar net $4,000.00)". */
+export function describeArtistBar(bar: ArtistBarResult, currency: string): { label: string; amount: Money }[] {
+  const lines: { label: string; amount: Money }[] = [];
+  if (bar.sharePercent > 0) {
+    lines.push({
+      label: `Bar Share (${bar.sharePercent}% of bar ${bar.shareBasis} ${formatMoney(bar.basisAmount, currency)})`,
+      amount: bar.share,
+    });
+  }
+  if (bar.topUp > 0) {
+    lines.push({ label: `Bar Guarantee Top-Up (guaranteed ${formatMoney(bar.guarantee, currency)})`, amount: bar.topUp });
+  }
+  if (bar.offset > 0) {
+    lines.push({
+      label: `Bar Minimum Shortfall (minimum ${formatMoney(bar.guarantee, currency)}, offset against guarantee)`,
+      amount: -bar.offset,
+    });
+  }
+  return lines;
+}
+
+/** e.g. "Bar Net ($6,000.00 ring less $1,500.00 cost of goods)". */
+export function describeBarNet(bar: BarRevenue, currency: string): string {
+  if (bar.costOfGoods <= 0) return "Bar Ring";
+  return `Bar Net (${formatMoney(bar.gross, currency)} ring less ${formatMoney(bar.costOfGoods, currency)} cost of goods)`;
+}
@@ -0,0 +1,129 @@
+/**
+ * Artist bonus clauses: sellout, tickets-sold and gross thresholds,
+ * paid as a flat amount or stepped ("+$500 per 100 tickets over 800").
+ */
+
+import { formatMoney, sumMoney, type Money } from "./money";
+import { parseMoneyNonNegative, parseTicketCount, warnIfNotNumeric } from "./parse";
+
+export type BonusTrigger = "sellout" | "tickets" | "gross";
+export type BonusAmountMode = "flat" | "stepped";
+
+export interface BonusClauseInput {
+  id?: string;
+  label: string;
+  trigger: string;
+  /** Tickets (tickets trigger) or money (gross trigger); unused for sellout. */
+  threshold: string;
+  amountMode: string;
+  amount: string;
+  /** Stepped only: tickets or money per step above the threshold. */
+  step?: string;
+}
+
+export interface BonusResult {
+  label: string;
+  trigger: BonusTrigger;
+  triggered: boolean;
+  amount: Money;
+  /** How the bonus was evaluated, e.g. "412 sold vs 400 capacity". */
+  detail: string;
+}
+
+export interface BonusContext {
+  totalTicketsSold: number;
+  capacity: number;
+  grossRevenue: Money;
+  currency: string;
+}
+
+const TRIGGER_LABELS: Record<BonusTrigger, string> = {
+  sellout: "Sellout bonus",
+  tickets: "Attendance bonus",
+  gross: "Gross bonus",
+};
+
+function normalizeTrigger(value: string): BonusTrigger | null {
+  return value === "sellout" || value === "tickets" || value === "gross" ? value : null;
+}
+
+export function evaluateBonusClauses(
+  clauses: BonusClauseInput[] | undefined,
+  ctx: BonusContext,
+  fieldPrefix: string,
+  warnings: string[]
+): { bonuses: BonusResult[]; totalBonuses: Money } {
+  const bonuses: BonusResult[] = [];
+
+  for (const clause of clauses ?? []) {
+    const trigger = normalizeTrigger(clause.trigger);
+    if (!trigger || (!clause.label.trim() && !clause.amount.trim())) continue;
+
+    const label = clause.label.trim() || TRIGGER_LABELS[trigger];
+    const fieldName = `${fieldPrefix} "${label}"`;
+    // Unquoted for the parse warnings, which quote a non-numeric field name themselves.
+    const inputName = `${fieldPrefix} ${label}`;
+    warnIfNotNumeric(clause.amount, `${inputName} Amount`, warnings);
+    const amount = parseMoneyNonNegative(clause.amount, `${inputName} Amount`, warnings);
+    if (amount <= 0) {
+      warnings.push(`${fieldName} has no bonus amount — ignored.`);
+      continue;
+    }
+    const stepped = clause.amountMode === "stepped" && trigger !== "sellout";
+
+    if (trigger === "sellout") {
+      if (ctx.capacity <= 0) {
+        warnings.push(`${fieldName} needs a venue capacity to evaluate a sellout.`);
+        bonuses.push({ label, trigger, triggered: false, amount: 0, detail: "no capacity entered" });
+        continue;
+      }
+      const triggered = ctx.totalTicketsSold >= ctx.capacity;
+      bonuses.push({
+        label,
+        trigger,
+        triggered,
+        amount: triggered ? amount : 0,
+        detail: `${ctx.totalTicketsSold} sold vs ${ctx.capacity} capacity`,
+      });
+      continue;
+    }
+
+    const isTickets = trigger === "tickets";
+    // Ticket figures are whole counts; gross figures are money.
+    const parseFigure = (value: string, name: string) =>
+      isTickets ? parseTicketCount(value, name, warnings) : parseMoneyNonNegative(value, name, warnings);
+    warnIfNotNumeric(clause.threshold, `${inputName} Threshold`, warnings);
+    const threshold = parseFigure(clause.threshold, `${inputName} Threshold`);
+    const measure = isTickets ? ctx.totalTicketsSold : ctx.grossRevenue;
+    const show = (value: number) => (isTickets ? value.toLocaleString("en-US") : formatMoney(value, ctx.currency));
+
+    if (!stepped) {
+      const triggered = measure >= threshold;
+      bonuses.push({
+        label,
+        trigger,
+        triggered,
+        amount: triggered ? amount : 0,
+        detail: `${show(measure)} ${isTickets ? "sold" : "gross"} vs ${show(threshold)} threshold`,
+      });
+      continue;
+    }
+
+    warnIfNotNumeric(clause.step ?? "", `${inputName} Step`, warnings);
+    const step = parseFigure(clause.step ?? "", `${inputName} Step`);
+    if (step <= 0) {
+      warnings.push(`${fieldName} is stepped but has no step size — ignored.`);
+      continue;
+    }
+    const steps = Math.max(0, Math.floor((measure - threshold) / step));
+    bonuses.push({
+      label,
+      trigger,
+      triggered: steps > 0,
+      amount: steps * amount,
+      detail: `${steps} × ${formatMoney(amount, ctx.currency)} per ${show(step)} over ${show(threshold)}`,
+    });
+  }
+
+  return { bonuses, totalBonuses: sumMoney(bonuses.map((b) => b.amount)) };
+}
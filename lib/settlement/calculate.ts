@@ -1,22 +1,148 @@
 /**
  * Settlement calculation logic — shared between client and server.
  * Server-side recalculation on save ensures results always match inputs.
+ * All amounts are integer cents (see ./money); results carry `moneyUnit: "cents"`.
  */
 
-export type DealType =
-  | "guarantee"
-  | "percentage"
-  | "guarantee_vs_percentage"
-  | "guarantee_plus_percentage"
-  | "percentage_of_gross"
-  | "door_deal";
+import {
+  allocate,
+  applyRate,
+  formatMoney,
+  parseMoney,
+  percentToRate,
+  sumMoney,
+  type Money,
+  type Rate,
+} from "./money";
+import { convertMoney, formatFxRate, isSupportedCurrency, normalizeCurrency, parseFxRate } from "./currency";
+import { evaluateBonusClauses, type BonusClauseInput, type BonusResult } from "./bonus";
+import {
+  artistDeductibleExpenses,
+  normalizeDeductibility,
+  type ArtistExpenseTerms,
+  type ExpenseAdjustment,
+  type ParsedExpenseItem,
+} from "./expenses";
+import {
+  summarizeTicketFees,
+  TICKET_FEE_KINDS,
+  type TicketFeeKind,
+  type TicketFeeSummary,
+  type TicketFeeTreatmentInput,
+  type TierFeeLine,
+} from "./ticket-fees";
+import {
+  COMP_CATEGORIES,
+  computeCompChargebacks,
+  type CompCategory,
+  type CompCategoryResult,
+  type TierCompChargeback,
+} from "./comps";
+import { reconcileDoor, summarizeSalesChannels, type DoorReconciliation, type SalesChannelSummary } from "./door";
+import { computeLayeredTaxes, type ParsedTax, type TaxInput, type TaxResult } from "./taxes";
+import {
+  merchVenueTake,
+  settleArtistMerch,
+  type ArtistMerchInput,
+  type ArtistMerchResult,
+  type MerchRates,
+  type ParsedArtistMerch,
+} from "./merch";
+import { merchInventoryWarnings, reconcileMerchInventory, type ParsedMerchInventoryItem } from "./merch-inventory";
+import {
+  isCancellation,
+  normalizeDepositTreatment,
+  normalizeShowOutcome,
+  proRatePayout,
+  settleCancellation,
+  type ShowOutcome,
+  type ShowOutcomeResult,
+} from "./outcome";
+import { normalizeArtistAllocation, type ArtistAllocation, type ArtistWaterfallStep } from "./waterfall";
+import {
+  barRevenue,
+  describeArtistBar,
+  normalizeBarGuaranteeMode,
+  normalizeBarShareBasis,
+  settleArtistBar,
+  type ArtistBarInput,
+  type ArtistBarResult,
+  type BarRevenue,
+} from "./bar";
+import {
+  normalizeAncillaryCategory,
+  normalizeAncillaryInclusion,
+  summarizeAncillaryRevenue,
+  type AncillaryRevenueInput,
+  type AncillaryRevenueSummary,
+} from "./ancillary";
+import {
+  normalizeShowMode,
+  settleVenueRental,
+  type VenueRentalInput,
+  type VenueRentalSettlement,
+} from "./venue-rental";
+import {
+  describeEscalatorBand,
+  evaluateEscalator,
+  parseEscalatorSchedule,
+  type EscalatorResult,
+  type EscalatorSchedule,
+  type EscalatorTierInput,
+} from "./escalator";
+import {
+  traceCount,
+  traceLeaf,
+  traceMoney,
+  tracePercent,
+  traceTerms,
+  type ArtistTrace,
+  type ShowTrace,
+  type TraceNode,
+} from "./trace";
+
+import {
+  getDealType,
+  validateDealTerms,
+  type DealContext,
+  type DealPayout,
+  type DealShare,
+  type DealTerms,
+  type DealType,
+  type PromoterProfitMode,
+  type PromoterProfitTerms,
+} from "./deal-types";
+import { compileFormula, type CompiledFormula } from "./formula";
+import { parseDepositSchedule, type DepositInstallmentInput, type DepositSchedule } from "./deposits";
+import {
+  parseMoneyNonNegative,
+  parseNumber,
+  parsePercent,
+  parseTicketCount,
+  warnIfNotNumeric,
+} from "./parse";
+
+export type { DealType, PromoterProfitMode };
+export { parseNumber };
 
 export interface TicketTierInput {
   id?: string;
   name: string;
+  /** Advance price and quantity (ticketing platform). */
   price: string;
   sold: string;
+  /** Day-of-show sales at their own price; a blank price means the advance price. */
+  walkUpPrice?: string;
+  walkUpSold?: string;
   comps?: string;
+  /** Comps by category; when any are entered they replace `comps`. */
+  compCategories?: Partial<Record<CompCategory, string>>;
+  /** Per-ticket fees collected on top of the face price. */
+  facilityFee?: string;
+  serviceCharge?: string;
+  providerFee?: string;
+  /** Tickets available in the tier; used for pre-show projections and sell-through. */
+  capacity?: string;
 }
 
 export interface ExpenseItemInput {
@@ -24,6 +150,22 @@ export interface ExpenseItemInput {
   label: string;
   amount: string;
   note?: string;
+  /** "artist_approved" (default) or "venue_only". */
+  deductibility?: string;
+  /** Contractual "not to exceed" amount charged to artist deals. */
+  cap?: string;
+  /** Artist ids this expense is charged to; empty or absent means every artist. */
+  appliesTo?: string[];
+}
+
+export interface ExpenseItemResult {
+  label: string;
+  amount: Money;
+  note?: string;
+  deductibility?: "venue_only";
+  cap?: Money;
+  /** Names of the artists the expense is charged to, when scoped. */
+  artistNames?: string[];
 }
 
 export interface BuyoutItemInput {
@@ -40,68 +182,218 @@ export interface ArtistDealInput {
   percentage: string;
   breakeven: string;
   deposit: string;
+  /** Deposit installments; when any are entered, the paid ones replace `deposit`. */
+  depositSchedule?: DepositInstallmentInput[];
   withholdingRate: string;
   withholdingState: string;
   buyoutItems: BuyoutItemInput[];
   buyoutMode: string;
+  /** Currency the artist is paid in; blank means the show currency. */
+  payoutCurrency?: string;
+  /** Payout-currency units per one show-currency unit. */
+  fxRate?: string;
+  fxDate?: string;
+  /** promoter_profit_split: how `promoterProfit` is read (defaults to percent_of_expenses). */
+  promoterProfitMode?: string;
+  promoterProfit?: string;
+  /** custom: the payout formula (see ./formula). */
+  formula?: string;
+  /** Escalating percentage bands replacing `percentage`; basis is "net", "gross" or "tickets". */
+  escalatorBasis?: string;
+  escalatorTiers?: EscalatorTierInput[];
+  bonusClauses?: BonusClauseInput[];
+  /** Sequential allocation: this artist's payout is a cost for later artists (default true). */
+  costToLaterArtists?: boolean;
+  merch?: ArtistMerchInput;
+  bar?: ArtistBarInput;
 }
 
 export interface CalculationInput {
   showName: string;
   showDate?: string;
+  currency?: string;
   ticketTiers: TicketTierInput[];
   capacity: string;
-  taxRate: string;
-  taxMode: string;
+  /** Named taxes applied in order; when empty the legacy single `taxRate`/`taxMode` is used. */
+  taxes?: TaxInput[];
+  taxRate?: string;
+  taxMode?: string;
   ccFeeRate: string;
   ccFeeMode: string;
   expenseItems: ExpenseItemInput[];
+  /** What the door actually took for walk-up sales, reconciled against walk-up revenue. */
+  doorCash?: string;
+  doorCard?: string;
+  /** Comp allowance per category; blank means no cap (paid comps default to 0). */
+  compAllowances?: Partial<Record<CompCategory, string>>;
+  /** How each per-ticket fee kind is treated; unset kinds use their default. */
+  ticketFeeTreatments?: Partial<Record<TicketFeeKind, TicketFeeTreatmentInput>>;
   artists: ArtistDealInput[];
-  merchGross: string;
-  merchVenuePercent: string;
+  /** "sequential" settles artists in order, charging earlier payouts to later artists. */
+  artistAllocation?: string;
+  /** Legacy whole-show merch; used only when no artist has merch lines. */
+  merchGross?: string;
+  merchVenuePercent?: string;
+  /** Merch sales tax included in the rung-up merch sales. */
+  merchTaxRate?: string;
+  /** Card processing fee on merch card sales. */
+  merchCardFeeRate?: string;
+  /** How the show ended; see ShowOutcome. Defaults to performed. */
+  outcome?: string;
+  /** Cancellations: percentage of each artist's guarantee owed as a kill fee. */
+  killFeePercent?: string;
+  /** Cancellations: "retain" or "refund"; defaults by outcome. */
+  depositTreatment?: string;
+  /** Shortened set: contracted and actual set length in minutes. */
+  scheduledMinutes?: string;
+  performedMinutes?: string;
+  /** "promoter" when the promoter rented the room; settles `venueRental` alongside the artist deal. */
+  showMode?: string;
+  venueRental?: VenueRentalInput;
+  /** Bar / F&B ring and its cost of goods, for artists with bar terms. */
+  barGross?: string;
+  barCostOfGoods?: string;
+  /** Parking, coat check, sponsorship, etc., each with its own inclusion rule. */
+  ancillaryRevenue?: AncillaryRevenueInput[];
   notes: string;
 }
 
+/** Each step of a promoter profit split deal, from net receipts down to the split. */
+export interface ProfitSplitWaterfall {
+  netReceipts: Money;
+  guarantee: Money;
+  promoterProfit: Money;
+  /** Promoter profit as entered: a percentage of expenses + guarantee, or a flat amount. */
+  promoterProfitMode: PromoterProfitMode;
+  promoterProfitPercent?: number;
+  splitPoint: Money;
+  splitPool: Money;
+  /** Undefined when the split escalates (see ArtistCalcResult.escalator). */
+  artistSplitPercent?: number;
+  artistSplit: Money;
+  promoterSplit: Money;
+}
+
 export interface ArtistCalcResult {
   artistName: string;
   dealType: string;
-  artistPayout: number;
-  overage?: number;
-  breakeven?: number;
-  withholdingAmount?: number;
+  artistPayout: Money;
+  overage?: Money;
+  breakeven?: Money;
+  withholdingAmount?: Money;
   withholdingState?: string;
-  buyoutItems?: { label: string; amount: number }[];
-  totalBuyouts?: number;
-  deposit: number;
-  balanceDue: number;
+  buyoutItems?: { label: string; amount: Money }[];
+  totalBuyouts?: Money;
+  /** Deposit paid: the paid installments when there is a schedule. */
+  deposit: Money;
+  depositSchedule?: DepositSchedule;
+  balanceDue: Money;
+  /** Set when the artist is paid in a currency other than the show currency. */
+  payoutCurrency?: string;
+  fxRate?: number;
+  fxDate?: string;
+  convertedBalanceDue?: Money;
+  profitSplit?: ProfitSplitWaterfall;
+  escalator?: EscalatorResult;
+  /** Every evaluated clause, triggered or not; triggered amounts are included in artistPayout. */
+  bonuses?: BonusResult[];
+  totalBonuses?: Money;
+  /** Present when the artist's deal was computed on a different expense set than the show. */
+  expenseTerms?: ArtistExpenseTerms;
+  merch?: ArtistMerchResult;
+  /** Show balance due plus merch net and ancillary share; set when the artist has either. */
+  totalDue?: Money;
+  /** This artist's share of ancillary streams split with it. */
+  ancillaryShare?: Money;
+  /** Bar share, top-up and minimum offset; the total is included in artistPayout. */
+  bar?: ArtistBarResult;
+  /** Shortened set: payout before pro-rating. */
+  proRatedFrom?: Money;
+  /** Cancellation: kill fee owed on the guarantee. */
+  killFee?: Money;
+  /** Cancellation: deposit the artist returns (included in balanceDue). */
+  depositRefund?: Money;
+  /** How the payout, overage and withholding were derived. */
+  trace?: ArtistTrace;
+}
+
+export interface TierCalcResult {
+  name: string;
+  /** Advance price. */
+  price: Money;
+  /** Advance plus walk-up tickets; `revenue` likewise covers both. */
+  sold: number;
+  walkUpPrice?: Money;
+  walkUpSold?: number;
+  walkUpRevenue?: Money;
+  comps: number;
+  compsByCategory?: Partial<Record<CompCategory, number>>;
+  /** Comps over allowance charged back at this tier's face value (included in gross). */
+  compChargebacks?: TierCompChargeback[];
+  revenue: Money;
+  /** This tier's share of the show-level tax, allocated so tiers sum to taxAmount. */
+  taxAmount?: Money;
+  fees?: TierFeeLine[];
 }
 
 export interface CalculationResult {
-  grossRevenue: number;
-  ticketTiers?: { name: string; price: number; sold: number; comps: number; revenue: number }[];
+  moneyUnit: "cents";
+  currency: string;
+  /** Adjusted (artist) gross: face value plus any fee share included by its treatment. */
+  grossRevenue: Money;
+  /** Everything collected from ticket buyers, fees included. Set only when fees were entered. */
+  ticketingGross?: Money;
+  ticketFees?: TicketFeeSummary[];
+  /** Fee income paid to the venue outside the artist gross; included in venuePayout. */
+  venueFeeIncome?: Money;
+  ticketTiers?: TierCalcResult[];
   totalTicketsSold?: number;
   totalComps?: number;
-  taxAmount: number;
-  totalExpenses: number;
-  expenseItems?: { label: string; amount: number; note?: string }[];
-  netProfit: number;
+  /** Advance vs walk-up split; set when any walk-up sales were entered. */
+  salesChannels?: SalesChannelSummary;
+  doorReconciliation?: DoorReconciliation;
+  compCategories?: CompCategoryResult[];
+  /** Total comp chargebacks added to gross. */
+  compChargebacks?: Money;
+  taxAmount: Money;
+  /** Per-tax breakdown; set when the show was entered with named taxes. */
+  taxes?: TaxResult[];
+  totalExpenses: Money;
+  expenseItems?: ExpenseItemResult[];
+  netProfit: Money;
   notes?: string;
   artists: ArtistCalcResult[];
-  artistPayout: number;
-  overage?: number;
-  breakeven?: number;
-  ccFees?: number;
-  withholdingAmount?: number;
+  /** Net each artist was settled against; set for sequential allocation. */
+  artistWaterfall?: ArtistWaterfallStep[];
+  artistPayout: Money;
+  overage?: Money;
+  breakeven?: Money;
+  ccFees?: Money;
+  withholdingAmount?: Money;
   withholdingState?: string;
-  buyoutItems?: { label: string; amount: number }[];
-  totalBuyouts?: number;
-  deposit: number;
-  balanceDue: number;
-  venuePayout: number;
-  merchGross?: number;
-  merchVenueCut?: number;
-  merchNetToArtist?: number;
-  totalDueToArtist?: number;
+  buyoutItems?: { label: string; amount: Money }[];
+  totalBuyouts?: Money;
+  deposit: Money;
+  balanceDue: Money;
+  venuePayout: Money;
+  merchGross?: Money;
+  /** Venue merch cuts, including seller fees. */
+  merchVenueCut?: Money;
+  merchTax?: Money;
+  merchCardFees?: Money;
+  merchNetToArtist?: Money;
+  /** Set when there is a single artist. */
+  totalDueToArtist?: Money;
+  /** Set when the show was not simply performed as contracted. */
+  outcome?: ShowOutcomeResult;
+  /** Promoter-as-buyer shows: the rental settlement with the venue. */
+  venueRental?: VenueRentalSettlement;
+  /** Set when a bar ring was entered; the bar net is included in venuePayout. */
+  bar?: BarRevenue;
+  /** Set when ancillary revenue was entered; grossRevenue stays ticket revenue. */
+  ancillary?: AncillaryRevenueSummary;
+  /** How net and venue payout were derived. */
+  trace?: ShowTrace;
   calculatedAt?: string;
   acknowledgments?: { name: string; email: string; timestamp: string }[];
 }
@@ -110,120 +402,604 @@ export type ComputeOutput =
   | { ok: true; result: CalculationResult; warnings: string[] }
   | { ok: false; error: string };
 
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+export interface SettleOptions {
+  /** Settle with no ticket revenue instead of failing, e.g. a projected sell-through that rounds to 0 tickets. */
+  allowNoSales?: boolean;
 }
 
-export function parseNumber(value: string): number {
-  const parsed = parseFloat(value);
-  return Number.isFinite(parsed) ? parsed : 0;
+function escalatorMeasure(schedule: EscalatorSchedule, ctx: DealContext): number {
+  switch (schedule.basis) {
+    case "gross":
+      return ctx.grossRevenue;
+    case "tickets":
+      return ctx.totalTicketsSold;
+    default:
+      return ctx.netProfit;
+  }
 }
 
-export function round2(n: number): number {
-  return Math.round(n * 100) / 100;
+function computeArtistDealPayout(
+  dealType: DealType,
+  terms: DealTerms,
+  escalatorSchedule: EscalatorSchedule | null,
+  ctx: DealContext
+): DealPayout & { escalator?: EscalatorResult } {
+  const { percentage } = terms;
+  const rate: Rate = percentToRate(percentage);
+  let escalator: EscalatorResult | undefined;
+
+  const share: DealShare = {
+    percent: escalatorSchedule ? undefined : percentage,
+    of: (base) => {
+      if (!escalatorSchedule) return applyRate(Math.max(0, base), rate);
+      escalator = evaluateEscalator(escalatorSchedule, base, escalatorMeasure(escalatorSchedule, ctx));
+      return escalator.total;
+    },
+    trace: (label, amount, base) => {
+      const schedule = escalator;
+      if (schedule) {
+        return traceMoney(label, amount, `Escalating percentage of ${base.label}`, [
+          base,
+          ...schedule.bands.map((band) => traceMoney(describeEscalatorBand(band, schedule.basis, ctx.currency), band.amount)),
+        ]);
+      }
+      return traceMoney(label, amount, `Percentage × ${base.value < 0 ? `max(0, ${base.label})` : base.label}`, [
+        tracePercent("Percentage", percentage),
+        base,
+      ]);
+    },
+  };
+
+  const deal = getDealType(dealType);
+  const payout: DealPayout = deal
+    ? deal.payout(terms, ctx, share)
+    : { artistPayout: 0, trace: traceMoney("Deal Payout", 0) };
+  return { ...payout, escalator };
 }
 
-function warnIfNotNumeric(value: string, fieldName: string, warnings: string[]) {
-  const trimmed = value.trim();
-  if (trimmed && isNaN(parseFloat(trimmed))) {
-    warnings.push(`"${fieldName}" contains "${trimmed}" — treated as 0.`);
-  }
+/** Show-level figures an artist's deal is settled against. */
+export interface ArtistSettlementContext {
+  currency: string;
+  capacity: number;
+  netProfit: Money;
+  grossRevenue: Money;
+  taxAmount: Money;
+  totalExpenses: Money;
+  totalTicketsSold: number;
+  /** Shortened set: payouts are scaled by performed / scheduled minutes. */
+  proRate?: { performedMinutes: number; scheduledMinutes: number };
+  bar?: BarRevenue;
+  /** Derivation of `netProfit` when it is not the show net (e.g. after earlier artists). */
+  netTrace?: TraceNode;
 }
 
-function parseNonNegative(value: string, fieldName: string, warnings: string[]): number {
-  const parsed = parseNumber(value);
-  if (parsed < 0) {
-    warnings.push(`${fieldName} is negative — treated as 0.`);
-    return 0;
+/**
+ * Validates one artist's terms and settles them against show-level totals:
+ * deal payout, bonuses, buyouts, withholding, deposit and FX. `expenses` is
+ * what the artist's contract lets the deal deduct (see ./expenses).
+ */
+export function settleArtistDeal(
+  artist: ArtistDealInput,
+  aName: string,
+  ctx: ArtistSettlementContext,
+  expenses: { deductibleExpenses: Money; adjustments: ExpenseAdjustment[] },
+  warnings: string[]
+): { ok: true; result: ArtistCalcResult } | { ok: false; error: string } {
+  const guarantee = parseMoneyNonNegative(artist.guarantee, `${aName} Guarantee`, warnings);
+  const percentage = parsePercent(artist.percentage, `${aName} Percentage`, warnings);
+
+  warnIfNotNumeric(artist.guarantee, `${aName} Guarantee`, warnings);
+  warnIfNotNumeric(artist.percentage, `${aName} Percentage`, warnings);
+  warnIfNotNumeric(artist.deposit, `${aName} Deposit`, warnings);
+  warnIfNotNumeric(artist.withholdingRate, `${aName} Withholding Rate`, warnings);
+  warnIfNotNumeric(artist.breakeven, `${aName} Breakeven`, warnings);
+
+  const deal = getDealType(artist.dealType);
+  const escalatorSchedule = deal?.fields.percentage
+    ? parseEscalatorSchedule(
+        artist.escalatorBasis,
+        artist.escalatorTiers,
+        (value, fieldName) => parsePercent(value, fieldName, warnings),
+        aName
+      )
+    : null;
+  // An escalator schedule stands in for the flat percentage in validation.
+  const hasPercentTerms = percentage > 0 || escalatorSchedule !== null;
+
+  const missingTerms = validateDealTerms(artist.dealType, { guarantee, hasPercentTerms, formula: artist.formula ?? "" });
+  if (missingTerms) return { ok: false, error: `${aName}: ${missingTerms}` };
+
+  let formula: CompiledFormula | undefined;
+  if (deal?.fields.formula) {
+    const compiled = compileFormula(artist.formula ?? "");
+    if (!compiled.ok) return { ok: false, error: `${aName} Formula: ${compiled.error}` };
+    formula = compiled.formula;
   }
-  return parsed;
-}
 
-function parsePercent(value: string, fieldName: string, warnings: string[]): number {
-  const parsed = parseNonNegative(value, fieldName, warnings);
-  if (parsed > 100) {
-    warnings.push(`${fieldName} is above 100% — capped at 100%.`);
-    return 100;
+  const promoterProfitMode: PromoterProfitMode = artist.promoterProfitMode === "flat" ? "flat" : "percent_of_expenses";
+  const promoterProfitTerms: PromoterProfitTerms = { mode: promoterProfitMode, percent: 0, amount: 0 };
+  if (deal?.fields.promoterProfit) {
+    warnIfNotNumeric(artist.promoterProfit ?? "", `${aName} Promoter Profit`, warnings);
+    if (promoterProfitMode === "flat") {
+      promoterProfitTerms.amount = parseMoneyNonNegative(artist.promoterProfit ?? "", `${aName} Promoter Profit`, warnings);
+    } else {
+      promoterProfitTerms.percent = parsePercent(artist.promoterProfit ?? "", `${aName} Promoter Profit`, warnings);
+    }
   }
-  return parsed;
-}
 
-function computeArtistDealPayout(
-  dealType: DealType,
-  guarantee: number,
-  percentage: number,
-  breakevenInput: number,
-  netProfit: number,
-  grossRevenue: number,
-  taxAmount: number,
-  totalExpenses: number
-): { artistPayout: number; overage?: number; breakeven?: number } {
-  let artistPayout: number;
-  let overage: number | undefined;
-  let breakevenPoint: number | undefined;
-
-  switch (dealType) {
-    case "guarantee":
-      artistPayout = guarantee;
-      break;
-    case "percentage":
-      artistPayout = round2(Math.max(0, netProfit * (percentage / 100)));
-      break;
-    case "guarantee_vs_percentage": {
-      const percentageShare = round2(Math.max(0, netProfit * (percentage / 100)));
-      artistPayout = Math.max(guarantee, percentageShare);
-      break;
+  const { deductibleExpenses, adjustments } = expenses;
+  const dealNet = ctx.netProfit + ctx.totalExpenses - deductibleExpenses;
+  const expenseTerms: ArtistExpenseTerms | undefined =
+    adjustments.length > 0 ? { deductibleExpenses, dealNet, adjustments } : undefined;
+  const netTrace = ctx.netTrace ?? traceMoney("Net", ctx.netProfit);
+  const dealNetTrace =
+    deductibleExpenses === ctx.totalExpenses
+      ? netTrace
+      : traceTerms("Deal Net", dealNet, [
+          [1, netTrace],
+          [1, traceMoney("Expenses", ctx.totalExpenses)],
+          [-1, traceMoney("Deductible Expenses", deductibleExpenses)],
+        ]);
+
+  const breakevenInput = parseMoneyNonNegative(artist.breakeven, `${aName} Breakeven`, warnings);
+  const {
+    artistPayout: dealPayout,
+    overage,
+    breakeven: bk,
+    profitSplit,
+    escalator,
+    trace: dealTrace,
+    overageTrace,
+    error: payoutError,
+  } = computeArtistDealPayout(
+    artist.dealType,
+    { guarantee, percentage, breakeven: breakevenInput, promoterProfit: promoterProfitTerms, formula },
+    escalatorSchedule,
+    { ...ctx, netProfit: dealNet, totalExpenses: deductibleExpenses, netTrace: dealNetTrace }
+  );
+  if (payoutError) return { ok: false, error: `${aName} Formula: ${payoutError}` };
+  const { bonuses, totalBonuses } = evaluateBonusClauses(
+    artist.bonusClauses,
+    { totalTicketsSold: ctx.totalTicketsSold, capacity: ctx.capacity, grossRevenue: ctx.grossRevenue, currency: ctx.currency },
+    aName,
+    warnings
+  );
+  let bar: ArtistBarResult | undefined;
+  if (artist.bar && (artist.bar.sharePercent.trim() || artist.bar.guarantee.trim())) {
+    warnIfNotNumeric(artist.bar.sharePercent, `${aName} Bar Share`, warnings);
+    warnIfNotNumeric(artist.bar.guarantee, `${aName} Bar Guarantee`, warnings);
+    if (!ctx.bar) warnings.push(`${aName} has bar terms but no bar ring was entered.`);
+    bar = settleArtistBar(
+      {
+        sharePercent: parsePercent(artist.bar.sharePercent, `${aName} Bar Share`, warnings),
+        shareBasis: normalizeBarShareBasis(artist.bar.shareBasis),
+        guarantee: parseMoneyNonNegative(artist.bar.guarantee, `${aName} Bar Guarantee`, warnings),
+        guaranteeMode: normalizeBarGuaranteeMode(artist.bar.guaranteeMode),
+      },
+      ctx.bar ?? barRevenue(0, 0),
+      guarantee,
+      dealPayout
+    );
+  }
+  const fullPayout = dealPayout + totalBonuses + (bar?.total ?? 0);
+  const artistPayout = ctx.proRate
+    ? proRatePayout(fullPayout, ctx.proRate.performedMinutes, ctx.proRate.scheduledMinutes)
+    : fullPayout;
+
+  const payoutTerms: [1 | -1, TraceNode][] = [[1, dealTrace]];
+  if (totalBonuses > 0) {
+    payoutTerms.push([
+      1,
+      traceTerms(
+        "Bonuses",
+        totalBonuses,
+        bonuses.filter((b) => b.triggered && b.amount > 0).map((b) => [1, traceMoney(`${b.label} (${b.detail})`, b.amount)])
+      ),
+    ]);
+  }
+  if (bar && bar.total !== 0) {
+    payoutTerms.push([
+      bar.total < 0 ? -1 : 1,
+      traceTerms(
+        "Bar",
+        Math.abs(bar.total),
+        describeArtistBar(bar, ctx.currency).map((line) => [line.amount < 0 ? -1 : 1, traceMoney(line.label, Math.abs(line.amount))])
+      ),
+    ]);
+  }
+  const fullPayoutTrace =
+    payoutTerms.length > 1 ? traceTerms("Artist Payout", fullPayout, payoutTerms) : { ...dealTrace, label: "Artist Payout" };
+  const payoutTrace =
+    ctx.proRate && artistPayout !== fullPayout
+      ? traceMoney("Artist Payout", artistPayout, "Full Payout × Minutes Performed ÷ Scheduled Minutes", [
+          { ...fullPayoutTrace, label: "Full Payout" },
+          traceCount("Minutes Performed", ctx.proRate.performedMinutes),
+          traceCount("Scheduled Minutes", ctx.proRate.scheduledMinutes),
+        ])
+      : fullPayoutTrace;
+
+  const parsedBuyoutItems = artist.buyoutItems
+    .filter((item) => item.label.trim() || parseNumber(item.amount) > 0)
+    .map((item) => {
+      warnIfNotNumeric(item.amount, `${aName} Buyout "${item.label.trim() || "Unlabeled"}"`, warnings);
+      const amt = parseMoneyNonNegative(item.amount, `${aName} Buyout "${item.label.trim() || "Unlabeled"}"`, warnings);
+      return { label: item.label.trim() || "Unlabeled Buyout", amount: amt };
+    });
+  const totalBuyouts = sumMoney(parsedBuyoutItems.map((i) => i.amount));
+
+  const whRate = parsePercent(artist.withholdingRate, `${aName} Withholding Rate`, warnings);
+  const withholdingAmount = whRate > 0 ? applyRate(artistPayout, percentToRate(whRate)) : 0;
+  const withholdingTrace =
+    withholdingAmount > 0
+      ? traceMoney("Withholding", withholdingAmount, "Withholding Rate × Artist Payout", [
+          tracePercent("Withholding Rate", whRate),
+          traceLeaf(payoutTrace),
+        ])
+      : undefined;
+  const depositSchedule = parseDepositSchedule(artist.depositSchedule, guarantee, `${aName} Deposit`, warnings);
+  const deposit = depositSchedule?.paid ?? parseMoneyNonNegative(artist.deposit, `${aName} Deposit`, warnings);
+  const buyoutDeduction = artist.buyoutMode !== "show_expense" && totalBuyouts > 0 ? totalBuyouts : 0;
+  const balanceDue = artistPayout - deposit - withholdingAmount - buyoutDeduction;
+
+  const payoutCurrency = artist.payoutCurrency?.trim() ? normalizeCurrency(artist.payoutCurrency) : ctx.currency;
+  let fx: Pick<ArtistCalcResult, "payoutCurrency" | "fxRate" | "fxDate" | "convertedBalanceDue"> = {};
+  if (payoutCurrency !== ctx.currency) {
+    const scaledRate = parseFxRate(artist.fxRate);
+    if (scaledRate <= 0) {
+      return { ok: false, error: `${aName}: Please enter an FX rate from ${ctx.currency} to ${payoutCurrency}.` };
     }
-    case "guarantee_plus_percentage": {
-      breakevenPoint = breakevenInput > 0 ? breakevenInput : round2(guarantee + totalExpenses);
-      overage = round2(Math.max(0, (netProfit - breakevenPoint) * (percentage / 100)));
-      artistPayout = round2(guarantee + overage);
-      break;
+    if (!artist.fxDate?.trim()) {
+      warnings.push(`${aName}: No FX rate date recorded for ${ctx.currency} → ${payoutCurrency}.`);
     }
-    case "percentage_of_gross":
-      artistPayout = round2(Math.max(0, grossRevenue * (percentage / 100)));
-      break;
-    case "door_deal":
-      artistPayout = round2(Math.max(0, (grossRevenue - taxAmount) * (percentage / 100)));
-      break;
-    default:
-      artistPayout = 0;
+    fx = {
+      payoutCurrency,
+      fxRate: Number(formatFxRate(scaledRate)),
+      fxDate: artist.fxDate?.trim() || undefined,
+      convertedBalanceDue: convertMoney(balanceDue, scaledRate),
+    };
   }
 
-  return { artistPayout, overage, breakeven: breakevenPoint };
+  return {
+    ok: true,
+    result: {
+      artistName: aName,
+      dealType: artist.dealType,
+      artistPayout,
+      overage,
+      breakeven: bk,
+      withholdingAmount: withholdingAmount > 0 ? withholdingAmount : undefined,
+      withholdingState: withholdingAmount > 0 && artist.withholdingState?.trim() ? artist.withholdingState.trim() : undefined,
+      buyoutItems: parsedBuyoutItems.length > 0 ? parsedBuyoutItems : undefined,
+      totalBuyouts: totalBuyouts > 0 ? totalBuyouts : undefined,
+      deposit,
+      depositSchedule: depositSchedule ?? undefined,
+      balanceDue,
+      ...fx,
+      profitSplit,
+      escalator,
+      bonuses: bonuses.length > 0 ? bonuses : undefined,
+      totalBonuses: totalBonuses > 0 ? totalBonuses : undefined,
+      expenseTerms,
+      bar,
+      proRatedFrom: artistPayout !== fullPayout ? fullPayout : undefined,
+      trace: {
+        payout: payoutTrace,
+        ...(overageTrace ? { overage: overageTrace } : {}),
+        ...(withholdingTrace ? { withholding: withholdingTrace } : {}),
+      },
+    },
+  };
+}
+
+/**
+ * Settles every artist on the bill. In sequential allocation artists settle
+ * in order and each earlier payout flagged as a cost is deducted, like an
+ * expense, from the net of the artists after it.
+ */
+export function settleArtistLineup(
+  artists: ArtistDealInput[],
+  artistNames: string[],
+  allocation: ArtistAllocation,
+  ctx: ArtistSettlementContext,
+  expensesFor: (artistIndex: number) => { deductibleExpenses: Money; adjustments: ExpenseAdjustment[] },
+  warnings: string[]
+): { ok: true; artists: ArtistCalcResult[]; waterfall?: ArtistWaterfallStep[] } | { ok: false; error: string } {
+  const results: ArtistCalcResult[] = [];
+  const waterfall: ArtistWaterfallStep[] = [];
+  let priorArtistCosts = 0;
+
+  for (const [artistIndex, artist] of artists.entries()) {
+    const expenses = expensesFor(artistIndex);
+    const settled = settleArtistDeal(
+      artist,
+      artistNames[artistIndex],
+      {
+        ...ctx,
+        netProfit: ctx.netProfit - priorArtistCosts,
+        totalExpenses: ctx.totalExpenses + priorArtistCosts,
+        netTrace:
+          priorArtistCosts > 0
+            ? traceTerms("Net After Earlier Artists", ctx.netProfit - priorArtistCosts, [
+                [1, ctx.netTrace ?? traceMoney("Net", ctx.netProfit)],
+                [-1, traceMoney("Earlier Artist Payouts", priorArtistCosts)],
+              ])
+            : ctx.netTrace,
+      },
+      { ...expenses, deductibleExpenses: expenses.deductibleExpenses + priorArtistCosts },
+      warnings
+    );
+    if (!settled.ok) return settled;
+    results.push(settled.result);
+
+    if (allocation === "sequential") {
+      const costToLaterArtists = artist.costToLaterArtists !== false && artistIndex < artists.length - 1;
+      waterfall.push({
+        artistName: settled.result.artistName,
+        priorArtistCosts,
+        settledNet: ctx.netProfit + ctx.totalExpenses - expenses.deductibleExpenses - priorArtistCosts,
+        artistPayout: settled.result.artistPayout,
+        costToLaterArtists,
+      });
+      if (costToLaterArtists) priorArtistCosts += settled.result.artistPayout;
+    }
+  }
+
+  return { ok: true, artists: results, waterfall: allocation === "sequential" ? waterfall : undefined };
+}
+
+function expenseItemResults(
+  items: ParsedExpenseItem[],
+  artistKeys: string[],
+  artistNames: string[]
+): ExpenseItemResult[] {
+  return items.map(({ appliesTo, ...item }) => ({
+    ...item,
+    ...(appliesTo ? { artistNames: appliesTo.map((key) => artistNames[artistKeys.indexOf(key)]) } : {}),
+  }));
+}
+
+function tierTrace(tier: TierCalcResult): TraceNode {
+  const advanceSold = tier.sold - (tier.walkUpSold ?? 0);
+  const advance = traceMoney("Advance", tier.revenue - (tier.walkUpRevenue ?? 0), "Price × Sold", [
+    traceMoney("Price", tier.price),
+    traceCount("Sold", advanceSold),
+  ]);
+  if (!tier.walkUpSold) return { ...advance, label: tier.name };
+  const walkUp = traceMoney("Walk-Up", tier.walkUpRevenue ?? 0, "Walk-Up Price × Walk-Up Sold", [
+    traceMoney("Walk-Up Price", tier.walkUpPrice ?? tier.price),
+    traceCount("Walk-Up Sold", tier.walkUpSold),
+  ]);
+  return traceTerms(tier.name, tier.revenue, [[1, advance], [1, walkUp]]);
+}
+
+function expensesTrace(totalExpenses: Money, items: { label: string; amount: Money }[], showExpenseBuyouts: Money): TraceNode {
+  const terms: [1 | -1, TraceNode][] = items.map((item) => [1, traceMoney(item.label, item.amount)]);
+  if (showExpenseBuyouts > 0) terms.push([1, traceMoney("Buyouts Run as Show Expenses", showExpenseBuyouts)]);
+  return traceTerms("Expenses", totalExpenses, terms);
+}
+
+function artistPayoutsTrace(totalArtistPayouts: Money, artists: ArtistCalcResult[]): TraceNode {
+  return traceTerms(
+    "Artist Payouts",
+    totalArtistPayouts,
+    artists.map((a) => [1, traceMoney(a.artistName, a.artistPayout)])
+  );
+}
+
+/**
+ * A cancelled show has no ticket revenue to settle: sales are refunded, the
+ * expenses entered are what the venue already spent, and each artist is owed
+ * only the contract's kill fee, with the deposit retained or refunded.
+ */
+function settleCancelledShow(
+  data: CalculationInput,
+  outcome: ShowOutcome,
+  show: {
+    currency: string;
+    refundedTicketRevenue: Money;
+    totalExpenses: Money;
+    expenseItems: ExpenseItemResult[];
+    artistNames: string[];
+  },
+  warnings: string[]
+): ComputeOutput {
+  const killFeePercent = parsePercent(data.killFeePercent ?? "", "Kill Fee", warnings);
+  warnIfNotNumeric(data.killFeePercent ?? "", "Kill Fee", warnings);
+  const depositTreatment = normalizeDepositTreatment(data.depositTreatment, outcome);
+  if (show.refundedTicketRevenue > 0) {
+    warnings.push(
+      `Ticket sales of ${formatMoney(show.refundedTicketRevenue, show.currency)} are treated as refunded.`
+    );
+  }
+
+  const artists: ArtistCalcResult[] = data.artists.map((artist, i) => {
+    const aName = show.artistNames[i];
+    const guarantee = parseMoneyNonNegative(artist.guarantee, `${aName} Guarantee`, warnings);
+    const depositSchedule = parseDepositSchedule(artist.depositSchedule, guarantee, `${aName} Deposit`, warnings);
+    const deposit = depositSchedule?.paid ?? parseMoneyNonNegative(artist.deposit, `${aName} Deposit`, warnings);
+    warnIfNotNumeric(artist.guarantee, `${aName} Guarantee`, warnings);
+    warnIfNotNumeric(artist.deposit, `${aName} Deposit`, warnings);
+    if (outcome !== "cancelled_by_artist" && killFeePercent > 0 && guarantee <= 0) {
+      warnings.push(`${aName}: No guarantee entered — no kill fee is owed.`);
+    }
+    const payout = settleCancellation(outcome, guarantee, killFeePercent, deposit, depositTreatment);
+    const killFeeTrace =
+      outcome === "cancelled_by_artist"
+        ? traceMoney("Kill Fee", payout.killFee, "None when the artist cancels")
+        : traceMoney("Kill Fee", payout.killFee, "Kill Fee % × Guarantee", [
+            tracePercent("Kill Fee %", killFeePercent),
+            traceMoney("Guarantee", guarantee),
+          ]);
+    return {
+      artistName: aName,
+      dealType: artist.dealType,
+      artistPayout: payout.artistPayout,
+      deposit,
+      depositSchedule: depositSchedule ?? undefined,
+      balanceDue: payout.balanceDue,
+      killFee: payout.killFee > 0 ? payout.killFee : undefined,
+      depositRefund: payout.depositRefund > 0 ? payout.depositRefund : undefined,
+      trace: {
+        payout:
+          depositTreatment === "retain"
+            ? traceMoney("Artist Payout", payout.artistPayout, "max(Kill Fee, Deposit Retained)", [
+                killFeeTrace,
+                traceMoney("Deposit Retained", deposit),
+              ])
+            : { ...killFeeTrace, label: "Artist Payout" },
+      },
+    };
+  });
+
+  const artistPayout = sumMoney(artists.map((a) => a.artistPayout));
+  const netProfit = -show.totalExpenses;
+  const netTrace = traceTerms("Net", netProfit, [[-1, expensesTrace(show.totalExpenses, show.expenseItems, 0)]]);
+  return {
+    ok: true,
+    result: {
+      moneyUnit: "cents",
+      currency: show.currency,
+      grossRevenue: 0,
+      totalTicketsSold: 0,
+      taxAmount: 0,
+      totalExpenses: show.totalExpenses,
+      expenseItems: show.expenseItems,
+      netProfit,
+      artists,
+      artistPayout,
+      deposit: sumMoney(artists.map((a) => a.deposit)),
+      balanceDue: sumMoney(artists.map((a) => a.balanceDue)),
+      venuePayout: netProfit - artistPayout,
+      outcome: {
+        outcome,
+        killFeePercent: outcome !== "cancelled_by_artist" ? killFeePercent : undefined,
+        depositTreatment,
+        refundedTicketRevenue: show.refundedTicketRevenue > 0 ? show.refundedTicketRevenue : undefined,
+      },
+      trace: {
+        netProfit: netTrace,
+        venuePayout: traceTerms("Venue Payout", netProfit - artistPayout, [
+          [1, traceLeaf(netTrace)],
+          [-1, artistPayoutsTrace(artistPayout, artists)],
+        ]),
+      },
+      notes: data.notes?.trim() || undefined,
+      calculatedAt: new Date().toISOString(),
+    },
+    warnings,
+  };
 }
 
-export function computeSettlement(data: CalculationInput): ComputeOutput {
+/**
+ * Settles a show without the closing venue/artist outcome warnings. Runs
+ * settle each night with this and warn on the run's outcome instead.
+ */
+export function settleShow(data: CalculationInput, options: SettleOptions = {}): ComputeOutput {
   const warnings: string[] = [];
-  const taxRate = parsePercent(data.taxRate, "Tax Rate", warnings);
+  const currency = normalizeCurrency(data.currency);
+  if (data.currency?.trim() && !isSupportedCurrency(data.currency.trim().toUpperCase())) {
+    warnings.push(`Currency "${data.currency.trim()}" is not supported — using ${currency}.`);
+  }
+  const outcome = normalizeShowOutcome(data.outcome);
+  const taxRate = parsePercent(data.taxRate ?? "", "Tax Rate", warnings);
   const ccFeeRate = parsePercent(data.ccFeeRate, "CC Fee Rate", warnings);
   const ccOffTop = data.ccFeeMode === "off_top";
   const taxIsInclusive = data.taxMode === "inclusive";
 
-  warnIfNotNumeric(data.taxRate, "Tax Rate", warnings);
+  warnIfNotNumeric(data.taxRate ?? "", "Tax Rate", warnings);
   warnIfNotNumeric(data.ccFeeRate, "CC Fee Rate", warnings);
 
-  const parsedTiers = data.ticketTiers
-    .filter((t) => parseNumber(t.price) > 0 || parseNumber(t.sold) > 0)
+  const hasTierData = (t: TicketTierInput) =>
+    parseNumber(t.price) > 0 || parseNumber(t.sold) > 0 || parseNumber(t.walkUpSold ?? "") > 0;
+  const tierKeys = data.ticketTiers
+    .map((t, i) => t.id || String(i + 1))
+    .filter((_, i) => hasTierData(data.ticketTiers[i]));
+  const parsedTiers: TierCalcResult[] = data.ticketTiers
+    .filter(hasTierData)
     .map((t) => {
       warnIfNotNumeric(t.price, `${t.name || "Tier"} Price`, warnings);
       warnIfNotNumeric(t.sold, `${t.name || "Tier"} Tickets Sold`, warnings);
-      const price = round2(parseNumber(t.price));
-      const sold = parseNonNegative(t.sold, `${t.name || "Tier"} Tickets Sold`, warnings);
-      const comps = parseNonNegative(t.comps ?? "0", `${t.name || "Tier"} Comps`, warnings);
-      return { name: t.name.trim() || "General Admission", price, sold, comps, revenue: round2(price * sold) };
+      warnIfNotNumeric(t.walkUpPrice ?? "", `${t.name || "Tier"} Walk-Up Price`, warnings);
+      warnIfNotNumeric(t.walkUpSold ?? "", `${t.name || "Tier"} Walk-Up Sold`, warnings);
+      const price = parseMoney(t.price);
+      const advanceSold = parseTicketCount(t.sold, `${t.name || "Tier"} Tickets Sold`, warnings);
+      const walkUpSold = parseTicketCount(t.walkUpSold ?? "0", `${t.name || "Tier"} Walk-Up Sold`, warnings);
+      const walkUpPrice = t.walkUpPrice?.trim()
+        ? parseMoneyNonNegative(t.walkUpPrice, `${t.name || "Tier"} Walk-Up Price`, warnings)
+        : price;
+      const walkUpRevenue = walkUpPrice * walkUpSold;
+      const sold = advanceSold + walkUpSold;
+      const compsByCategory: Partial<Record<CompCategory, number>> = {};
+      for (const { category, label } of COMP_CATEGORIES) {
+        const count = parseTicketCount(t.compCategories?.[category] ?? "0", `${t.name || "Tier"} ${label}`, warnings);
+        if (count > 0) compsByCategory[category] = count;
+      }
+      const hasCompCategories = Object.keys(compsByCategory).length > 0;
+      const comps = hasCompCategories
+        ? Object.values(compsByCategory).reduce((sum, n) => sum + n, 0)
+        : parseTicketCount(t.comps ?? "0", `${t.name || "Tier"} Comps`, warnings);
+      const fees: TierFeeLine[] = [];
+      for (const { kind, label, field } of TICKET_FEE_KINDS) {
+        const fieldName = `${t.name || "Tier"} ${label}`;
+        warnIfNotNumeric(t[field] ?? "", fieldName, warnings);
+        const perTicket = parseMoneyNonNegative(t[field] ?? "", fieldName, warnings);
+        if (perTicket > 0) fees.push({ kind, label, perTicket, total: perTicket * sold });
+      }
+      return {
+        name: t.name.trim() || "General Admission",
+        price,
+        sold,
+        ...(walkUpSold > 0 ? { walkUpPrice, walkUpSold, walkUpRevenue } : {}),
+        comps,
+        ...(hasCompCategories ? { compsByCategory } : {}),
+        revenue: price * advanceSold + walkUpRevenue,
+        ...(fees.length > 0 ? { fees } : {}),
+      };
     });
 
   const totalTicketsSold = parsedTiers.reduce((sum, t) => sum + t.sold, 0);
   const totalComps = parsedTiers.reduce((sum, t) => sum + t.comps, 0);
-  const grossRevenue = round2(parsedTiers.reduce((sum, t) => sum + t.revenue, 0));
+  const faceRevenue = sumMoney(parsedTiers.map((t) => t.revenue));
+  const salesChannels = summarizeSalesChannels(parsedTiers);
+
+  let doorReconciliation: DoorReconciliation | undefined;
+  if (data.doorCash?.trim() || data.doorCard?.trim()) {
+    warnIfNotNumeric(data.doorCash ?? "", "Door Cash", warnings);
+    warnIfNotNumeric(data.doorCard ?? "", "Door Card Receipts", warnings);
+    doorReconciliation = reconcileDoor(
+      salesChannels.walkUpRevenue,
+      parseMoneyNonNegative(data.doorCash ?? "", "Door Cash", warnings),
+      parseMoneyNonNegative(data.doorCard ?? "", "Door Card Receipts", warnings)
+    );
+    if (doorReconciliation.variance !== 0) {
+      warnings.push(
+        `Door take is ${doorReconciliation.variance < 0 ? "short" : "over"} by ${formatMoney(Math.abs(doorReconciliation.variance), currency)} against walk-up sales of ${formatMoney(doorReconciliation.expected, currency)}.`
+      );
+    }
+  }
+  const ticketFees = summarizeTicketFees(
+    parsedTiers.map((t) => t.fees ?? []),
+    data.ticketFeeTreatments,
+    (value, fieldName) => parsePercent(value, fieldName, warnings)
+  );
+  const feesToGross = sumMoney(ticketFees.map((fee) => fee.toGross));
 
-  const capacity = parseNumber(data.capacity);
+  const compAllowances: Partial<Record<CompCategory, number | null>> = {};
+  for (const { category, label } of COMP_CATEGORIES) {
+    const raw = data.compAllowances?.[category];
+    if (raw === undefined) continue;
+    compAllowances[category] = raw.trim() ? parseTicketCount(raw, `${label} Allowance`, warnings) : null;
+  }
+  const { categories: compCategories, tierChargebacks } = computeCompChargebacks(parsedTiers, compAllowances);
+  parsedTiers.forEach((t, i) => {
+    if (tierChargebacks[i].length > 0) t.compChargebacks = tierChargebacks[i];
+  });
+  const tierCompChargebacks = tierChargebacks.map((lines) => sumMoney(lines.map((line) => line.amount)));
+  const compChargebacks = sumMoney(tierCompChargebacks);
+  const grossRevenue = faceRevenue + feesToGross + compChargebacks;
+  const venueFeeIncome = sumMoney(ticketFees.map((fee) => fee.toVenue));
+
+  const capacity = parseTicketCount(data.capacity, "Capacity", warnings);
   if (capacity > 0 && totalTicketsSold > capacity) {
     warnings.push(`Tickets sold (${totalTicketsSold}) exceeds capacity (${capacity}). Verify numbers.`);
   }
@@ -236,161 +1012,392 @@ export function computeSettlement(data: CalculationInput): ComputeOutput {
     warnings.push(`Total comps (${totalComps}) exceeds total sold (${totalTicketsSold}). Verify numbers.`);
   }
 
-  const parsedExpenseItems = data.expenseItems
+  const artistKeys = data.artists.map((artist, i) => artist.id || String(i + 1));
+  const parsedExpenseItems: ParsedExpenseItem[] = data.expenseItems
     .filter((item) => item.label.trim() || parseNumber(item.amount) > 0)
     .map((item) => {
-      warnIfNotNumeric(item.amount, `Expense "${item.label.trim() || "Unlabeled"}"`, warnings);
-      const amt = round2(parseNonNegative(item.amount, `Expense "${item.label.trim() || "Unlabeled"}"`, warnings));
+      const expenseName = `Expense "${item.label.trim() || "Unlabeled"}"`;
+      warnIfNotNumeric(item.amount, expenseName, warnings);
+      const amt = parseMoneyNonNegative(item.amount, expenseName, warnings);
+      const venueOnly = normalizeDeductibility(item.deductibility) === "venue_only";
+      const cap = !venueOnly && item.cap?.trim() ? parseMoneyNonNegative(item.cap, `${expenseName} Cap`, warnings) : 0;
+      if (!venueOnly) warnIfNotNumeric(item.cap ?? "", `${expenseName} Cap`, warnings);
+      const appliesTo = (item.appliesTo ?? []).filter((key) => artistKeys.includes(key));
+      if (item.appliesTo && item.appliesTo.length > 0 && appliesTo.length === 0) {
+        warnings.push(`${expenseName} is assigned to artists that are no longer on the show — charged to every artist.`);
+      }
       return {
         label: item.label.trim() || "Unlabeled Expense",
         amount: amt,
         ...(item.note?.trim() ? { note: item.note.trim() } : {}),
+        ...(venueOnly ? { deductibility: "venue_only" as const } : {}),
+        ...(cap > 0 ? { cap } : {}),
+        ...(appliesTo.length > 0 && appliesTo.length < artistKeys.length ? { appliesTo } : {}),
       };
     });
 
-  let totalExpenses = round2(parsedExpenseItems.reduce((sum, item) => sum + item.amount, 0));
+  let totalExpenses = sumMoney(parsedExpenseItems.map((item) => item.amount));
+  const itemizedExpenses = totalExpenses;
 
   for (const artist of data.artists) {
     if (artist.buyoutMode === "show_expense") {
       for (const b of artist.buyoutItems) {
         if (b.label.trim() || parseNumber(b.amount) > 0) {
-          const amt = round2(parseNumber(b.amount));
+          const amt = parseMoney(b.amount);
           if (amt < 0) {
             warnings.push(`${artist.artistName || "Artist"} buyout "${b.label || "Unlabeled"}" is negative — ignored.`);
           }
-          if (amt > 0) totalExpenses = round2(totalExpenses + amt);
+          if (amt > 0) totalExpenses += amt;
         }
       }
     }
   }
 
-  if (parsedTiers.length === 0 || grossRevenue <= 0) {
+  const artistNames = data.artists.map((artist, i) => artist.artistName.trim() || `Artist ${i + 1}`);
+  if (isCancellation(outcome)) {
+    // Buyouts are for a show that happened; only itemized costs were incurred.
+    return settleCancelledShow(
+      data,
+      outcome,
+      {
+        currency,
+        refundedTicketRevenue: grossRevenue,
+        totalExpenses: itemizedExpenses,
+        expenseItems: expenseItemResults(parsedExpenseItems, artistKeys, artistNames),
+        artistNames,
+      },
+      warnings
+    );
+  }
+
+  if (parsedTiers.length === 0 || (grossRevenue <= 0 && !options.allowNoSales)) {
     return { ok: false, error: "Please enter at least one ticket tier with a valid price and quantity sold." };
   }
 
-  const taxAmount = taxIsInclusive
-    ? round2((grossRevenue * taxRate) / (100 + taxRate))
-    : round2(grossRevenue * (taxRate / 100));
-  const ccFees = ccFeeRate > 0 ? round2(grossRevenue * (ccFeeRate / 100)) : 0;
-  const netProfit = ccOffTop
-    ? round2(grossRevenue - taxAmount - ccFees - totalExpenses)
-    : round2(grossRevenue - taxAmount - totalExpenses);
+  let proRate: ArtistSettlementContext["proRate"];
+  if (outcome === "shortened") {
+    warnIfNotNumeric(data.scheduledMinutes ?? "", "Scheduled Set Length", warnings);
+    warnIfNotNumeric(data.performedMinutes ?? "", "Minutes Performed", warnings);
+    const scheduledMinutes = parseTicketCount(data.scheduledMinutes ?? "", "Scheduled Set Length", warnings);
+    const performedMinutes = parseTicketCount(data.performedMinutes ?? "", "Minutes Performed", warnings);
+    if (scheduledMinutes <= 0) {
+      return { ok: false, error: "Please enter the scheduled set length to pro-rate a shortened set." };
+    }
+    if (performedMinutes > scheduledMinutes) {
+      warnings.push(
+        `Minutes performed (${performedMinutes}) exceeds the scheduled set (${scheduledMinutes}) — paid in full.`
+      );
+    }
+    proRate = { performedMinutes, scheduledMinutes };
+  }
 
-  const artistResults: ArtistCalcResult[] = [];
+  const namedTaxes = (data.taxes ?? []).filter((tax) => tax.name.trim() || parseNumber(tax.rate) > 0);
+  const parsedTaxes: ParsedTax[] = namedTaxes.length > 0
+    ? namedTaxes.map((tax, i) => {
+        const taxName = tax.name.trim() || `Tax ${i + 1}`;
+        warnIfNotNumeric(tax.rate, `${taxName} Rate`, warnings);
+        return {
+          name: taxName,
+          rate: parsePercent(tax.rate, `${taxName} Rate`, warnings),
+          mode: tax.mode === "inclusive" ? "inclusive" : "exclusive",
+          compound: i > 0 && Boolean(tax.compound),
+          exempt: (tax.exemptTiers ?? []).map((key) => tierKeys.indexOf(key)).filter((idx) => idx >= 0),
+        };
+      })
+    : [{ name: "Tax", rate: taxRate, mode: taxIsInclusive ? "inclusive" : "exclusive", compound: false, exempt: [] }];
+  // Fee shares counted in the artist gross are taxed with the tier they were sold on.
+  const tierFeeShares = allocate(feesToGross, parsedTiers.map((t) => t.revenue));
+  const { taxAmounts, tierTaxes } = computeLayeredTaxes(
+    parsedTaxes,
+    parsedTiers.map((t, i) => t.revenue + tierFeeShares[i] + tierCompChargebacks[i])
+  );
+  const taxAmount = sumMoney(taxAmounts);
+  parsedTiers.forEach((t, i) => {
+    if (taxAmount > 0) t.taxAmount = tierTaxes[i];
+  });
+  const taxResults: TaxResult[] | undefined = namedTaxes.length > 0
+    ? parsedTaxes.map((tax, i) => ({
+        name: tax.name,
+        rate: tax.rate,
+        mode: tax.mode,
+        ...(tax.compound ? { compound: true } : {}),
+        ...(tax.exempt.length > 0 ? { exemptTiers: tax.exempt.map((idx) => parsedTiers[idx].name) } : {}),
+        amount: taxAmounts[i],
+      }))
+    : undefined;
+  const ancillary = summarizeAncillaryRevenue(
+    (data.ancillaryRevenue ?? [])
+      .filter((stream) => stream.label?.trim() || parseNumber(stream.amount) > 0)
+      .map((stream) => {
+        const category = normalizeAncillaryCategory(stream.category);
+        const streamName = `Ancillary "${stream.label?.trim() || category}"`;
+        warnIfNotNumeric(stream.amount, streamName, warnings);
+        const inclusion = normalizeAncillaryInclusion(stream.inclusion);
+        let artistIndex = 0;
+        if (inclusion === "split") {
+          warnIfNotNumeric(stream.artistSharePercent ?? "", `${streamName} Artist %`, warnings);
+          if (data.artists.length === 0) {
+            warnings.push(`${streamName} is split with an artist, but the show has no artists — kept by the venue.`);
+          }
+          if (stream.artistId) {
+            artistIndex = Math.max(0, artistKeys.indexOf(stream.artistId));
+            if (!artistKeys.includes(stream.artistId)) {
+              warnings.push(`${streamName} is split with an artist no longer on the show — paid to ${artistNames[0]}.`);
+            }
+          }
+        }
+        return {
+          category,
+          ...(stream.label?.trim() ? { label: stream.label.trim() } : {}),
+          amount: parseMoneyNonNegative(stream.amount, streamName, warnings),
+          inclusion,
+          artistSharePercent:
+            inclusion === "split" ? parsePercent(stream.artistSharePercent ?? "", `${streamName} Artist %`, warnings) : 0,
+          ...(inclusion === "split" && data.artists.length > 0
+            ? { artistIndex, artistName: artistNames[artistIndex] }
+            : {}),
+        };
+      })
+  );
+  const barGross = parseMoneyNonNegative(data.barGross ?? "", "Bar Gross", warnings);
+  const barCostOfGoods = parseMoneyNonNegative(data.barCostOfGoods ?? "", "Bar Cost of Goods", warnings);
+  warnIfNotNumeric(data.barGross ?? "", "Bar Gross", warnings);
+  warnIfNotNumeric(data.barCostOfGoods ?? "", "Bar Cost of Goods", warnings);
+  const bar = barGross > 0 || barCostOfGoods > 0 ? barRevenue(barGross, barCostOfGoods) : undefined;
+  if (bar && bar.net < 0) {
+    warnings.push(`Bar cost of goods exceeds the bar ring by ${formatMoney(Math.abs(bar.net), currency)}. Verify numbers.`);
+  }
 
-  for (const artist of data.artists) {
-    const aName = artist.artistName.trim() || `Artist ${data.artists.indexOf(artist) + 1}`;
-    const guarantee = round2(parseNonNegative(artist.guarantee, `${aName} Guarantee`, warnings));
-    const percentage = parsePercent(artist.percentage, `${aName} Percentage`, warnings);
+  // Ancillary revenue is not ticket revenue: it carries no ticket tax or card fees.
+  const dealGross = grossRevenue + ancillary.inGross;
+  // Card fees are charged on ticket sales paid by card: not on fee shares or comp
+  // chargebacks added to gross, nor on walk-ups the door took in cash.
+  const doorCashSales = doorReconciliation ? Math.min(doorReconciliation.cash, salesChannels.walkUpRevenue) : 0;
+  const cardTicketSales = faceRevenue - doorCashSales;
+  const ccFees = ccFeeRate > 0 ? applyRate(cardTicketSales, percentToRate(ccFeeRate)) : 0;
+  const netProfit = (ccOffTop
+    ? grossRevenue - taxAmount - ccFees - totalExpenses
+    : grossRevenue - taxAmount - totalExpenses) + ancillary.inGross + ancillary.inNet;
 
-    warnIfNotNumeric(artist.guarantee, `${aName} Guarantee`, warnings);
-    warnIfNotNumeric(artist.percentage, `${aName} Percentage`, warnings);
-    warnIfNotNumeric(artist.deposit, `${aName} Deposit`, warnings);
-    warnIfNotNumeric(artist.withholdingRate, `${aName} Withholding Rate`, warnings);
-    warnIfNotNumeric(artist.breakeven, `${aName} Breakeven`, warnings);
+  const grossTerms: [1 | -1, TraceNode][] = parsedTiers.map((t) => [1, tierTrace(t)]);
+  if (feesToGross > 0) grossTerms.push([1, traceMoney("Ticket Fees in Gross", feesToGross)]);
+  if (compChargebacks > 0) grossTerms.push([1, traceMoney("Comp Chargebacks", compChargebacks)]);
+  const grossTrace = traceTerms("Gross", grossRevenue, grossTerms);
+  const cardSalesTrace =
+    doorCashSales > 0
+      ? traceTerms("Card Ticket Sales", cardTicketSales, [
+          [1, traceMoney("Ticket Sales", faceRevenue)],
+          [-1, traceMoney("Door Cash Sales", doorCashSales)],
+        ])
+      : traceMoney("Card Ticket Sales", cardTicketSales);
+  const ccFeesTrace = traceMoney("Card Fees", ccFees, "CC Fee Rate × Card Ticket Sales", [
+    tracePercent("CC Fee Rate", ccFeeRate),
+    cardSalesTrace,
+  ]);
+  const netTerms: [1 | -1, TraceNode][] = [[1, grossTrace]];
+  if (taxAmount > 0) {
+    netTerms.push([
+      -1,
+      traceTerms(
+        "Tax",
+        taxAmount,
+        parsedTaxes.map((tax, i) => [
+          1,
+          traceMoney(`${tax.name} (${tax.rate}%${tax.mode === "inclusive" ? ", included in price" : ""})`, taxAmounts[i]),
+        ])
+      ),
+    ]);
+  }
+  if (ccOffTop && ccFees > 0) netTerms.push([-1, ccFeesTrace]);
+  netTerms.push([-1, expensesTrace(totalExpenses, parsedExpenseItems, totalExpenses - itemizedExpenses)]);
+  if (ancillary.inGross > 0) netTerms.push([1, traceMoney("Ancillary Revenue (in gross)", ancillary.inGross)]);
+  if (ancillary.inNet > 0) netTerms.push([1, traceMoney("Ancillary Revenue (in net)", ancillary.inNet)]);
+  const netTrace = traceTerms("Net", netProfit, netTerms);
 
-    if (artist.dealType === "guarantee" && guarantee <= 0) {
-      return { ok: false, error: `${aName}: Please enter a valid guarantee amount.` };
-    }
-    if (
-      (artist.dealType === "percentage" ||
-        artist.dealType === "percentage_of_gross" ||
-        artist.dealType === "door_deal") &&
-      percentage <= 0
-    ) {
-      return { ok: false, error: `${aName}: Please enter a valid percentage.` };
-    }
-    if (artist.dealType === "guarantee_vs_percentage" && (guarantee <= 0 || percentage <= 0)) {
-      return { ok: false, error: `${aName}: Please enter both guarantee amount and percentage.` };
-    }
-    if (artist.dealType === "guarantee_plus_percentage" && (guarantee <= 0 || percentage <= 0)) {
-      return { ok: false, error: `${aName}: Please enter both guarantee amount and back-end percentage.` };
-    }
+  const lineup = settleArtistLineup(
+    data.artists,
+    artistNames,
+    normalizeArtistAllocation(data.artistAllocation),
+    { currency, capacity, netProfit, grossRevenue: dealGross, taxAmount, totalExpenses, totalTicketsSold, proRate, bar },
+    // Buyouts run as show expenses are always chargeable; only itemized expenses carry terms.
+    (artistIndex) =>
+      artistDeductibleExpenses(parsedExpenseItems, totalExpenses - itemizedExpenses, artistKeys[artistIndex]),
+    warnings
+  );
+  if (!lineup.ok) return lineup;
+  const artistResults = lineup.artists;
 
-    const breakevenInput = round2(parseNonNegative(artist.breakeven, `${aName} Breakeven`, warnings));
-    const { artistPayout, overage, breakeven: bk } = computeArtistDealPayout(
-      artist.dealType,
-      guarantee,
-      percentage,
-      breakevenInput,
-      netProfit,
-      grossRevenue,
-      taxAmount,
-      totalExpenses
-    );
-
-    const parsedBuyoutItems = artist.buyoutItems
-      .filter((item) => item.label.trim() || parseNumber(item.amount) > 0)
-      .map((item) => {
-        warnIfNotNumeric(item.amount, `${aName} Buyout "${item.label.trim() || "Unlabeled"}"`, warnings);
-        const amt = round2(parseNonNegative(item.amount, `${aName} Buyout "${item.label.trim() || "Unlabeled"}"`, warnings));
-        return { label: item.label.trim() || "Unlabeled Buyout", amount: amt };
-      });
-    const totalBuyouts = round2(parsedBuyoutItems.reduce((s, i) => s + i.amount, 0));
+  const totalArtistPayouts = sumMoney(artistResults.map((a) => a.artistPayout));
+  const totalDeposits = sumMoney(artistResults.map((a) => a.deposit));
+  const totalBalanceDue = sumMoney(artistResults.map((a) => a.balanceDue));
+  const first = artistResults[0];
 
-    const whRate = parsePercent(artist.withholdingRate, `${aName} Withholding Rate`, warnings);
-    const withholdingAmount = whRate > 0 ? round2(artistPayout * (whRate / 100)) : 0;
-    const deposit = round2(parseNonNegative(artist.deposit, `${aName} Deposit`, warnings));
-    const buyoutDeduction = artist.buyoutMode !== "show_expense" && totalBuyouts > 0 ? totalBuyouts : 0;
-    const balanceDue = round2(artistPayout - deposit - withholdingAmount - buyoutDeduction);
+  const venuePayout = (ccOffTop
+    ? netProfit - totalArtistPayouts
+    : netProfit - totalArtistPayouts - ccFees) + venueFeeIncome + ancillary.venueOnly + ancillary.venueShare +
+    // In a rented room the bar belongs to the venue, not the promoter.
+    (bar && normalizeShowMode(data.showMode) !== "promoter" ? bar.net : 0);
 
-    artistResults.push({
-      artistName: aName,
-      dealType: artist.dealType,
-      artistPayout,
-      overage,
-      breakeven: bk,
-      withholdingAmount: withholdingAmount > 0 ? withholdingAmount : undefined,
-      withholdingState: withholdingAmount > 0 && artist.withholdingState?.trim() ? artist.withholdingState.trim() : undefined,
-      buyoutItems: parsedBuyoutItems.length > 0 ? parsedBuyoutItems : undefined,
-      totalBuyouts: totalBuyouts > 0 ? totalBuyouts : undefined,
-      deposit,
-      balanceDue,
-    });
+  const venueTerms: [1 | -1, TraceNode][] = [
+    [1, traceLeaf(netTrace)],
+    [-1, artistPayoutsTrace(totalArtistPayouts, artistResults)],
+  ];
+  if (!ccOffTop && ccFees > 0) venueTerms.push([-1, ccFeesTrace]);
+  if (venueFeeIncome > 0) venueTerms.push([1, traceMoney("Ticket Fee Income", venueFeeIncome)]);
+  if (ancillary.venueOnly > 0) venueTerms.push([1, traceMoney("Ancillary Revenue (venue only)", ancillary.venueOnly)]);
+  if (ancillary.venueShare > 0) venueTerms.push([1, traceMoney("Ancillary Revenue (venue share)", ancillary.venueShare)]);
+  if (bar && normalizeShowMode(data.showMode) !== "promoter" && bar.net !== 0) {
+    venueTerms.push([bar.net < 0 ? -1 : 1, traceMoney("Bar Net", Math.abs(bar.net))]);
   }
+  const venueTrace = traceTerms(
+    normalizeShowMode(data.showMode) === "promoter" ? "Promoter Proceeds" : "Venue Payout",
+    venuePayout,
+    venueTerms
+  );
 
-  const totalArtistPayouts = round2(artistResults.reduce((s, a) => s + a.artistPayout, 0));
-  const totalDeposits = round2(artistResults.reduce((s, a) => s + a.deposit, 0));
-  const totalBalanceDue = round2(artistResults.reduce((s, a) => s + a.balanceDue, 0));
-  const first = artistResults[0];
+  const merchRates: MerchRates = {
+    taxRate: parsePercent(data.merchTaxRate ?? "", "Merch Sales Tax", warnings),
+    cardFeeRate: parsePercent(data.merchCardFeeRate ?? "", "Merch Card Fee Rate", warnings),
+  };
+  warnIfNotNumeric(data.merchTaxRate ?? "", "Merch Sales Tax", warnings);
+  warnIfNotNumeric(data.merchCardFeeRate ?? "", "Merch Card Fee Rate", warnings);
+  data.artists.forEach((artist, artistIndex) => {
+    const merch = artist.merch;
+    const inventoryItems = (merch?.inventory ?? []).filter((item) => item.sku.trim() || item.countIn.trim());
+    if (!merch || (parseNumber(merch.softGross) <= 0 && parseNumber(merch.hardGross) <= 0 && inventoryItems.length === 0)) {
+      return;
+    }
+    const aName = artistNames[artistIndex];
+    const parsed: ParsedArtistMerch = {
+      softGross: parseMoneyNonNegative(merch.softGross, `${aName} Soft Goods Sales`, warnings),
+      hardGross: parseMoneyNonNegative(merch.hardGross, `${aName} Hard Goods Sales`, warnings),
+      softVenuePercent: parsePercent(merch.softVenuePercent, `${aName} Soft Goods Venue %`, warnings),
+      hardVenuePercent: parsePercent(merch.hardVenuePercent, `${aName} Hard Goods Venue %`, warnings),
+      cardSales: parseMoneyNonNegative(merch.cardSales ?? "", `${aName} Merch Card Sales`, warnings),
+      sellerFee: parseMoneyNonNegative(merch.sellerFee ?? "", `${aName} Merch Seller Fee`, warnings),
+    };
+    if (parsed.cardSales > parsed.softGross + parsed.hardGross) {
+      warnings.push(`${aName}: Merch card sales exceed merch sales. Verify numbers.`);
+    }
+    const ar = artistResults[artistIndex];
+    ar.merch = settleArtistMerch(parsed, merchRates);
+    ar.totalDue = ar.balanceDue + ar.merch.netToArtist;
+    if (inventoryItems.length > 0) {
+      const items: ParsedMerchInventoryItem[] = inventoryItems.map((item) => {
+        const sku = item.sku.trim() || "Merch item";
+        return {
+          sku,
+          price: parseMoneyNonNegative(item.price, `${aName} ${sku} Price`, warnings),
+          countIn: parseTicketCount(item.countIn, `${aName} ${sku} Count In`, warnings),
+          adds: parseTicketCount(item.adds ?? "0", `${aName} ${sku} Adds`, warnings),
+          comps: parseTicketCount(item.comps ?? "0", `${aName} ${sku} Comps`, warnings),
+          countOut: parseTicketCount(item.countOut, `${aName} ${sku} Count Out`, warnings),
+        };
+      });
+      const reported = parsed.softGross + parsed.hardGross;
+      const card = Math.min(parsed.cardSales, reported);
+      ar.merch.inventory = reconcileMerchInventory(items, reported - card, card);
+      warnings.push(...merchInventoryWarnings(ar.merch.inventory, aName, currency));
+    }
+  });
+  const artistMerch = artistResults.flatMap((ar) => (ar.merch ? [ar.merch] : []));
 
-  const venuePayout = ccOffTop
-    ? round2(netProfit - totalArtistPayouts)
-    : round2(netProfit - totalArtistPayouts - ccFees);
-
-  const merchGross = round2(parseNonNegative(data.merchGross, "Merch Gross Sales", warnings));
-  const merchVenuePercent = parsePercent(data.merchVenuePercent, "Venue Merch %", warnings);
-  warnIfNotNumeric(data.merchGross, "Merch Gross Sales", warnings);
-  warnIfNotNumeric(data.merchVenuePercent, "Venue Merch %", warnings);
-  const merchVenueCut = merchGross > 0 ? round2(merchGross * (merchVenuePercent / 100)) : 0;
-  const merchNetToArtist = round2(merchGross - merchVenueCut);
-  const totalDueToArtist =
-    merchGross > 0 && artistResults.length === 1 ? round2(first.balanceDue + merchNetToArtist) : undefined;
-
-  if (venuePayout < 0) {
-    warnings.push("Venue payout is negative — the house is taking a loss on this show.");
+  let merchGross: Money;
+  let merchVenueCut: Money;
+  let merchNetToArtist: Money;
+  let totalDueToArtist: Money | undefined;
+  if (artistMerch.length > 0) {
+    merchGross = sumMoney(artistMerch.map((m) => m.softGross + m.hardGross));
+    merchVenueCut = sumMoney(artistMerch.map(merchVenueTake));
+    merchNetToArtist = sumMoney(artistMerch.map((m) => m.netToArtist));
+    totalDueToArtist = artistResults.length === 1 ? first.totalDue : undefined;
+  } else {
+    merchGross = parseMoneyNonNegative(data.merchGross ?? "", "Merch Gross Sales", warnings);
+    const merchVenuePercent = parsePercent(data.merchVenuePercent ?? "", "Venue Merch %", warnings);
+    warnIfNotNumeric(data.merchGross ?? "", "Merch Gross Sales", warnings);
+    warnIfNotNumeric(data.merchVenuePercent ?? "", "Venue Merch %", warnings);
+    merchVenueCut = merchGross > 0 ? applyRate(merchGross, percentToRate(merchVenuePercent)) : 0;
+    merchNetToArtist = merchGross - merchVenueCut;
+    totalDueToArtist =
+      merchGross > 0 && artistResults.length === 1 ? first.balanceDue + merchNetToArtist : undefined;
+  }
+  // Split streams are paid to their artist on top of the show settlement.
+  for (const line of ancillary.lines) {
+    const ar = line.artistIndex != null ? artistResults[line.artistIndex] : undefined;
+    if (!ar || line.artistShare <= 0) continue;
+    ar.ancillaryShare = (ar.ancillaryShare ?? 0) + line.artistShare;
+    ar.totalDue = (ar.totalDue ?? ar.balanceDue) + line.artistShare;
+  }
+  if (ancillary.artistShare > 0 && artistResults.length === 1) {
+    totalDueToArtist = (totalDueToArtist ?? first.balanceDue) + ancillary.artistShare;
   }
+  const merchTax = sumMoney(artistMerch.map((m) => m.tax));
+  const merchCardFees = sumMoney(artistMerch.map((m) => m.cardFees));
 
-  for (const ar of artistResults) {
-    if (ar.balanceDue < 0) {
-      warnings.push(
-        `${ar.artistName}: Artist owes ${formatCurrency(Math.abs(ar.balanceDue))} back to promoter (deposit exceeded payout).`
-      );
+  let venueRental: VenueRentalSettlement | undefined;
+  if (normalizeShowMode(data.showMode) === "promoter") {
+    const rental = data.venueRental;
+    const fields: [keyof VenueRentalInput, string][] = [
+      ["flatRent", "Flat Rent"],
+      ["houseCrewCharges", "House Crew Charges"],
+      ["houseCrewMinimum", "House Crew Minimum"],
+      ["barGuarantee", "Bar Guarantee"],
+      ["deposit", "Rental Deposit"],
+      ["rentPercent", "Rent %"],
+    ];
+    for (const [field, label] of fields) warnIfNotNumeric(rental?.[field] ?? "", label, warnings);
+    // Bar sales are the show's bar ring; older rentals carried their own figure.
+    let barSales = bar?.gross ?? 0;
+    if (!bar && rental?.barSales?.trim()) {
+      warnIfNotNumeric(rental.barSales, "Bar Sales", warnings);
+      barSales = parseMoneyNonNegative(rental.barSales, "Bar Sales", warnings);
+    }
+    venueRental = settleVenueRental(
+      {
+        flatRent: parseMoneyNonNegative(rental?.flatRent ?? "", "Flat Rent", warnings),
+        rentPercent: parsePercent(rental?.rentPercent ?? "", "Rent %", warnings),
+        houseCrewCharges: parseMoneyNonNegative(rental?.houseCrewCharges ?? "", "House Crew Charges", warnings),
+        houseCrewMinimum: parseMoneyNonNegative(rental?.houseCrewMinimum ?? "", "House Crew Minimum", warnings),
+        barGuarantee: parseMoneyNonNegative(rental?.barGuarantee ?? "", "Bar Guarantee", warnings),
+        barSales,
+        artistBar: sumMoney(artistResults.map((ar) => ar.bar?.total ?? 0)),
+        deposit: parseMoneyNonNegative(rental?.deposit ?? "", "Rental Deposit", warnings),
+      },
+      grossRevenue - taxAmount,
+      venuePayout
+    );
+    if (venueRental.rent + venueRental.houseCrew + venueRental.barShortfall === 0) {
+      warnings.push("Promoter mode is on but no rent, house crew or bar guarantee was entered.");
     }
   }
 
   return {
     ok: true,
     result: {
+      moneyUnit: "cents",
+      currency,
       grossRevenue,
+      ...(ticketFees.length > 0
+        ? {
+            ticketingGross: faceRevenue + sumMoney(ticketFees.map((fee) => fee.total)),
+            ticketFees,
+            venueFeeIncome: venueFeeIncome > 0 ? venueFeeIncome : undefined,
+          }
+        : {}),
       ticketTiers: parsedTiers,
       totalTicketsSold,
       totalComps,
+      salesChannels: salesChannels.walkUpSold > 0 ? salesChannels : undefined,
+      doorReconciliation,
+      compCategories: compCategories.length > 0 ? compCategories : undefined,
+      compChargebacks: compChargebacks > 0 ? compChargebacks : undefined,
       taxAmount,
+      taxes: taxResults,
       totalExpenses,
-      expenseItems: parsedExpenseItems,
+      expenseItems: expenseItemResults(parsedExpenseItems, artistKeys, artistNames),
       netProfit,
       artists: artistResults,
+      artistWaterfall: lineup.waterfall,
       artistPayout: totalArtistPayouts,
       overage: first?.overage,
       breakeven: first?.breakeven,
@@ -404,11 +1411,54 @@ export function computeSettlement(data: CalculationInput): ComputeOutput {
       venuePayout,
       merchGross: merchGross > 0 ? merchGross : undefined,
       merchVenueCut: merchGross > 0 ? merchVenueCut : undefined,
+      merchTax: merchTax > 0 ? merchTax : undefined,
+      merchCardFees: merchCardFees > 0 ? merchCardFees : undefined,
       merchNetToArtist: merchGross > 0 ? merchNetToArtist : undefined,
       totalDueToArtist,
+      outcome: proRate ? { outcome, ...proRate } : undefined,
+      venueRental,
+      bar,
+      ancillary: ancillary.lines.length > 0 ? ancillary : undefined,
+      trace: { netProfit: netTrace, venuePayout: venueTrace },
       notes: data.notes?.trim() || undefined,
       calculatedAt: new Date().toISOString(),
     },
     warnings,
   };
 }
+
+/** Warnings about who is out of pocket once the settlement is done. */
+export function settlementOutcomeWarnings(
+  result: Pick<CalculationResult, "venuePayout" | "artists" | "currency" | "venueRental">,
+  subject = "show"
+): string[] {
+  const warnings: string[] = [];
+  if (result.venueRental) {
+    if (result.venueRental.promoterNet < 0) {
+      warnings.push(
+        `Promoter net is negative — the promoter is taking a loss of ${formatMoney(Math.abs(result.venueRental.promoterNet), result.currency)} on this ${subject} after venue rental.`
+      );
+    }
+  } else if (result.venuePayout < 0) {
+    warnings.push(`Venue payout is negative — the house is taking a loss on this ${subject}.`);
+  }
+  for (const ar of result.artists) {
+    if (ar.balanceDue < 0 && ar.depositRefund) {
+      // Cancellations pay nothing out; the deposit comes back under the cancellation terms.
+      warnings.push(
+        `${ar.artistName}: Artist refunds ${formatMoney(Math.abs(ar.balanceDue), result.currency)} of the deposit to the promoter under the cancellation terms.`
+      );
+    } else if (ar.balanceDue < 0) {
+      warnings.push(
+        `${ar.artistName}: Artist owes ${formatMoney(Math.abs(ar.balanceDue), result.currency)} back to promoter (deposit exceeded payout).`
+      );
+    }
+  }
+  return warnings;
+}
+
+export function computeSettlement(data: CalculationInput, options: SettleOptions = {}): ComputeOutput {
+  const output = settleShow(data, options);
+  if (output.ok) output.warnings.push(...settlementOutcomeWarnings(output.result));
+  return output;
+}
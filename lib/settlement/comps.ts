@@ -0,0 +1,89 @@
+/**
+ * Comp categories and contract allowances. Comps over a category's
+ * allowance are charged back at the tier's face value into gross;
+ * allowances are used up in tier order.
+ */
+
+import { formatMoney, type Money } from "./money";
+
+export type CompCategory = "artist" | "house" | "promo" | "paid";
+
+export const COMP_CATEGORIES = [
+  { category: "artist", label: "Artist Comps" },
+  { category: "house", label: "House Comps" },
+  { category: "promo", label: "Promo Comps" },
+  // Paid comps are always charged back unless the contract grants an allowance.
+  { category: "paid", label: "Paid Comps", defaultAllowance: 0 },
+] as const satisfies readonly { category: CompCategory; label: string; defaultAllowance?: number }[];
+
+export interface CompCategoryResult {
+  category: CompCategory;
+  label: string;
+  count: number;
+  /** Absent when the category has no cap. */
+  allowance?: number;
+  overAllowance: number;
+  chargeback: Money;
+}
+
+export interface TierCompChargeback {
+  category: CompCategory;
+  count: number;
+  amount: Money;
+}
+
+/**
+ * Applies allowances to per-tier category counts. Returns the per-category
+ * summary (categories with no comps omitted) and each tier's chargebacks.
+ */
+export function computeCompChargebacks(
+  tiers: { price: Money; compsByCategory?: Partial<Record<CompCategory, number>> }[],
+  allowances: Partial<Record<CompCategory, number | null>>
+): { categories: CompCategoryResult[]; tierChargebacks: TierCompChargeback[][] } {
+  const tierChargebacks: TierCompChargeback[][] = tiers.map(() => []);
+  const categories: CompCategoryResult[] = [];
+
+  for (const entry of COMP_CATEGORIES) {
+    const { category, label } = entry;
+    const count = tiers.reduce((sum, t) => sum + (t.compsByCategory?.[category] ?? 0), 0);
+    if (count <= 0) continue;
+
+    const configured = allowances[category];
+    const allowance = configured === undefined ? ("defaultAllowance" in entry ? entry.defaultAllowance : null) : configured;
+    if (allowance == null) {
+      categories.push({ category, label, count, overAllowance: 0, chargeback: 0 });
+      continue;
+    }
+
+    let remaining = allowance;
+    let chargeback = 0;
+    tiers.forEach((t, i) => {
+      const tierCount = t.compsByCategory?.[category] ?? 0;
+      const covered = Math.min(tierCount, remaining);
+      remaining -= covered;
+      const over = tierCount - covered;
+      if (over > 0) {
+        tierChargebacks[i].push({ category, count: over, amount: over * t.price });
+        chargeback += over * t.price;
+      }
+    });
+    categories.push({ category, label, count, allowance, overAllowance: Math.max(0, count - allowance), chargeback });
+  }
+
+  return { categories, tierChargebacks };
+}
+
+function categoryLabel(category: CompCategory): string {
+  return COMP_CATEGORIES.find((c) => c.category === category)?.label ?? "Comps";
+}
+
+/** e.g. "GA House Comps over allowance (4 × $25.00)". */
+export function describeCompChargeback(tierName: string, price: Money, line: TierCompChargeback, currency: string): string {
+  return `${tierName} ${categoryLabel(line.category)} over allowance (${line.count} × ${formatMoney(price, currency)})`;
+}
+
+/** e.g. "12 (allowance 10, 2 over)". */
+export function describeCompCount(result: CompCategoryResult): string {
+  if (result.allowance == null) return String(result.count);
+  return `${result.count} (allowance ${result.allowance}${result.overAllowance > 0 ? `, ${result.overAllowance} over` : ""})`;
+}
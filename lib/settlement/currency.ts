@@ -0,0 +1,49 @@
+/**
+ * Settlement currencies and FX conversion — shared between client and server.
+ * Only two-decimal currencies are supported so every amount stays in cents.
+ */
+
+import { mulDiv, type Money } from "./money";
+
+export const SUPPORTED_CURRENCIES = [
+  { code: "USD", label: "US Dollar (USD)" },
+  { code: "CAD", label: "Canadian Dollar (CAD)" },
+  { code: "GBP", label: "British Pound (GBP)" },
+  { code: "EUR", label: "Euro (EUR)" },
+  { code: "AUD", label: "Australian Dollar (AUD)" },
+] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number]["code"];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "USD";
+
+/** FX rates are kept to six decimal places (1.352100 → 1352100). */
+const FX_SCALE = 1_000_000;
+
+export function isSupportedCurrency(code: string | undefined): code is CurrencyCode {
+  return SUPPORTED_CURRENCIES.some((c) => c.code === code);
+}
+
+export function normalizeCurrency(code: string | undefined): CurrencyCode {
+  const upper = code?.trim().toUpperCase();
+  return isSupportedCurrency(upper) ? upper : DEFAULT_CURRENCY;
+}
+
+/**
+ * Parses an FX rate (units of payout currency per one unit of show currency)
+ * into a scaled integer; returns 0 for blank, invalid or non-positive input.
+ */
+export function parseFxRate(value: string | undefined): number {
+  const match = /^\s*(\d*)(?:\.(\d*))?\s*$/.exec(value ?? "");
+  if (!match || (!match[1] && !match[2])) return 0;
+  const fraction = (match[2] || "").padEnd(6, "0").slice(0, 6);
+  return Number(match[1] || "0") * FX_SCALE + Number(fraction);
+}
+
+export function formatFxRate(scaledRate: number): string {
+  return String(scaledRate / FX_SCALE);
+}
+
+export function convertMoney(amount: Money, scaledRate: number): Money {
+  return mulDiv(amount, scaledRate, FX_SCALE);
+}
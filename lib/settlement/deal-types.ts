@@ -0,0 +1,413 @@
+/**
+ * Deal type registry. Each deal type declares the terms its form asks for
+ * and requires, how it pays out (with its derivation trace), and how it is
+ * labelled and summarised. The engine, calculator form, results, CSV export,
+ * goal-seek and share page all read deal behaviour from `DEAL_TYPES`, so a
+ * new deal type is one new entry here.
+ */
+
+import type { ArtistCalcResult, ProfitSplitWaterfall } from "./calculate";
+import { evaluateFormula, FORMULA_VARIABLES, type CompiledFormula, type FormulaValues } from "./formula";
+import { applyRate, formatMoney, percentToRate, type Money } from "./money";
+import { findTraceNode, traceCount, traceMoney, tracePercent, traceTerms, type TraceNode } from "./trace";
+
+export type DealType =
+  | "guarantee"
+  | "percentage"
+  | "guarantee_vs_percentage"
+  | "guarantee_plus_percentage"
+  | "percentage_of_gross"
+  | "door_deal"
+  | "promoter_profit_split"
+  | "custom";
+
+export type PromoterProfitMode = "percent_of_expenses" | "flat";
+
+export interface PromoterProfitTerms {
+  mode: PromoterProfitMode;
+  /** Percentage of expenses + guarantee (percent_of_expenses) */
+  percent: number;
+  /** Flat amount (flat) */
+  amount: Money;
+}
+
+/** Show-level figures a deal is settled against, as the artist's contract sees them. */
+export interface DealContext {
+  currency: string;
+  netProfit: Money;
+  /** Derivation of `netProfit`; a plain figure when absent. */
+  netTrace?: TraceNode;
+  grossRevenue: Money;
+  taxAmount: Money;
+  totalExpenses: Money;
+  totalTicketsSold: number;
+  capacity: number;
+}
+
+/** One artist's parsed terms. Terms a deal type does not ask for are 0. */
+export interface DealTerms {
+  guarantee: Money;
+  percentage: number;
+  /** Entered breakeven; 0 means work it out. */
+  breakeven: Money;
+  promoterProfit: PromoterProfitTerms;
+  /** Custom deals; compiled by the engine, which reports syntax and type errors. */
+  formula?: CompiledFormula;
+}
+
+/** Entered terms the results summary describes. */
+export interface DealSummaryTerms {
+  guarantee: Money;
+  percentage: number;
+  /** The net the deal settled against. */
+  net: Money;
+  formula?: string;
+}
+
+/** The deal's percentage as the engine applies it: flat, or an escalator schedule. */
+export interface DealShare {
+  /** The flat percentage; undefined when an escalator schedule applies. */
+  percent?: number;
+  of(base: Money): Money;
+  /** Trace of `amount`, the share just taken of `base`. */
+  trace(label: string, amount: Money, base: TraceNode): TraceNode;
+}
+
+export interface DealPayout {
+  artistPayout: Money;
+  overage?: Money;
+  breakeven?: Money;
+  profitSplit?: ProfitSplitWaterfall;
+  trace: TraceNode;
+  overageTrace?: TraceNode;
+  /** Set when the payout can't be worked out from these figures (a custom formula dividing by zero). */
+  error?: string;
+}
+
+export interface DealTypeDefinition {
+  type: DealType;
+  /** Option text in the form; also the share page's "Deal Type". */
+  label: string;
+  /** Option tooltip. */
+  title: string;
+  /** Hint shown under the deal type select. */
+  help: string;
+  /** Terms the form asks for. A percentage also brings the escalating-percentage option. */
+  fields: {
+    guarantee?: { required: boolean };
+    percentage?: { label: string; required: boolean };
+    breakeven?: boolean;
+    promoterProfit?: boolean;
+    formula?: boolean;
+  };
+  /** Validation message when a required term is missing. */
+  missingTermsError: string;
+  /** Pays beyond its guarantee on a strong show; goal-seek solves for the ticket count where that starts. */
+  hasOverage: boolean;
+  payout(terms: DealTerms, ctx: DealContext, share: DealShare): DealPayout;
+  /** Suffix for the payout row, e.g. "Guarantee + Overage"; `percentage` as entered. */
+  payoutBasis?(percentage: string): string;
+  /** Results line, e.g. "Artist gets: 85% of net → $4,250.00". */
+  summary(ar: ArtistCalcResult, terms: DealSummaryTerms, currency: string): string;
+}
+
+/**
+ * Net receipts → less guarantee → less promoter profit → remainder splits
+ * artist/promoter at the artist split percentage.
+ */
+function computeProfitSplit(
+  guarantee: Money,
+  splitPercent: number | undefined,
+  share: DealShare,
+  terms: PromoterProfitTerms,
+  ctx: DealContext
+): ProfitSplitWaterfall {
+  const promoterProfit =
+    terms.mode === "flat"
+      ? terms.amount
+      : applyRate(ctx.totalExpenses + guarantee, percentToRate(terms.percent));
+  const splitPoint = ctx.totalExpenses + guarantee + promoterProfit;
+  const splitPool = Math.max(0, ctx.netProfit - guarantee - promoterProfit);
+  const artistSplit = share.of(splitPool);
+  return {
+    netReceipts: ctx.netProfit,
+    guarantee,
+    promoterProfit,
+    promoterProfitMode: terms.mode,
+    promoterProfitPercent: terms.mode === "flat" ? undefined : terms.percent,
+    splitPoint,
+    splitPool,
+    artistSplitPercent: splitPercent,
+    artistSplit,
+    promoterSplit: splitPool - artistSplit,
+  };
+}
+
+const netNode = (ctx: DealContext) => ctx.netTrace ?? traceMoney("Net", ctx.netProfit);
+const guaranteeNode = (terms: DealTerms) => traceMoney("Guarantee", terms.guarantee);
+const grossNode = (ctx: DealContext) => traceMoney("Gross", ctx.grossRevenue);
+
+export const DEAL_TYPES: DealTypeDefinition[] = [
+  {
+    type: "guarantee",
+    label: "Guarantee",
+    title: "Artist receives a fixed amount regardless of show performance",
+    help: "Flat payout regardless of show performance.",
+    fields: { guarantee: { required: true } },
+    missingTermsError: "Please enter a valid guarantee amount.",
+    hasOverage: false,
+    payout: (terms) => ({
+      artistPayout: terms.guarantee,
+      trace: traceMoney("Deal Payout", terms.guarantee, "Guarantee", [guaranteeNode(terms)]),
+    }),
+    summary: (ar, _terms, currency) => `Artist gets: ${formatMoney(ar.artistPayout, currency)} guarantee`,
+  },
+  {
+    type: "percentage",
+    label: "Percentage of Net",
+    title: "Artist receives a percentage of net profit (after tax and expenses)",
+    help: "Artist receives a percentage of net profit after tax and expenses.",
+    fields: { percentage: { label: "Percentage", required: true } },
+    missingTermsError: "Please enter a valid percentage.",
+    hasOverage: false,
+    payout: (_terms, ctx, share) => {
+      const artistPayout = share.of(ctx.netProfit);
+      return { artistPayout, trace: share.trace("Deal Payout", artistPayout, netNode(ctx)) };
+    },
+    summary: (ar, { percentage }, currency) =>
+      `Artist gets: ${percentage}% of net → ${formatMoney(ar.artistPayout, currency)}`,
+  },
+  {
+    type: "guarantee_vs_percentage",
+    label: "Guarantee vs Percentage (whichever is higher)",
+    title: "Artist gets the higher of: guarantee OR percentage of net",
+    help: "Artist receives whichever is higher: guarantee or percentage of net.",
+    fields: { guarantee: { required: true }, percentage: { label: "Percentage", required: true } },
+    missingTermsError: "Please enter both guarantee amount and percentage.",
+    hasOverage: true,
+    payout: (terms, ctx, share) => {
+      const percentageShare = share.of(ctx.netProfit);
+      const artistPayout = Math.max(terms.guarantee, percentageShare);
+      return {
+        artistPayout,
+        trace: traceMoney("Deal Payout", artistPayout, "max(Guarantee, Percentage Share)", [
+          guaranteeNode(terms),
+          share.trace("Percentage Share", percentageShare, netNode(ctx)),
+        ]),
+      };
+    },
+    summary: (ar, { guarantee, percentage, net }, currency) => {
+      // Results saved before derivation traces have no engine figure to read.
+      const pctShare =
+        (ar.trace && findTraceNode(ar.trace.payout, "Percentage Share")?.value) ??
+        applyRate(Math.max(0, net), percentToRate(percentage));
+      return `Artist gets: ${formatMoney(guarantee, currency)} guarantee OR ${percentage}% of net (${formatMoney(pctShare, currency)}), whichever is higher → ${formatMoney(ar.artistPayout, currency)}`;
+    },
+  },
+  {
+    type: "guarantee_plus_percentage",
+    label: "Guarantee + Back-End Percentage",
+    title: "Artist gets guarantee plus a percentage of net above breakeven",
+    help: "Artist receives guarantee plus backend percentage above breakeven.",
+    fields: {
+      guarantee: { required: true },
+      percentage: { label: "Back-End Percentage", required: true },
+      breakeven: true,
+    },
+    missingTermsError: "Please enter both guarantee amount and back-end percentage.",
+    hasOverage: true,
+    payout: (terms, ctx, share) => {
+      const guarantee = guaranteeNode(terms);
+      const breakeven = terms.breakeven > 0 ? terms.breakeven : terms.guarantee + ctx.totalExpenses;
+      const overage = share.of(ctx.netProfit - breakeven);
+      const breakevenNode =
+        terms.breakeven > 0
+          ? traceMoney("Breakeven", breakeven)
+          : traceTerms("Breakeven", breakeven, [[1, guarantee], [1, traceMoney("Expenses", ctx.totalExpenses)]]);
+      const overageTrace = share.trace(
+        "Overage",
+        overage,
+        traceTerms("Net Above Breakeven", ctx.netProfit - breakeven, [[1, netNode(ctx)], [-1, breakevenNode]])
+      );
+      const artistPayout = terms.guarantee + overage;
+      return {
+        artistPayout,
+        overage,
+        breakeven,
+        trace: traceTerms("Deal Payout", artistPayout, [[1, guarantee], [1, overageTrace]]),
+        overageTrace,
+      };
+    },
+    payoutBasis: () => "Guarantee + Overage",
+    summary: (ar, { guarantee, percentage }, currency) =>
+      `Artist gets: ${formatMoney(guarantee, currency)} guarantee + ${percentage}% of net above breakeven → ${formatMoney(ar.artistPayout, currency)}`,
+  },
+  {
+    type: "percentage_of_gross",
+    label: "Percentage of Gross (before deductions)",
+    title: "Artist receives a percentage of gross revenue (before expenses)",
+    help: "Artist receives a percentage of gross ticket revenue before deductions.",
+    fields: { percentage: { label: "Percentage", required: true } },
+    missingTermsError: "Please enter a valid percentage.",
+    hasOverage: false,
+    payout: (_terms, ctx, share) => {
+      const artistPayout = share.of(ctx.grossRevenue);
+      return { artistPayout, trace: share.trace("Deal Payout", artistPayout, grossNode(ctx)) };
+    },
+    payoutBasis: (percentage) => `${percentage}% of Gross`,
+    summary: (ar, { percentage }, currency) =>
+      `Artist gets: ${percentage}% of gross → ${formatMoney(ar.artistPayout, currency)}`,
+  },
+  {
+    type: "door_deal",
+    label: "Door Deal (% of gross after tax)",
+    title: "Artist receives a percentage of gross after tax (no expenses deducted)",
+    help: "Artist receives a percentage of gross after tax, before expenses.",
+    fields: { percentage: { label: "Percentage", required: true } },
+    missingTermsError: "Please enter a valid percentage.",
+    hasOverage: false,
+    payout: (_terms, ctx, share) => {
+      const base = ctx.grossRevenue - ctx.taxAmount;
+      const artistPayout = share.of(base);
+      return {
+        artistPayout,
+        trace: share.trace(
+          "Deal Payout",
+          artistPayout,
+          traceTerms("Gross After Tax", base, [[1, grossNode(ctx)], [-1, traceMoney("Tax", ctx.taxAmount)]])
+        ),
+      };
+    },
+    payoutBasis: (percentage) => `${percentage}% of Gross After Tax`,
+    summary: (ar, { percentage }, currency) =>
+      `Artist gets: ${percentage}% of gross after tax → ${formatMoney(ar.artistPayout, currency)}`,
+  },
+  {
+    type: "promoter_profit_split",
+    label: "Promoter Profit Split (guarantee + expenses + profit, then split)",
+    title: "Guarantee plus a split of net after expenses, guarantee and promoter profit",
+    help: "After expenses, the guarantee and the promoter's profit come off net, the remainder splits between artist and promoter.",
+    fields: {
+      guarantee: { required: false },
+      percentage: { label: "Artist Split", required: true },
+      promoterProfit: true,
+    },
+    missingTermsError: "Please enter the artist split percentage.",
+    hasOverage: true,
+    payout: (terms, ctx, share) => {
+      const guarantee = guaranteeNode(terms);
+      const profitSplit = computeProfitSplit(terms.guarantee, share.percent, share, terms.promoterProfit, ctx);
+      const artistPayout = terms.guarantee + profitSplit.artistSplit;
+      const promoterProfitNode =
+        terms.promoterProfit.mode === "flat"
+          ? traceMoney("Promoter Profit", profitSplit.promoterProfit)
+          : traceMoney("Promoter Profit", profitSplit.promoterProfit, "Promoter Profit % × (Expenses + Guarantee)", [
+              tracePercent("Promoter Profit %", terms.promoterProfit.percent),
+              traceMoney("Expenses", ctx.totalExpenses),
+              guarantee,
+            ]);
+      const splitPool = traceMoney("Split Pool", profitSplit.splitPool, "max(0, Net − Guarantee − Promoter Profit)", [
+        netNode(ctx),
+        guarantee,
+        promoterProfitNode,
+      ]);
+      return {
+        artistPayout,
+        profitSplit,
+        trace: traceTerms("Deal Payout", artistPayout, [
+          [1, guarantee],
+          [1, share.trace("Artist Split", profitSplit.artistSplit, splitPool)],
+        ]),
+      };
+    },
+    payoutBasis: () => "Guarantee + Split",
+    summary: (ar, { guarantee, percentage }, currency) =>
+      `Artist gets: ${formatMoney(guarantee, currency)} guarantee + ${percentage}% of net after guarantee and promoter profit → ${formatMoney(ar.artistPayout, currency)}`,
+  },
+  {
+    type: "custom",
+    label: "Custom Formula (one-off contract)",
+    title: "Artist payout is worked out from a formula of the show's figures",
+    help: "For contracts no other deal type fits. Write the payout as a formula of the show's figures.",
+    fields: { guarantee: { required: false }, formula: true },
+    missingTermsError: "Please enter a deal formula.",
+    hasOverage: false,
+    payout: (terms, ctx) => {
+      if (!terms.formula) return { artistPayout: 0, trace: traceMoney("Deal Payout", 0) };
+      const values: FormulaValues = {
+        gross: ctx.grossRevenue,
+        net: ctx.netProfit,
+        taxes: ctx.taxAmount,
+        expenses: ctx.totalExpenses,
+        tickets: ctx.totalTicketsSold,
+        capacity: ctx.capacity,
+        guarantee: terms.guarantee,
+      };
+      const evaluated = evaluateFormula(terms.formula, values);
+      if (!evaluated.ok) return { artistPayout: 0, trace: traceMoney("Deal Payout", 0), error: evaluated.error };
+      const artistPayout = evaluated.amount;
+      return {
+        artistPayout,
+        trace: traceMoney(
+          "Deal Payout",
+          artistPayout,
+          terms.formula.source,
+          terms.formula.variables.map((name) =>
+            FORMULA_VARIABLES[name] === "money" ? traceMoney(name, values[name]) : traceCount(name, values[name])
+          )
+        ),
+      };
+    },
+    payoutBasis: () => "Custom Formula",
+    summary: (ar, { formula }, currency) =>
+      `Artist gets: ${formula?.trim() || "custom formula"} → ${formatMoney(ar.artistPayout, currency)}`,
+  },
+];
+
+const DEAL_TYPES_BY_TYPE = new Map<string, DealTypeDefinition>(DEAL_TYPES.map((deal) => [deal.type, deal]));
+
+/** Undefined for types this build does not know (e.g. from a newer saved show). */
+export function getDealType(type: string | undefined): DealTypeDefinition | undefined {
+  return type ? DEAL_TYPES_BY_TYPE.get(type) : undefined;
+}
+
+export function describeDealType(type: string): string {
+  return getDealType(type)?.label ?? type;
+}
+
+/** e.g. "Back-End Percentage"; plain "Percentage" for deal types without their own. */
+export function describeDealPercentage(type: string): string {
+  return getDealType(type)?.fields.percentage?.label ?? "Percentage";
+}
+
+/** Suffix for an artist's payout row, e.g. " (Guarantee + Overage)"; empty when the deal has none. */
+export function describePayoutBasis(type: string, percentage: string): string {
+  const basis = getDealType(type)?.payoutBasis?.(percentage);
+  return basis ? ` (${basis})` : "";
+}
+
+export function describeDealSummary(ar: ArtistCalcResult, terms: DealSummaryTerms, currency: string): string {
+  const deal = getDealType(ar.dealType);
+  return deal ? deal.summary(ar, terms, currency) : `Artist gets: ${formatMoney(ar.artistPayout, currency)}`;
+}
+
+/**
+ * Null when the terms a deal type requires are present. An escalator
+ * schedule stands in for the flat percentage (`hasPercentTerms`).
+ */
+export function validateDealTerms(
+  type: string,
+  terms: { guarantee: Money; hasPercentTerms: boolean; formula: string }
+): string | null {
+  const deal = getDealType(type);
+  if (!deal) return null;
+  const { fields } = deal;
+  if (
+    (fields.guarantee?.required && terms.guarantee <= 0) ||
+    (fields.percentage?.required && !terms.hasPercentTerms) ||
+    (fields.formula && !terms.formula.trim())
+  ) {
+    return deal.missingTermsError;
+  }
+  return null;
+}
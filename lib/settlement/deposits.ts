@@ -0,0 +1,195 @@
+/**
+ * Deposit schedules: an artist's deposit paid in installments ("50% at
+ * signing, another 25% 30 days out"). Each installment is an amount or a
+ * percentage of the guarantee, with a due date and, once paid, the paid
+ * date, method and reference number. Only paid installments come off the
+ * balance due; an unpaid installment past its due date is overdue.
+ */
+
+import { applyRate, formatMoney, parseMoney, percentToRate, RATE_SCALE, sumMoney, type Money } from "./money";
+import { parseMoneyNonNegative, parsePercent, warnIfNotNumeric } from "./parse";
+
+export type DepositAmountMode = "amount" | "percent";
+export type DepositMethod = "wire" | "ach" | "check" | "card" | "cash" | "other";
+
+export const DEPOSIT_METHODS: { value: DepositMethod; label: string }[] = [
+  { value: "wire", label: "Wire" },
+  { value: "ach", label: "ACH" },
+  { value: "check", label: "Check" },
+  { value: "card", label: "Card" },
+  { value: "cash", label: "Cash" },
+  { value: "other", label: "Other" },
+];
+
+export interface DepositInstallmentInput {
+  id?: string;
+  /** "percent" reads `amount` as a percentage of the guarantee. */
+  amountMode: string;
+  amount: string;
+  /** YYYY-MM-DD; blank when paid on signing without a due date. */
+  dueDate: string;
+  /** YYYY-MM-DD; blank until the installment is paid. */
+  paidDate: string;
+  method: string;
+  reference: string;
+}
+
+export interface DepositInstallment {
+  amount: Money;
+  /** Set when the installment is a percentage of the guarantee. */
+  percent?: number;
+  dueDate?: string;
+  paidDate?: string;
+  method?: DepositMethod;
+  reference?: string;
+}
+
+export interface DepositSchedule {
+  installments: DepositInstallment[];
+  /** Every installment, paid or not. */
+  scheduled: Money;
+  /** Paid installments; this is the deposit that comes off the balance due. */
+  paid: Money;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function normalizeDepositAmountMode(value: string | undefined): DepositAmountMode {
+  return value === "percent" ? "percent" : "amount";
+}
+
+export function normalizeDepositMethod(value: string | undefined): DepositMethod | undefined {
+  return DEPOSIT_METHODS.find((m) => m.value === value)?.value;
+}
+
+function readDate(value: string, fieldName: string, warnings: string[]): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (!ISO_DATE.test(trimmed)) {
+    warnings.push(`${fieldName} "${trimmed}" is not a date — ignored.`);
+    return undefined;
+  }
+  return trimmed;
+}
+
+/**
+ * Returns null when no installment is entered, in which case the single
+ * `deposit` figure applies. Percentages are of `guarantee`.
+ */
+export function parseDepositSchedule(
+  inputs: DepositInstallmentInput[] | undefined,
+  guarantee: Money,
+  fieldPrefix: string,
+  warnings: string[]
+): DepositSchedule | null {
+  const installments: DepositInstallment[] = [];
+
+  (inputs ?? []).forEach((input, i) => {
+    if (!input.amount.trim() && !input.dueDate.trim() && !input.paidDate.trim()) return;
+    const field = `${fieldPrefix} Installment ${i + 1}`;
+    const trimmed = input.amount.trim();
+
+    let amount: Money;
+    let percent: number | undefined;
+    if (normalizeDepositAmountMode(input.amountMode) === "percent") {
+      warnIfNotNumeric(trimmed, `${field} %`, warnings);
+      percent = parsePercent(trimmed, `${field} %`, warnings);
+      if (guarantee <= 0) warnings.push(`${field} is a percentage of the guarantee, but no guarantee was entered.`);
+      amount = applyRate(guarantee, percentToRate(percent));
+    } else {
+      // Amounts may be typed with a currency sign or thousands separators.
+      warnIfNotNumeric(trimmed.replace(/[$,]/g, ""), field, warnings);
+      amount = parseMoneyNonNegative(trimmed, field, warnings);
+    }
+
+    const paidDate = readDate(input.paidDate, `${field} Paid Date`, warnings);
+    if (paidDate && amount <= 0) warnings.push(`${field} is marked paid but has no amount.`);
+    installments.push({
+      amount,
+      percent,
+      dueDate: readDate(input.dueDate, `${field} Due Date`, warnings),
+      paidDate,
+      method: normalizeDepositMethod(input.method),
+      reference: input.reference.trim() || undefined,
+    });
+  });
+
+  if (installments.length === 0) return null;
+  // Summed as rates so 33.3 + 33.3 + 33.4 is exactly 100%.
+  const totalRate = installments.reduce((sum, inst) => sum + percentToRate(inst.percent ?? 0), 0);
+  if (totalRate > percentToRate(100)) {
+    warnings.push(
+      `${fieldPrefix} installments add up to ${totalRate / RATE_SCALE}% of the guarantee — more than the guarantee.`
+    );
+  }
+  return {
+    installments,
+    scheduled: sumMoney(installments.map((inst) => inst.amount)),
+    paid: sumMoney(installments.filter((inst) => inst.paidDate).map((inst) => inst.amount)),
+  };
+}
+
+/** Today as YYYY-MM-DD in local time, for comparing with due dates. */
+export function todayIsoDate(now: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function isInstallmentOverdue(installment: DepositInstallment, today: string): boolean {
+  return !installment.paidDate && !!installment.dueDate && installment.dueDate < today;
+}
+
+/** e.g. "Installment 2 — 25% of guarantee, due 2026-09-01". */
+export function describeDepositInstallment(installment: DepositInstallment, index: number): string {
+  const terms = [
+    installment.percent != null ? `${installment.percent}% of guarantee` : "",
+    installment.dueDate ? `due ${installment.dueDate}` : "",
+  ].filter(Boolean);
+  return `Installment ${index + 1}${terms.length > 0 ? ` — ${terms.join(", ")}` : ""}`;
+}
+
+/** e.g. "Paid 2026-08-30 by Wire, ref 88213", "Overdue" or "Not yet paid". */
+export function describeInstallmentStatus(installment: DepositInstallment, today: string): string {
+  if (installment.paidDate) {
+    const method = DEPOSIT_METHODS.find((m) => m.value === installment.method)?.label;
+    return [
+      `Paid ${installment.paidDate}`,
+      method ? ` by ${method}` : "",
+      installment.reference ? `, ref ${installment.reference}` : "",
+    ].join("");
+  }
+  return isInstallmentOverdue(installment, today) ? "Overdue" : "Not yet paid";
+}
+
+export interface OverdueDeposit {
+  artistName: string;
+  amount: Money;
+  dueDate: string;
+}
+
+/**
+ * Unpaid installments past due across a saved show's artists, read from
+ * the stored inputs so drafts are flagged too.
+ */
+export function findOverdueDeposits(
+  artists: { artistName?: string; guarantee?: string; depositSchedule?: DepositInstallmentInput[] }[] | undefined,
+  today: string
+): OverdueDeposit[] {
+  return (artists ?? []).flatMap((artist, i) => {
+    const schedule = parseDepositSchedule(artist.depositSchedule, parseMoney(artist.guarantee ?? ""), "", []);
+    return (schedule?.installments ?? [])
+      .filter((inst) => isInstallmentOverdue(inst, today))
+      .map((inst) => ({
+        artistName: artist.artistName?.trim() || `Artist ${i + 1}`,
+        amount: inst.amount,
+        dueDate: inst.dueDate ?? "",
+      }));
+  });
+}
+
+/** e.g. "Deposit overdue: The Band $2,500.00 due 2026-09-01". */
+export function describeOverdueDeposits(overdue: OverdueDeposit[], currency: string): string {
+  return `Deposit overdue: ${overdue
+    .map((o) => `${o.artistName} ${formatMoney(o.amount, currency)} due ${o.dueDate}`)
+    .join("; ")}`;
+}
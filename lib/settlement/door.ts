@@ -0,0 +1,69 @@
+/**
+ * Advance vs walk-up (day-of-show) sales, and reconciliation of what the
+ * door actually took against the walk-up tickets recorded.
+ */
+
+import { formatMoney, sumMoney, type Money } from "./money";
+
+export interface SalesChannelSummary {
+  advanceSold: number;
+  advanceRevenue: Money;
+  walkUpSold: number;
+  walkUpRevenue: Money;
+}
+
+export interface DoorReconciliation {
+  /** Walk-up revenue implied by the tiers. */
+  expected: Money;
+  cash: Money;
+  card: Money;
+  /** cash + card − expected; negative means the door is short. */
+  variance: Money;
+}
+
+export function summarizeSalesChannels(
+  tiers: { sold: number; revenue: Money; walkUpSold?: number; walkUpRevenue?: Money }[]
+): SalesChannelSummary {
+  const walkUpSold = tiers.reduce((sum, t) => sum + (t.walkUpSold ?? 0), 0);
+  const walkUpRevenue = sumMoney(tiers.map((t) => t.walkUpRevenue ?? 0));
+  return {
+    advanceSold: tiers.reduce((sum, t) => sum + t.sold, 0) - walkUpSold,
+    advanceRevenue: sumMoney(tiers.map((t) => t.revenue)) - walkUpRevenue,
+    walkUpSold,
+    walkUpRevenue,
+  };
+}
+
+export function reconcileDoor(expected: Money, cash: Money, card: Money): DoorReconciliation {
+  return { expected, cash, card, variance: cash + card - expected };
+}
+
+/**
+ * Breakdown lines for a tier: a single line, or separate advance and walk-up
+ * lines when the tier had day-of-show sales.
+ */
+export function describeTierSales(
+  tier: { name: string; price: Money; sold: number; revenue: Money; walkUpPrice?: Money; walkUpSold?: number; walkUpRevenue?: Money },
+  currency: string
+): { label: string; amount: Money }[] {
+  if (!tier.walkUpSold) {
+    return [{ label: `${tier.name} (${tier.sold} × ${formatMoney(tier.price, currency)})`, amount: tier.revenue }];
+  }
+  const walkUpRevenue = tier.walkUpRevenue ?? 0;
+  return [
+    {
+      label: `${tier.name} advance (${tier.sold - tier.walkUpSold} × ${formatMoney(tier.price, currency)})`,
+      amount: tier.revenue - walkUpRevenue,
+    },
+    {
+      label: `${tier.name} walk-up (${tier.walkUpSold} × ${formatMoney(tier.walkUpPrice ?? tier.price, currency)})`,
+      amount: walkUpRevenue,
+    },
+  ];
+}
+
+/** e.g. "Door Short vs Walk-Up Sales ($1,550.00)". */
+export function describeDoorVariance(door: DoorReconciliation, currency: string): string {
+  const status = door.variance < 0 ? "Short" : door.variance > 0 ? "Over" : "Balanced";
+  return `Door ${status} vs Walk-Up Sales (${formatMoney(door.expected, currency)})`;
+}
@@ -0,0 +1,119 @@
+/**
+ * Escalating percentage schedules ("80% of net to $20k, 85% to $40k, 90% above").
+ * Bands are keyed to gross, net or tickets sold; the deal's percentage base is
+ * split across bands in proportion to how much of the measure falls in each.
+ */
+
+import { allocate, applyRate, formatMoney, parseMoney, percentToRate, sumMoney, type Money } from "./money";
+
+export type EscalatorBasis = "net" | "gross" | "tickets";
+
+export interface EscalatorTierInput {
+  id?: string;
+  /** Lower bound of the band (money for net/gross, a ticket count for tickets). */
+  from: string;
+  percentage: string;
+}
+
+export interface EscalatorBandResult {
+  /** Money thresholds are cents; ticket thresholds are counts. */
+  from: number;
+  to?: number;
+  percentage: number;
+  /** Portion of the deal's percentage base attributed to this band. */
+  baseAmount: Money;
+  amount: Money;
+}
+
+export interface EscalatorResult {
+  basis: EscalatorBasis;
+  /** Value of the measure the bands were evaluated against (cents or tickets). */
+  measure: number;
+  bands: EscalatorBandResult[];
+  total: Money;
+}
+
+export interface EscalatorSchedule {
+  basis: EscalatorBasis;
+  tiers: { from: number; percentage: number }[];
+}
+
+export function normalizeEscalatorBasis(value: string | undefined): EscalatorBasis | null {
+  return value === "net" || value === "gross" || value === "tickets" ? value : null;
+}
+
+/**
+ * Parses the input rows into a schedule sorted by threshold. The lowest band always
+ * starts at zero. Returns null when no band has a positive percentage.
+ */
+export function parseEscalatorSchedule(
+  basisInput: string | undefined,
+  tiers: EscalatorTierInput[] | undefined,
+  clampPercent: (value: string, fieldName: string) => number,
+  fieldPrefix: string
+): EscalatorSchedule | null {
+  const basis = normalizeEscalatorBasis(basisInput);
+  if (!basis || !tiers || tiers.length === 0) return null;
+
+  const parsed = tiers
+    .filter((t) => t.from.trim() || t.percentage.trim())
+    .map((t, i) => {
+      const rawFrom = basis === "tickets" ? Math.floor(Math.max(0, parseFloat(t.from) || 0)) : Math.max(0, parseMoney(t.from));
+      return { from: rawFrom, percentage: clampPercent(t.percentage, `${fieldPrefix} Escalator Band ${i + 1}`) };
+    })
+    .sort((a, b) => a.from - b.from);
+
+  if (!parsed.some((t) => t.percentage > 0)) return null;
+  parsed[0] = { ...parsed[0], from: 0 };
+  return { basis, tiers: parsed };
+}
+
+/**
+ * Applies the schedule to `base` (the amount the percentage is taken of),
+ * given the measured gross/net/tickets the thresholds refer to.
+ */
+export function evaluateEscalator(schedule: EscalatorSchedule, base: Money, measure: number): EscalatorResult {
+  const positiveBase = Math.max(0, base);
+  const positiveMeasure = Math.max(0, measure);
+  const bounds = schedule.tiers.map((tier, i) => ({
+    ...tier,
+    to: i < schedule.tiers.length - 1 ? schedule.tiers[i + 1].from : undefined,
+  }));
+
+  const weights = bounds.map((band) => {
+    const upper = band.to ?? Infinity;
+    return Math.max(0, Math.min(positiveMeasure, upper) - band.from);
+  });
+  // With nothing measured (e.g. zero net) the whole base sits in the first band.
+  const baseShares = weights.some((w) => w > 0)
+    ? allocate(positiveBase, weights)
+    : bounds.map((_, i) => (i === 0 ? positiveBase : 0));
+
+  const bands = bounds.map((band, i) => ({
+    from: band.from,
+    to: band.to,
+    percentage: band.percentage,
+    baseAmount: baseShares[i],
+    amount: applyRate(baseShares[i], percentToRate(band.percentage)),
+  }));
+
+  return { basis: schedule.basis, measure: positiveMeasure, bands, total: sumMoney(bands.map((b) => b.amount)) };
+}
+
+const BASIS_LABELS: Record<EscalatorBasis, string> = {
+  net: "net",
+  gross: "gross",
+  tickets: "tickets sold",
+};
+
+function formatThreshold(value: number, basis: EscalatorBasis, currency: string): string {
+  return basis === "tickets" ? value.toLocaleString("en-US") : formatMoney(value, currency);
+}
+
+/** Human-readable band label, e.g. "85% band (net $20,000.00–$40,000.00)". */
+export function describeEscalatorBand(band: EscalatorBandResult, basis: EscalatorBasis, currency: string): string {
+  const range = band.to != null
+    ? `${formatThreshold(band.from, basis, currency)}–${formatThreshold(band.to, basis, currency)}`
+    : `above ${formatThreshold(band.from, basis, currency)}`;
+  return `${band.percentage}% band (${BASIS_LABELS[basis]} ${range})`;
+}
@@ -0,0 +1,88 @@
+/**
+ * Expense deductibility per artist deal: venue-only items, contractual
+ * "not to exceed" caps, and expenses scoped to particular artists.
+ * The show's net always carries the actual expenses; each artist's deal
+ * is computed from the subset (and capped amounts) their contract allows.
+ */
+
+import { formatMoney, sumMoney, type Money } from "./money";
+
+export type ExpenseDeductibility = "artist_approved" | "venue_only";
+
+export type ExpenseAdjustmentReason = "cap" | "venue_only" | "not_applicable";
+
+export interface ParsedExpenseItem {
+  label: string;
+  amount: Money;
+  note?: string;
+  /** Set only for venue-only items; everything else is artist-approved. */
+  deductibility?: "venue_only";
+  /** Contractual "not to exceed" amount. */
+  cap?: Money;
+  /** Artist ids the expense is charged to; absent means every artist. */
+  appliesTo?: string[];
+}
+
+export interface ExpenseAdjustment {
+  label: string;
+  actual: Money;
+  deducted: Money;
+  reason: ExpenseAdjustmentReason;
+}
+
+export interface ArtistExpenseTerms {
+  /** Expenses charged against this artist's deal, after caps and exclusions. */
+  deductibleExpenses: Money;
+  /** Net the artist's deal was computed on. */
+  dealNet: Money;
+  adjustments: ExpenseAdjustment[];
+}
+
+export function normalizeDeductibility(value: string | undefined): ExpenseDeductibility {
+  return value === "venue_only" ? "venue_only" : "artist_approved";
+}
+
+/** The amount of `item` charged to the artist with id `artistKey`, and why it differs from actual. */
+function chargeTo(item: ParsedExpenseItem, artistKey: string): { deducted: Money; reason?: ExpenseAdjustmentReason } {
+  if (item.deductibility === "venue_only") return { deducted: 0, reason: "venue_only" };
+  if (item.appliesTo && !item.appliesTo.includes(artistKey)) return { deducted: 0, reason: "not_applicable" };
+  if (item.cap != null && item.amount > item.cap) return { deducted: item.cap, reason: "cap" };
+  return { deducted: item.amount };
+}
+
+/**
+ * Sums the expenses chargeable to one artist. `otherExpenses` (e.g. buyouts
+ * run as show expenses) are always chargeable.
+ */
+export function artistDeductibleExpenses(
+  items: ParsedExpenseItem[],
+  otherExpenses: Money,
+  artistKey: string
+): { deductibleExpenses: Money; adjustments: ExpenseAdjustment[] } {
+  const adjustments: ExpenseAdjustment[] = [];
+  const charged = items.map((item) => {
+    const { deducted, reason } = chargeTo(item, artistKey);
+    if (reason && item.amount > 0) adjustments.push({ label: item.label, actual: item.amount, deducted, reason });
+    return deducted;
+  });
+  return { deductibleExpenses: sumMoney(charged) + otherExpenses, adjustments };
+}
+
+/** Human-readable reason, e.g. "capped at $3,500.00 (actual $4,000.00)". */
+export function describeExpenseAdjustment(adjustment: ExpenseAdjustment, currency: string): string {
+  switch (adjustment.reason) {
+    case "cap":
+      return `capped at ${formatMoney(adjustment.deducted, currency)} (actual ${formatMoney(adjustment.actual, currency)})`;
+    case "venue_only":
+      return "venue expense, not charged to artist";
+    case "not_applicable":
+      return "not charged to this artist";
+  }
+}
+
+/** Suffix for an expense line, e.g. " (venue only)" or " (not to exceed $3,500.00)". */
+export function describeExpenseTerms(item: Pick<ParsedExpenseItem, "deductibility" | "cap">, currency: string): string {
+  if (item.deductibility === "venue_only") return " (venue only)";
+  if (item.cap != null) return ` (not to exceed ${formatMoney(item.cap, currency)})`;
+  return "";
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { compileFormula, evaluateFormula, type FormulaValues } from "./formula";
+
+const values: FormulaValues = {
+  gross: 1_000_001,
+  net: 333_333,
+  taxes: 0,
+  expenses: 0,
+  tickets: 400,
+  capacity: 500,
+  guarantee: 500_000,
+};
+
+function compile(source: string) {
+  const compiled = compileFormula(source);
+  if (!compiled.ok) throw new Error(compiled.error);
+  return compiled.formula;
+}
+
+function payout(source: string, overrides: Partial<FormulaValues> = {}) {
+  return evaluateFormula(compile(source), { ...values, ...overrides });
+}
+
+describe("compileFormula", () => {
+  it.each([
+    ["max(5000", 'Syntax error at character 9: expected ")" but found the end of the formula.'],
+    ["5kx", 'Syntax error at character 2: unexpected "kx".'],
+    ["foo * 2", 'Unknown variable "foo" at character 1.'],
+    ["gross > 5", "Type error: the formula must come out to an amount, not a comparison."],
+    ["if(gross, 1, 2)", "Type error at character 4: the first argument of if() must be a comparison"],
+    ["gross / 0", "Division by zero at character 7."],
+  ])("rejects %s", (source, error) => {
+    const compiled = compileFormula(source);
+    expect(compiled.ok).toBe(false);
+    if (!compiled.ok) expect(compiled.error).toContain(error);
+  });
+
+  it("lists the variables a formula reads", () => {
+    expect(compile("max(guarantee, 70% * (gross - 2 * tickets))").variables).toEqual(["guarantee", "gross", "tickets"]);
+  });
+});
+
+describe("evaluateFormula", () => {
+  it("supports $ amounts with a k suffix and percentages", () => {
+    expect(payout("max($5k, 70% * gross)")).toEqual({ ok: true, amount: 700_001 });
+    expect(payout("2.5K + 0.1")).toEqual({ ok: true, amount: 250_010 });
+  });
+
+  it("evaluates exactly and rounds once", () => {
+    expect(payout("0.1 + 0.2")).toEqual({ ok: true, amount: 30 });
+    expect(payout("net / 3 * 3")).toEqual({ ok: true, amount: 333_333 });
+    expect(payout("tiered(net, 0, 80%, 2k, 85%)")).toEqual({ ok: true, amount: 273_333 });
+  });
+
+  it("pays 0 for a negative result", () => {
+    expect(payout("gross - 1000k")).toEqual({ ok: true, amount: 0 });
+  });
+
+  it("reports a runtime division by zero with its position", () => {
+    const result = payout("gross / tickets", { tickets: 0 });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toContain("Division by zero at character 7.");
+    expect(payout("if(tickets > 0, gross / tickets, 0)", { tickets: 0 })).toEqual({ ok: true, amount: 0 });
+  });
+
+  it("reads fractional counts exactly and fails instead of throwing on non-finite ones", () => {
+    expect(payout("capacity * 2", { capacity: 150.5 })).toEqual({ ok: true, amount: 30_100 });
+    expect(payout("capacity * 2", { capacity: NaN }).ok).toBe(false);
+  });
+});
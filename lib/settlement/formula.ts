@@ -0,0 +1,448 @@
+/**
+ * Deal formulas for one-off contracts that no other deal type fits, e.g.
+ * "greater of $5k or 70% of gross after a $2 facility fee":
+ *
+ *   max($5k, 70% * (gross - 2 * tickets))
+ *
+ * A formula is arithmetic (+ - * /, parentheses, `70%` for 0.7, `$5000`,
+ * `5k` for 5000) over the show variables below, comparisons, and the
+ * functions below. There is no other syntax, so a formula cannot run
+ * arbitrary code. It is compiled (parsed and type-checked) once, and errors
+ * carry the character they were found at.
+ *
+ * Amounts are written in currency units. Evaluation is exact: the show's
+ * cents and every constant are held as fractions, and the result is rounded
+ * to the cent once, half away from zero as mulDiv rounds, so a formula
+ * settles the same as the built-in deal it spells out. Dividing by zero is an
+ * error (guard it with if()), and a negative result pays 0.
+ */
+
+import { divideRounded, type Money } from "./money";
+
+export type FormulaVariable = "gross" | "net" | "taxes" | "expenses" | "tickets" | "capacity" | "guarantee";
+
+/** `net` and `expenses` are as the artist's contract sees them; `guarantee` is as entered. */
+export const FORMULA_VARIABLES: Record<FormulaVariable, "money" | "count"> = {
+  gross: "money",
+  net: "money",
+  taxes: "money",
+  expenses: "money",
+  tickets: "count",
+  capacity: "count",
+  guarantee: "money",
+};
+
+/**
+ * max(a, b, ...) and min(a, b, ...); if(condition, then, otherwise), e.g.
+ * if(tickets >= capacity, 500, 0); tiered(value, from1, rate1, from2, rate2, ...),
+ * the part of value above each threshold times its rate, e.g.
+ * tiered(net, 0, 80%, 20000, 85%) is 80% of net to 20,000 and 85% above.
+ */
+export const FORMULA_FUNCTIONS = ["max", "min", "if", "tiered"] as const;
+
+type FormulaFunction = (typeof FORMULA_FUNCTIONS)[number];
+
+/** Cents for money variables, counts for the rest. */
+export type FormulaValues = Record<FormulaVariable, number>;
+
+type BinaryOperator = "+" | "-" | "*" | "/" | "<" | "<=" | ">" | ">=" | "==" | "!=";
+type ValueType = "number" | "comparison";
+
+/** An exact fraction n / d with d > 0, in currency units for amounts. */
+interface Fraction {
+  n: bigint;
+  d: bigint;
+}
+
+type FormulaNode =
+  | { kind: "number"; value: Fraction }
+  | { kind: "variable"; name: FormulaVariable }
+  | { kind: "negate"; operand: FormulaNode }
+  | { kind: "binary"; operator: BinaryOperator; left: FormulaNode; right: FormulaNode; position: number }
+  | { kind: "call"; name: FormulaFunction; args: FormulaNode[] };
+
+export interface CompiledFormula {
+  source: string;
+  root: FormulaNode;
+  /** Variables the formula reads, in order of first use. */
+  variables: FormulaVariable[];
+}
+
+interface Token {
+  kind: "number" | "name" | "symbol" | "end";
+  text: string;
+  /** 1-based character position in the source. */
+  position: number;
+}
+
+class FormulaError extends Error {}
+
+const ZERO = BigInt(0);
+const TEN = BigInt(10);
+const HUNDRED = BigInt(100);
+
+function gcd(a: bigint, b: bigint): bigint {
+  let x = a < ZERO ? -a : a;
+  let y = b;
+  while (y !== ZERO) [x, y] = [y, x % y];
+  return x;
+}
+
+function reduce(n: bigint, d: bigint): Fraction {
+  const sign = d < ZERO ? -BigInt(1) : BigInt(1);
+  const divisor = gcd(n, d < ZERO ? -d : d) || BigInt(1);
+  return { n: (sign * n) / divisor, d: (sign * d) / divisor };
+}
+
+/** A show figure or constant as an exact fraction; a fractional count such as a capacity of 150.5 is read like a literal. */
+function fraction(value: number): Fraction {
+  if (Number.isInteger(value)) return { n: BigInt(value), d: BigInt(1) };
+  const text = String(Math.abs(value));
+  if (!/^\d+(\.\d+)?$/.test(text)) throw new FormulaError(`${value} can't be used in a formula.`);
+  const exact = parseDecimal(text);
+  return value < 0 ? { n: -exact.n, d: exact.d } : exact;
+}
+
+const add = (a: Fraction, b: Fraction) => reduce(a.n * b.d + b.n * a.d, a.d * b.d);
+const subtract = (a: Fraction, b: Fraction) => reduce(a.n * b.d - b.n * a.d, a.d * b.d);
+const multiply = (a: Fraction, b: Fraction) => reduce(a.n * b.n, a.d * b.d);
+const divide = (a: Fraction, b: Fraction) => reduce(a.n * b.d, a.d * b.n);
+const compare = (a: Fraction, b: Fraction) => {
+  const diff = a.n * b.d - b.n * a.d;
+  return diff < ZERO ? -1 : diff > ZERO ? 1 : 0;
+};
+
+/** A number token, e.g. "12.5" or "5k", as an exact fraction. */
+function parseDecimal(text: string): Fraction {
+  const thousands = /[kK]$/.test(text);
+  const [whole, decimals = ""] = text.replace(/[kK]$/, "").split(".");
+  const value = reduce(BigInt(`${whole || "0"}${decimals}`), TEN ** BigInt(decimals.length));
+  return thousands ? multiply(value, fraction(1000)) : value;
+}
+
+const SYMBOLS = ["<=", ">=", "==", "!=", "+", "-", "*", "/", "(", ")", ",", "%", "$", "<", ">"];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const number = /^(\d+(\.\d*)?|\.\d+)([kK](?![A-Za-z0-9_]))?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: "number", text: number[0], position: i + 1 });
+      i += number[0].length;
+      continue;
+    }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ kind: "name", text: name[0], position: i + 1 });
+      i += name[0].length;
+      continue;
+    }
+    const symbol = SYMBOLS.find((s) => source.startsWith(s, i));
+    if (!symbol) throw new FormulaError(`Syntax error at character ${i + 1}: unexpected "${ch}".`);
+    tokens.push({ kind: "symbol", text: symbol, position: i + 1 });
+    i += symbol.length;
+  }
+  tokens.push({ kind: "end", text: "", position: source.length + 1 });
+  return tokens;
+}
+
+function describeToken(token: Token): string {
+  return token.kind === "end" ? "the end of the formula" : `"${token.text}"`;
+}
+
+function isVariable(name: string): name is FormulaVariable {
+  return Object.prototype.hasOwnProperty.call(FORMULA_VARIABLES, name);
+}
+
+function isFunction(name: string): name is FormulaFunction {
+  return (FORMULA_FUNCTIONS as readonly string[]).includes(name);
+}
+
+/**
+ * Recursive-descent parser; every node is type-checked as it is built.
+ *   comparison := sum (("<" | "<=" | ">" | ">=" | "==" | "!=") sum)?
+ *   sum        := product (("+" | "-") product)*
+ *   product    := unary (("*" | "/") unary)*
+ *   unary      := "-" unary | primary
+ *   primary    := "$"? number "%"? | variable | function "(" args ")" | "(" comparison ")"
+ */
+function parse(tokens: Token[]): { root: FormulaNode; variables: FormulaVariable[] } {
+  let index = 0;
+  const variables: FormulaVariable[] = [];
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const accept = (text: string) => {
+    if (peek().kind === "symbol" && peek().text === text) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (text: string) => {
+    const token = peek();
+    if (!accept(text)) {
+      throw new FormulaError(`Syntax error at character ${token.position}: expected "${text}" but found ${describeToken(token)}.`);
+    }
+  };
+  const binary = (token: Token, left: FormulaNode, right: FormulaNode): FormulaNode => ({
+    kind: "binary",
+    operator: token.text as BinaryOperator,
+    left,
+    right,
+    position: token.position,
+  });
+  const requireNumber = (typed: { type: ValueType }, position: number, what: string) => {
+    if (typed.type !== "number") {
+      throw new FormulaError(`Type error at character ${position}: ${what} needs an amount, not a comparison.`);
+    }
+  };
+
+  function comparison(): { node: FormulaNode; type: ValueType } {
+    const left = sum();
+    const token = peek();
+    if (token.kind === "symbol" && ["<", "<=", ">", ">=", "==", "!="].includes(token.text)) {
+      next();
+      const right = sum();
+      requireNumber(left, token.position, `"${token.text}"`);
+      requireNumber(right, token.position, `"${token.text}"`);
+      if (peek().kind === "symbol" && ["<", "<=", ">", ">=", "==", "!="].includes(peek().text)) {
+        throw new FormulaError(`Syntax error at character ${peek().position}: comparisons cannot be chained.`);
+      }
+      return {
+        node: {
+          kind: "binary",
+          operator: token.text as BinaryOperator,
+          left: left.node,
+          right: right.node,
+          position: token.position,
+        },
+        type: "comparison",
+      };
+    }
+    return left;
+  }
+
+  function sum(): { node: FormulaNode; type: ValueType } {
+    let left = product();
+    while (peek().kind === "symbol" && (peek().text === "+" || peek().text === "-")) {
+      const token = next();
+      const right = product();
+      requireNumber(left, token.position, `"${token.text}"`);
+      requireNumber(right, token.position, `"${token.text}"`);
+      left = { node: binary(token, left.node, right.node), type: "number" };
+    }
+    return left;
+  }
+
+  function product(): { node: FormulaNode; type: ValueType } {
+    let left = unary();
+    while (peek().kind === "symbol" && (peek().text === "*" || peek().text === "/")) {
+      const token = next();
+      const right = unary();
+      requireNumber(left, token.position, `"${token.text}"`);
+      requireNumber(right, token.position, `"${token.text}"`);
+      if (token.text === "/" && right.node.kind === "number" && right.node.value.n === ZERO) {
+        throw new FormulaError(`Division by zero at character ${token.position}.`);
+      }
+      left = { node: binary(token, left.node, right.node), type: "number" };
+    }
+    return left;
+  }
+
+  function unary(): { node: FormulaNode; type: ValueType } {
+    const token = peek();
+    if (accept("-")) {
+      const operand = unary();
+      requireNumber(operand, token.position, `"-"`);
+      return { node: { kind: "negate", operand: operand.node }, type: "number" };
+    }
+    return primary();
+  }
+
+  function call(name: FormulaFunction, position: number): { node: FormulaNode; type: ValueType } {
+    expect("(");
+    const args: { node: FormulaNode; type: ValueType; position: number }[] = [];
+    if (!accept(")")) {
+      do {
+        const argPosition = peek().position;
+        args.push({ ...comparison(), position: argPosition });
+      } while (accept(","));
+      expect(")");
+    }
+    const nodes = args.map((arg) => arg.node);
+
+    if (name === "if") {
+      if (args.length !== 3) {
+        throw new FormulaError(`Type error at character ${position}: if() takes 3 arguments (condition, then, otherwise), got ${args.length}.`);
+      }
+      if (args[0].type !== "comparison") {
+        throw new FormulaError(`Type error at character ${args[0].position}: the first argument of if() must be a comparison, e.g. tickets >= capacity.`);
+      }
+      requireNumber(args[1], args[1].position, "if()");
+      requireNumber(args[2], args[2].position, "if()");
+      return { node: { kind: "call", name, args: nodes }, type: "number" };
+    }
+    if (name === "tiered" && (args.length < 3 || args.length % 2 === 0)) {
+      throw new FormulaError(
+        `Type error at character ${position}: tiered() takes a value followed by threshold, rate pairs, got ${args.length} argument${args.length === 1 ? "" : "s"}.`
+      );
+    }
+    if (args.length === 0) {
+      throw new FormulaError(`Type error at character ${position}: ${name}() needs at least one argument.`);
+    }
+    for (const arg of args) requireNumber(arg, arg.position, `${name}()`);
+    return { node: { kind: "call", name, args: nodes }, type: "number" };
+  }
+
+  function primary(): { node: FormulaNode; type: ValueType } {
+    const token = next();
+    if (token.kind === "symbol" && token.text === "$") {
+      const amount = next();
+      if (amount.kind !== "number") {
+        throw new FormulaError(`Syntax error at character ${amount.position}: expected an amount after "$" but found ${describeToken(amount)}.`);
+      }
+      return { node: { kind: "number", value: parseDecimal(amount.text) }, type: "number" };
+    }
+    if (token.kind === "number") {
+      const value = parseDecimal(token.text);
+      return { node: { kind: "number", value: accept("%") ? divide(value, fraction(100)) : value }, type: "number" };
+    }
+    if (token.kind === "name") {
+      const name = token.text.toLowerCase();
+      if (peek().kind === "symbol" && peek().text === "(") {
+        if (!isFunction(name)) {
+          throw new FormulaError(
+            `Unknown function "${token.text}" at character ${token.position}. Use one of: ${FORMULA_FUNCTIONS.join(", ")}.`
+          );
+        }
+        return call(name, token.position);
+      }
+      if (!isVariable(name)) {
+        throw new FormulaError(
+          `Unknown variable "${token.text}" at character ${token.position}. Use one of: ${Object.keys(FORMULA_VARIABLES).join(", ")}.`
+        );
+      }
+      if (!variables.includes(name)) variables.push(name);
+      return { node: { kind: "variable", name }, type: "number" };
+    }
+    if (token.kind === "symbol" && token.text === "(") {
+      const inner = comparison();
+      expect(")");
+      return inner;
+    }
+    throw new FormulaError(
+      `Syntax error at character ${token.position}: expected a number, variable or "(" but found ${describeToken(token)}.`
+    );
+  }
+
+  const result = comparison();
+  const trailing = peek();
+  if (trailing.kind !== "end") {
+    throw new FormulaError(`Syntax error at character ${trailing.position}: unexpected ${describeToken(trailing)}.`);
+  }
+  if (result.type !== "number") {
+    throw new FormulaError("Type error: the formula must come out to an amount, not a comparison.");
+  }
+  return { root: result.node, variables };
+}
+
+export function compileFormula(source: string): { ok: true; formula: CompiledFormula } | { ok: false; error: string } {
+  try {
+    return { ok: true, formula: { source: source.trim(), ...parse(tokenize(source)) } };
+  } catch (err) {
+    if (err instanceof FormulaError) return { ok: false, error: err.message };
+    throw err;
+  }
+}
+
+/** Marginal bands: the part of `value` between each threshold and the next, times that band's rate. */
+function tiered(value: Fraction, bands: Fraction[]): Fraction {
+  const pairs: { from: Fraction; rate: Fraction }[] = [];
+  for (let i = 0; i < bands.length; i += 2) pairs.push({ from: bands[i], rate: bands[i + 1] });
+  pairs.sort((a, b) => compare(a.from, b.from));
+  return pairs.reduce((total, band, i) => {
+    const to = i < pairs.length - 1 ? pairs[i + 1].from : null;
+    const top = to && compare(value, to) > 0 ? to : value;
+    const inBand = subtract(top, band.from);
+    return inBand.n > ZERO ? add(total, multiply(inBand, band.rate)) : total;
+  }, fraction(0));
+}
+
+function evaluate(node: FormulaNode, values: FormulaValues): Fraction | boolean {
+  const num = (n: FormulaNode) => evaluate(n, values) as Fraction;
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "variable":
+      // Money variables are cents; formulas are written in currency units.
+      return FORMULA_VARIABLES[node.name] === "money"
+        ? divide(fraction(values[node.name]), fraction(100))
+        : fraction(values[node.name]);
+    case "negate": {
+      const operand = num(node.operand);
+      return { n: -operand.n, d: operand.d };
+    }
+    case "binary": {
+      const left = num(node.left);
+      const right = num(node.right);
+      switch (node.operator) {
+        case "+":
+          return add(left, right);
+        case "-":
+          return subtract(left, right);
+        case "*":
+          return multiply(left, right);
+        case "/":
+          if (right.n === ZERO) {
+            throw new FormulaError(
+              `Division by zero at character ${node.position}. Guard it with if(), e.g. if(tickets > 0, gross / tickets, 0).`
+            );
+          }
+          return divide(left, right);
+        case "<":
+          return compare(left, right) < 0;
+        case "<=":
+          return compare(left, right) <= 0;
+        case ">":
+          return compare(left, right) > 0;
+        case ">=":
+          return compare(left, right) >= 0;
+        case "==":
+          return compare(left, right) === 0;
+        default:
+          return compare(left, right) !== 0;
+      }
+    }
+    case "call": {
+      if (node.name === "if") return evaluate(node.args[0], values) ? num(node.args[1]) : num(node.args[2]);
+      const args = node.args.map(num);
+      if (node.name === "max") return args.reduce((a, b) => (compare(b, a) > 0 ? b : a));
+      if (node.name === "min") return args.reduce((a, b) => (compare(b, a) < 0 ? b : a));
+      return tiered(args[0], args.slice(1));
+    }
+  }
+}
+
+/**
+ * The formula's payout in cents, rounded once; 0 when it comes out negative.
+ * Fails, rather than throwing, when the formula divides by zero on these
+ * figures or can't otherwise be worked out.
+ */
+export function evaluateFormula(
+  formula: CompiledFormula,
+  values: FormulaValues
+): { ok: true; amount: Money } | { ok: false; error: string } {
+  try {
+    const result = evaluate(formula.root, values) as Fraction;
+    return { ok: true, amount: Math.max(0, divideRounded(result.n * HUNDRED, result.d)) };
+  } catch (err) {
+    if (err instanceof FormulaError) return { ok: false, error: err.message };
+    return { ok: false, error: `Couldn't be worked out: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * "What would it take" solver. Re-runs the settlement with different ticket
+ * counts to find the fewest tickets that reach a goal: the house breaking
+ * even, each artist's deal going into overage, or a target house payout.
+ * Tickets are spread across tiers, and between advance and walk-up sales,
+ * in the same proportion as entered sales, so the gross at each count
+ * follows the show's actual price mix, door prices included.
+ */
+
+import { computeSettlement, parseNumber, type CalculationInput, type CalculationResult } from "./calculate";
+import { getDealType } from "./deal-types";
+import { allocate, formatMoney, parseMoney, type Money } from "./money";
+import { isCancellation, normalizeShowOutcome } from "./outcome";
+
+export interface GoalSeekAnswer {
+  /** Fewest tickets that reach the goal; null when it is out of reach within the search limit. */
+  tickets: number | null;
+  /** Gross at that ticket count. */
+  gross: Money | null;
+  /** The show as entered already reaches the goal. */
+  alreadyMet: boolean;
+}
+
+export interface GoalSeekReport {
+  currentTickets: number;
+  /** Highest ticket count searched: capacity, or a multiple of current sales without one. */
+  searchLimit: number;
+  houseBreakeven: GoalSeekAnswer;
+  /** One entry per artist whose deal has an overage (back end, vs. percentage or profit split). */
+  artistOverage: ({ artistName: string } & GoalSeekAnswer)[];
+  targetHousePayout?: { target: Money } & GoalSeekAnswer;
+}
+
+/** The house side: promoter net in a rented room, otherwise the venue payout. */
+export function housePosition(result: CalculationResult): Money {
+  return result.venueRental?.promoterNet ?? result.venuePayout;
+}
+
+function ticketsOf(input: CalculationInput): number {
+  return input.ticketTiers.reduce((sum, t) => sum + parseNumber(t.sold) + parseNumber(t.walkUpSold ?? ""), 0);
+}
+
+/**
+ * The same show with `tickets` sold, spread across each tier's advance and
+ * walk-up sales in proportion to entered sales. The door take is cleared:
+ * it was counted for the entered sales, not these.
+ */
+function withTicketsSold(input: CalculationInput, tickets: number): CalculationInput {
+  const entered = input.ticketTiers.flatMap((t) => [parseNumber(t.sold), parseNumber(t.walkUpSold ?? "")]);
+  // With nothing sold yet, spread evenly over advance sales only.
+  const weights = entered.some((w) => w > 0) ? entered : input.ticketTiers.flatMap(() => [1, 0]);
+  const counts = allocate(tickets, weights);
+  return {
+    ...input,
+    ticketTiers: input.ticketTiers.map((t, i) => ({
+      ...t,
+      sold: String(counts[2 * i]),
+      walkUpSold: t.walkUpSold?.trim() ? String(counts[2 * i + 1]) : "",
+    })),
+    doorCash: "",
+    doorCard: "",
+  };
+}
+
+function overageReached(result: CalculationResult, artistIndex: number, guarantee: Money): boolean {
+  const ar = result.artists[artistIndex];
+  if (!ar) return false;
+  if (ar.profitSplit) return ar.profitSplit.artistSplit > 0;
+  if (ar.overage != null) return ar.overage > 0;
+  const dealPayout = (ar.proRatedFrom ?? ar.artistPayout) - (ar.totalBonuses ?? 0) - (ar.bar?.total ?? 0);
+  return dealPayout > guarantee;
+}
+
+/**
+ * Fewest tickets in [0, limit] for which `reached` holds, assuming more
+ * tickets never undo a goal. Settlements that fail (e.g. no gross at 0
+ * tickets) count as not reached.
+ */
+function seek(
+  input: CalculationInput,
+  limit: number,
+  reached: (result: CalculationResult) => boolean
+): { tickets: number; gross: Money } | null {
+  const settle = (tickets: number) => {
+    const output = computeSettlement(withTicketsSold(input, tickets));
+    return output.ok ? output.result : null;
+  };
+  const top = settle(limit);
+  if (!top || !reached(top)) return null;
+  let lo = 0;
+  let hi = limit;
+  let best = top;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    const result = settle(mid);
+    if (result && reached(result)) {
+      hi = mid;
+      best = result;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return { tickets: hi, gross: best.grossRevenue };
+}
+
+function answer(
+  input: CalculationInput,
+  limit: number,
+  current: CalculationResult,
+  reached: (result: CalculationResult) => boolean
+): GoalSeekAnswer {
+  const found = seek(input, limit, reached);
+  return { tickets: found?.tickets ?? null, gross: found?.gross ?? null, alreadyMet: reached(current) };
+}
+
+/**
+ * Returns null when the show cannot be settled as entered, or was cancelled
+ * (there are no ticket sales to solve for).
+ */
+export function solveSettlementGoals(input: CalculationInput, targetHousePayout?: Money): GoalSeekReport | null {
+  if (isCancellation(normalizeShowOutcome(input.outcome))) return null;
+  const baseline = computeSettlement(input);
+  if (!baseline.ok) return null;
+  const current = baseline.result;
+
+  const currentTickets = ticketsOf(input);
+  const capacity = parseNumber(input.capacity);
+  const searchLimit = capacity > 0 ? Math.max(Math.floor(capacity), currentTickets) : Math.max(currentTickets * 10, 1000);
+
+  const artistOverage = input.artists.flatMap((artist, i) => {
+    if (!getDealType(artist.dealType)?.hasOverage) return [];
+    const guarantee = parseMoney(artist.guarantee);
+    return [
+      {
+        artistName: current.artists[i]?.artistName ?? `Artist ${i + 1}`,
+        ...answer(input, searchLimit, current, (result) => overageReached(result, i, guarantee)),
+      },
+    ];
+  });
+
+  return {
+    currentTickets,
+    searchLimit,
+    houseBreakeven: answer(input, searchLimit, current, (result) => housePosition(result) >= 0),
+    artistOverage,
+    targetHousePayout:
+      targetHousePayout != null && targetHousePayout > 0
+        ? {
+            target: targetHousePayout,
+            ...answer(input, searchLimit, current, (result) => housePosition(result) >= targetHousePayout),
+          }
+        : undefined,
+  };
+}
+
+/** e.g. "120 tickets ($3,000.00 gross)" or "Not reached at 500 tickets". */
+export function describeGoalSeekAnswer(answer: GoalSeekAnswer, searchLimit: number, currency: string): string {
+  if (answer.tickets == null) return `Not reached at ${searchLimit} tickets`;
+  return `${answer.tickets} tickets (${formatMoney(answer.gross ?? 0, currency)} gross)`;
+}
@@ -0,0 +1,91 @@
+/**
+ * Merch inventory count-in / count-out. Units sold per SKU give an expected
+ * merch gross, which is reconciled against the cash and card sales the
+ * artist's seller reported.
+ */
+
+import { formatMoney, sumMoney, type Money } from "./money";
+
+export interface MerchInventoryItemInput {
+  sku: string;
+  price: string;
+  countIn: string;
+  /** Units added during the night (restocks). */
+  adds?: string;
+  /** Comps and giveaways. */
+  comps?: string;
+  countOut: string;
+}
+
+export interface ParsedMerchInventoryItem {
+  sku: string;
+  price: Money;
+  countIn: number;
+  adds: number;
+  comps: number;
+  countOut: number;
+}
+
+export interface MerchInventoryLine extends ParsedMerchInventoryItem {
+  /** countIn + adds − comps − countOut; negative means the counts don't add up. */
+  unitsSold: number;
+  expectedGross: Money;
+}
+
+export interface MerchInventoryReconciliation {
+  lines: MerchInventoryLine[];
+  /** Gross implied by units sold. */
+  expected: Money;
+  cash: Money;
+  card: Money;
+  /** cash + card − expected; negative means merch is short. */
+  variance: Money;
+}
+
+export function reconcileMerchInventory(
+  items: ParsedMerchInventoryItem[],
+  cash: Money,
+  card: Money
+): MerchInventoryReconciliation {
+  const lines = items.map((item) => {
+    const unitsSold = item.countIn + item.adds - item.comps - item.countOut;
+    return { ...item, unitsSold, expectedGross: Math.max(0, unitsSold) * item.price };
+  });
+  const expected = sumMoney(lines.map((line) => line.expectedGross));
+  return { lines, expected, cash, card, variance: cash + card - expected };
+}
+
+/** Inventory problems worth flagging before the settlement is signed. */
+export function merchInventoryWarnings(
+  inventory: MerchInventoryReconciliation,
+  subject: string,
+  currency: string
+): string[] {
+  const warnings: string[] = [];
+  for (const line of inventory.lines) {
+    if (line.unitsSold < 0) {
+      warnings.push(
+        `${subject}: ${line.sku || "Merch item"} counts out more units than were available (${line.unitsSold} sold). Verify counts.`
+      );
+    }
+  }
+  if (inventory.variance !== 0) {
+    warnings.push(
+      `${subject}: Merch sales are ${inventory.variance < 0 ? "short" : "over"} by ${formatMoney(Math.abs(inventory.variance), currency)} against inventory sold of ${formatMoney(inventory.expected, currency)}.`
+    );
+  }
+  return warnings;
+}
+
+/** e.g. "T-Shirt: 48 in + 12 added − 2 comped − 34 out = 24 × $25.00". */
+export function describeInventoryLine(line: MerchInventoryLine, currency: string): string {
+  const adds = line.adds > 0 ? ` + ${line.adds} added` : "";
+  const comps = line.comps > 0 ? ` − ${line.comps} comped` : "";
+  return `${line.sku || "Merch item"}: ${line.countIn} in${adds}${comps} − ${line.countOut} out = ${line.unitsSold} × ${formatMoney(line.price, currency)}`;
+}
+
+/** e.g. "Merch Short vs Inventory Sold ($1,550.00)". */
+export function describeMerchInventoryVariance(inventory: MerchInventoryReconciliation, currency: string): string {
+  const status = inventory.variance < 0 ? "Short" : inventory.variance > 0 ? "Over" : "Balanced";
+  return `Merch ${status} vs Inventory Sold (${formatMoney(inventory.expected, currency)})`;
+}
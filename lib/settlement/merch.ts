@@ -0,0 +1,82 @@
+/**
+ * Per-artist merch settlement. Soft goods (apparel) and hard goods (CDs,
+ * vinyl) carry separate venue percentages. Sales are entered as rung up:
+ * merch sales tax is backed out and card fees come off the top before the
+ * venue takes its cut; a seller fee then comes off the artist's share.
+ */
+
+import type { MerchInventoryItemInput, MerchInventoryReconciliation } from "./merch-inventory";
+import { allocate, applyInclusiveRate, applyRate, percentToRate, sumMoney, type Money } from "./money";
+
+export interface ArtistMerchInput {
+  softGross: string;
+  hardGross: string;
+  softVenuePercent: string;
+  hardVenuePercent: string;
+  /** Portion of the gross paid by card; card fees apply to this amount. */
+  cardSales?: string;
+  /** Flat fee paid for the venue's merch seller. */
+  sellerFee?: string;
+  /** Count-in / count-out per SKU, reconciled against the sales above. */
+  inventory?: MerchInventoryItemInput[];
+}
+
+export interface ParsedArtistMerch {
+  softGross: Money;
+  hardGross: Money;
+  softVenuePercent: number;
+  hardVenuePercent: number;
+  cardSales: Money;
+  sellerFee: Money;
+}
+
+export interface ArtistMerchResult {
+  softGross: Money;
+  hardGross: Money;
+  softVenuePercent: number;
+  hardVenuePercent: number;
+  tax: Money;
+  cardFees: Money;
+  softVenueCut: Money;
+  hardVenueCut: Money;
+  sellerFee?: Money;
+  netToArtist: Money;
+  inventory?: MerchInventoryReconciliation;
+}
+
+/** Show-wide merch rates, as percentages. */
+export interface MerchRates {
+  taxRate: number;
+  cardFeeRate: number;
+}
+
+export function settleArtistMerch(merch: ParsedArtistMerch, rates: MerchRates): ArtistMerchResult {
+  const gross = [merch.softGross, merch.hardGross];
+  const taxes = gross.map((amount) => applyInclusiveRate(amount, percentToRate(rates.taxRate)));
+  const cardFees = allocate(applyRate(merch.cardSales, percentToRate(rates.cardFeeRate)), gross);
+  const nets = gross.map((amount, i) => amount - taxes[i] - cardFees[i]);
+  const softVenueCut = applyRate(Math.max(0, nets[0]), percentToRate(merch.softVenuePercent));
+  const hardVenueCut = applyRate(Math.max(0, nets[1]), percentToRate(merch.hardVenuePercent));
+  return {
+    softGross: merch.softGross,
+    hardGross: merch.hardGross,
+    softVenuePercent: merch.softVenuePercent,
+    hardVenuePercent: merch.hardVenuePercent,
+    tax: sumMoney(taxes),
+    cardFees: sumMoney(cardFees),
+    softVenueCut,
+    hardVenueCut,
+    sellerFee: merch.sellerFee > 0 ? merch.sellerFee : undefined,
+    netToArtist: sumMoney(nets) - softVenueCut - hardVenueCut - merch.sellerFee,
+  };
+}
+
+/** Venue cut plus seller fee: everything the venue keeps from an artist's merch. */
+export function merchVenueTake(merch: ArtistMerchResult): Money {
+  return merch.softVenueCut + merch.hardVenueCut + (merch.sellerFee ?? 0);
+}
+
+/** e.g. "Venue Soft Goods Cut (20%)". */
+export function describeMerchVenueCut(category: "soft" | "hard", percent: number): string {
+  return `Venue ${category === "soft" ? "Soft" : "Hard"} Goods Cut (${percent}%)`;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { allocate, applyInclusiveRate, applyRate, mulDiv, parseMoney, percentToRate, toCents, toDecimalString } from "./money";
+
+describe("parseMoney", () => {
+  it("parses decimal strings to cents without floats", () => {
+    expect(parseMoney("1234.56")).toBe(123456);
+    expect(parseMoney("$1,234.56")).toBe(123456);
+    expect(parseMoney("0.1")).toBe(10);
+    expect(parseMoney("-12.5")).toBe(-1250);
+  });
+
+  it("rounds a third decimal half away from zero", () => {
+    expect(parseMoney("1.005")).toBe(101);
+    expect(parseMoney("1.004")).toBe(100);
+    expect(parseMoney("-1.005")).toBe(-101);
+  });
+
+  it("reads a leading number like parseFloat and treats non-numbers as 0", () => {
+    expect(parseMoney("12abc")).toBe(1200);
+    expect(parseMoney("abc")).toBe(0);
+    expect(parseMoney("")).toBe(0);
+  });
+});
+
+describe("toCents / toDecimalString", () => {
+  it("round-trips legacy dollar floats", () => {
+    expect(toCents(0.1 + 0.2)).toBe(30);
+    expect(toCents(-2.675)).toBe(-268);
+    expect(toCents(NaN)).toBe(0);
+    expect(toDecimalString(123405)).toBe("1234.05");
+    expect(toDecimalString(-5)).toBe("-0.05");
+  });
+});
+
+describe("mulDiv", () => {
+  it("rounds half away from zero", () => {
+    expect(mulDiv(3, 1, 2)).toBe(2);
+    expect(mulDiv(-3, 1, 2)).toBe(-2);
+    expect(mulDiv(5, 1, 3)).toBe(2);
+    expect(mulDiv(4, 1, 3)).toBe(1);
+  });
+
+  it("stays exact past Number's safe integer range in the product", () => {
+    expect(mulDiv(9_000_000_000_000, 9_000_000, 9_000_000)).toBe(9_000_000_000_000);
+  });
+
+  it("returns 0 for a zero divisor", () => {
+    expect(mulDiv(100, 5, 0)).toBe(0);
+  });
+});
+
+describe("applyRate", () => {
+  it("applies percentages to cents", () => {
+    expect(applyRate(10000, percentToRate(15))).toBe(1500);
+    expect(applyRate(1, percentToRate(50))).toBe(1);
+    expect(applyRate(999, percentToRate(2.9))).toBe(29);
+  });
+
+  it("extracts the tax already inside an inclusive amount", () => {
+    expect(applyInclusiveRate(11000, percentToRate(10))).toBe(1000);
+  });
+});
+
+describe("allocate", () => {
+  it("always sums to the total, largest remainders first", () => {
+    expect(allocate(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocate(1000, [1, 2, 3])).toEqual([167, 333, 500]);
+    expect(allocate(1, [1, 1])).toEqual([1, 0]);
+  });
+
+  it("splits negative totals symmetrically", () => {
+    expect(allocate(-100, [1, 1, 1])).toEqual([-34, -33, -33]);
+  });
+
+  it("splits evenly when every weight is zero and returns nothing for no weights", () => {
+    expect(allocate(10, [0, 0])).toEqual([5, 5]);
+    expect(allocate(10, [])).toEqual([]);
+  });
+});
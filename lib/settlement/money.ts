@@ -0,0 +1,134 @@
+/**
+ * Integer-cents money helpers — shared between client and server.
+ * Every settlement amount is a whole number of cents so line items,
+ * subtotals and the saved results always reconcile exactly.
+ */
+
+/** Whole number of minor currency units (cents). */
+export type Money = number;
+
+/** Percentage scaled by RATE_SCALE (e.g. 2.9% → 29000). */
+export type Rate = number;
+
+export const RATE_SCALE = 10_000;
+const PERCENT_DENOMINATOR = 100 * RATE_SCALE;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+const LEADING_DECIMAL = /^([+-])?(\d*)(?:\.(\d*))?/;
+
+/**
+ * Parses a decimal string into cents without going through floats.
+ * Mirrors parseFloat's leading-prefix behaviour; a third decimal rounds half away from zero.
+ */
+export function parseMoney(value: string): Money {
+  const cleaned = value.trim().replace(/[$,]/g, "");
+  const match = LEADING_DECIMAL.exec(cleaned);
+  if (!match || (!match[2] && !match[3])) return 0;
+
+  const rest = cleaned.slice(match[0].length);
+  if (/^e[+-]?\d/i.test(rest)) {
+    const parsed = parseFloat(cleaned);
+    return Number.isFinite(parsed) ? toCents(parsed) : 0;
+  }
+
+  const whole = match[2] || "0";
+  const fraction = (match[3] || "").padEnd(3, "0");
+  let cents = Number(whole) * 100 + Number(fraction.slice(0, 2));
+  if (Number(fraction[2]) >= 5) cents += 1;
+  if (!Number.isSafeInteger(cents)) return 0;
+  return match[1] === "-" ? -cents : cents;
+}
+
+/** Converts a dollar float (legacy saved results) to the nearest cent. */
+export function toCents(amount: number): Money {
+  if (!Number.isFinite(amount)) return 0;
+  const cents = Math.round(Math.abs(amount) * 100);
+  return amount < 0 ? -cents : cents;
+}
+
+/** Converts a percentage such as 85 or 2.9 to a Rate. */
+export function percentToRate(percent: number): Rate {
+  return Math.round(percent * RATE_SCALE);
+}
+
+/** Formats cents as a plain decimal string ("1234.50") for CSV cells. */
+export function toDecimalString(amount: Money): string {
+  const sign = amount < 0 ? "-" : "";
+  const abs = Math.abs(amount);
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+export function formatMoney(amount: Money, currency = "USD"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount / 100);
+}
+
+export function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, 0);
+}
+
+/** Computes a × b ÷ divisor exactly, rounding half away from zero. */
+export function mulDiv(a: number, b: number, divisor: number): number {
+  if (divisor === 0) return 0;
+  return divideRounded(BigInt(Math.round(a)) * BigInt(Math.round(b)), BigInt(Math.round(divisor)));
+}
+
+/** numerator ÷ denominator as a whole number, rounding half away from zero; denominator must not be 0. */
+export function divideRounded(numerator: bigint, denominator: bigint): number {
+  const negative = numerator < ZERO !== denominator < ZERO;
+  const absNumerator = numerator < ZERO ? -numerator : numerator;
+  const absDenominator = denominator < ZERO ? -denominator : denominator;
+  const quotient = (absNumerator * TWO + absDenominator) / (absDenominator * TWO);
+  const result = Number(quotient);
+  return negative ? -result : result;
+}
+
+/** amount × rate%, e.g. applyRate(10000, percentToRate(15)) === 1500. */
+export function applyRate(amount: Money, rate: Rate): Money {
+  return mulDiv(amount, rate, PERCENT_DENOMINATOR);
+}
+
+/** The rate% portion already contained in a tax-inclusive amount. */
+export function applyInclusiveRate(amount: Money, rate: Rate): Money {
+  return mulDiv(amount, rate, PERCENT_DENOMINATOR + rate);
+}
+
+/**
+ * Splits `total` across non-negative integer `weights` so the parts always sum to `total`.
+ * Uses largest remainder; leftover cents go to the largest fractional shares, ties to the lower index.
+ * When every weight is zero the total is split evenly.
+ */
+export function allocate(total: Money, weights: number[]): Money[] {
+  if (weights.length === 0) return [];
+  const safeWeights = weights.map((w) => (Number.isFinite(w) && w > 0 ? Math.round(w) : 0));
+  const totalWeight = safeWeights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight === 0) return allocate(total, weights.map(() => 1));
+
+  const absTotal = BigInt(Math.abs(total));
+  const bigTotalWeight = BigInt(totalWeight);
+  const shares = safeWeights.map((w) => {
+    const scaled = absTotal * BigInt(w);
+    return { base: scaled / bigTotalWeight, remainder: scaled % bigTotalWeight };
+  });
+
+  let leftover = absTotal - shares.reduce((sum, s) => sum + s.base, ZERO);
+  const order = shares
+    .map((s, index) => ({ index, remainder: s.remainder }))
+    .sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1));
+
+  const parts = shares.map((s) => s.base);
+  for (const { index } of order) {
+    if (leftover <= ZERO) break;
+    parts[index] += ONE;
+    leftover -= ONE;
+  }
+
+  return parts.map((p) => (total < 0 ? -Number(p) || 0 : Number(p)));
+}
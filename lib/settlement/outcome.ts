@@ -0,0 +1,101 @@
+/**
+ * Show outcomes other than a completed show. Cancelled shows settle on the
+ * contract's cancellation terms instead of ticket revenue: tickets are
+ * refunded, expenses already incurred stay with the venue, the artist may be
+ * owed a kill fee, and the deposit is either retained by the artist or
+ * refunded. A shortened set settles normally, pro-rated by minutes performed.
+ */
+
+import { applyRate, mulDiv, percentToRate, type Money } from "./money";
+
+export type ShowOutcome = "performed" | "cancelled_by_artist" | "cancelled_by_venue" | "force_majeure" | "shortened";
+
+export const SHOW_OUTCOMES: { outcome: ShowOutcome; label: string }[] = [
+  { outcome: "performed", label: "Performed" },
+  { outcome: "shortened", label: "Shortened Set" },
+  { outcome: "cancelled_by_artist", label: "Cancelled by Artist" },
+  { outcome: "cancelled_by_venue", label: "Cancelled by Venue" },
+  { outcome: "force_majeure", label: "Force Majeure" },
+];
+
+/**
+ * retain — the artist keeps the deposit (forfeited by the venue).
+ * refund — the artist returns the deposit.
+ */
+export type DepositTreatment = "retain" | "refund";
+
+export interface ShowOutcomeResult {
+  outcome: ShowOutcome;
+  /** Cancellations: percentage of each artist's guarantee owed as a kill fee. */
+  killFeePercent?: number;
+  depositTreatment?: DepositTreatment;
+  /** Cancellations: ticket revenue refunded to buyers. */
+  refundedTicketRevenue?: Money;
+  /** Shortened set: payouts are scaled by performed / scheduled minutes. */
+  scheduledMinutes?: number;
+  performedMinutes?: number;
+}
+
+export interface CancellationPayout {
+  killFee: Money;
+  artistPayout: Money;
+  /** Deposit the artist returns; 0 when it is retained. */
+  depositRefund: Money;
+  balanceDue: Money;
+}
+
+export function normalizeShowOutcome(value: string | undefined): ShowOutcome {
+  return SHOW_OUTCOMES.some(({ outcome }) => outcome === value) ? (value as ShowOutcome) : "performed";
+}
+
+export function isCancellation(outcome: ShowOutcome): boolean {
+  return outcome === "cancelled_by_artist" || outcome === "cancelled_by_venue" || outcome === "force_majeure";
+}
+
+/** The venue cancelling forfeits the deposit; otherwise it is refunded unless the contract says so. */
+export function defaultDepositTreatment(outcome: ShowOutcome): DepositTreatment {
+  return outcome === "cancelled_by_venue" ? "retain" : "refund";
+}
+
+export function normalizeDepositTreatment(value: string | undefined, outcome: ShowOutcome): DepositTreatment {
+  return value === "retain" || value === "refund" ? value : defaultDepositTreatment(outcome);
+}
+
+/**
+ * An artist who cancels is owed nothing; otherwise the kill fee is a
+ * percentage of the guarantee. A retained deposit counts toward the kill fee
+ * and is kept in full even when it is larger.
+ */
+export function settleCancellation(
+  outcome: ShowOutcome,
+  guarantee: Money,
+  killFeePercent: number,
+  deposit: Money,
+  depositTreatment: DepositTreatment
+): CancellationPayout {
+  const killFee = outcome === "cancelled_by_artist" ? 0 : applyRate(guarantee, percentToRate(killFeePercent));
+  if (depositTreatment === "retain") {
+    const artistPayout = Math.max(killFee, deposit);
+    return { killFee, artistPayout, depositRefund: 0, balanceDue: artistPayout - deposit };
+  }
+  return { killFee, artistPayout: killFee, depositRefund: deposit, balanceDue: killFee - deposit };
+}
+
+/** Payout scaled by minutes performed; never more than the full payout. */
+export function proRatePayout(payout: Money, performedMinutes: number, scheduledMinutes: number): Money {
+  if (scheduledMinutes <= 0 || performedMinutes >= scheduledMinutes) return payout;
+  return mulDiv(payout, performedMinutes, scheduledMinutes);
+}
+
+/** e.g. "Cancelled by Venue — 50% kill fee, deposit retained by artist". */
+export function describeShowOutcome(result: ShowOutcomeResult): string {
+  const label = SHOW_OUTCOMES.find((o) => o.outcome === result.outcome)?.label ?? result.outcome;
+  if (result.outcome === "shortened" && result.scheduledMinutes) {
+    return `${label} — ${result.performedMinutes ?? 0} of ${result.scheduledMinutes} minutes, payouts pro-rated`;
+  }
+  if (!isCancellation(result.outcome)) return label;
+  const parts: string[] = [];
+  if (result.outcome !== "cancelled_by_artist") parts.push(`${result.killFeePercent ?? 0}% kill fee`);
+  parts.push(result.depositTreatment === "retain" ? "deposit retained by artist" : "deposit refunded");
+  return `${label} — ${parts.join(", ")}`;
+}
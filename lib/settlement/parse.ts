@@ -0,0 +1,55 @@
+/**
+ * Form-field parsing shared by the settlement modules. A field that is not a
+ * number, is negative or is out of range settles as something sensible and
+ * says so in the warnings, rather than quietly becoming 0.
+ */
+
+import { parseMoney, type Money } from "./money";
+
+export function parseNumber(value: string): number {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function warnIfNotNumeric(value: string, fieldName: string, warnings: string[]) {
+  const trimmed = value.trim();
+  if (trimmed && isNaN(parseFloat(trimmed))) {
+    warnings.push(`"${fieldName}" contains "${trimmed}" — treated as 0.`);
+  }
+}
+
+export function parseNonNegative(value: string, fieldName: string, warnings: string[]): number {
+  const parsed = parseNumber(value);
+  if (parsed < 0) {
+    warnings.push(`${fieldName} is negative — treated as 0.`);
+    return 0;
+  }
+  return parsed;
+}
+
+export function parsePercent(value: string, fieldName: string, warnings: string[]): number {
+  const parsed = parseNonNegative(value, fieldName, warnings);
+  if (parsed > 100) {
+    warnings.push(`${fieldName} is above 100% — capped at 100%.`);
+    return 100;
+  }
+  return parsed;
+}
+
+export function parseMoneyNonNegative(value: string, fieldName: string, warnings: string[]): Money {
+  const parsed = parseMoney(value);
+  if (parsed < 0) {
+    warnings.push(`${fieldName} is negative — treated as 0.`);
+    return 0;
+  }
+  return parsed;
+}
+
+export function parseTicketCount(value: string, fieldName: string, warnings: string[]): number {
+  const parsed = parseNonNegative(value, fieldName, warnings);
+  if (!Number.isInteger(parsed)) {
+    warnings.push(`${fieldName} is not a whole number — rounded down to ${Math.floor(parsed)}.`);
+    return Math.floor(parsed);
+  }
+  return parsed;
+}
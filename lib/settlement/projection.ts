@@ -0,0 +1,144 @@
+/**
+ * Pre-show projections. Before a show happens, its ticket scaling (each
+ * tier's capacity and price) is settled at a range of sell-through levels,
+ * giving the gross, net, every artist's payout and the house result at each
+ * level. A saved projection is later compared with the actual settlement.
+ */
+
+import { computeSettlement, parseNumber, type CalculationInput, type CalculationResult } from "./calculate";
+import { housePosition } from "./goal-seek";
+import { allocate, type Money } from "./money";
+import { normalizeShowMode, type ShowMode } from "./venue-rental";
+
+export type SettlementStage = "actual" | "projection";
+
+export function normalizeSettlementStage(value: string | undefined): SettlementStage {
+  return value === "projection" ? "projection" : "actual";
+}
+
+export const SELL_THROUGH_LEVELS = [25, 50, 75, 90, 100];
+
+export interface ProjectionRow {
+  sellThroughPercent: number;
+  tickets: number;
+  gross: Money;
+  netProfit: Money;
+  artists: { artistName: string; payout: Money }[];
+  /** Venue payout, or promoter net in a rented room. */
+  housePosition: Money;
+}
+
+export interface ProjectionReport {
+  currency: string;
+  showMode: ShowMode;
+  /** Sellable tickets: the tier capacities, or the show capacity when none are entered. */
+  capacity: number;
+  rows: ProjectionRow[];
+}
+
+export interface ProjectionVariance {
+  label: string;
+  projected: Money;
+  actual: Money;
+  /** actual − projected. */
+  variance: Money;
+}
+
+export interface ProjectionComparison {
+  actualTickets: number;
+  actualSellThroughPercent: number;
+  /** The projected level closest to the actual sell-through. */
+  row: ProjectionRow;
+  lines: ProjectionVariance[];
+}
+
+/**
+ * Tickets available per tier. Without tier capacities, the show capacity is
+ * spread evenly across the priced tiers.
+ */
+function tierCapacities(input: CalculationInput): number[] {
+  const entered = input.ticketTiers.map((t) => Math.floor(parseNumber(t.capacity ?? "")));
+  if (entered.some((n) => n > 0)) return entered.map((n) => Math.max(n, 0));
+  const capacity = Math.floor(parseNumber(input.capacity));
+  if (capacity <= 0) return entered.map(() => 0);
+  return allocate(capacity, input.ticketTiers.map((t) => (parseNumber(t.price) > 0 ? 1 : 0)));
+}
+
+/** The show as a completed performance with each tier selling `percent` of its capacity. */
+function atSellThrough(input: CalculationInput, capacities: number[], percent: number): CalculationInput {
+  return {
+    ...input,
+    ticketTiers: input.ticketTiers.map((t, i) => ({
+      ...t,
+      sold: String(Math.floor((capacities[i] * percent) / 100)),
+      walkUpSold: "",
+    })),
+    doorCash: "",
+    doorCard: "",
+    outcome: "performed",
+    scheduledMinutes: "",
+    performedMinutes: "",
+  };
+}
+
+export function buildProjection(
+  input: CalculationInput
+): { ok: true; report: ProjectionReport } | { ok: false; error: string } {
+  const capacities = tierCapacities(input);
+  const capacity = capacities.reduce((sum, n) => sum + n, 0);
+  if (capacity <= 0) {
+    return { ok: false, error: "Please enter tier capacities or a venue capacity to project sell-through." };
+  }
+
+  const rows: ProjectionRow[] = [];
+  let currency = input.currency ?? "";
+  for (const percent of SELL_THROUGH_LEVELS) {
+    // A level that rounds down to 0 tickets still settles: guarantees and expenses apply with no sales.
+    const output = computeSettlement(atSellThrough(input, capacities, percent), { allowNoSales: true });
+    if (!output.ok) return { ok: false, error: `${percent}% sell-through: ${output.error}` };
+    const result = output.result;
+    currency = result.currency;
+    rows.push({
+      sellThroughPercent: percent,
+      tickets: result.totalTicketsSold ?? 0,
+      gross: result.grossRevenue,
+      netProfit: result.netProfit,
+      artists: result.artists.map((ar) => ({ artistName: ar.artistName, payout: ar.artistPayout })),
+      housePosition: housePosition(result),
+    });
+  }
+  return { ok: true, report: { currency, showMode: normalizeShowMode(input.showMode), capacity, rows } };
+}
+
+/** Artists are matched by position in the lineup, as the projection was made from the same show. */
+export function compareToProjection(report: ProjectionReport, result: CalculationResult): ProjectionComparison | null {
+  if (report.rows.length === 0 || report.capacity <= 0) return null;
+  const actualTickets = result.totalTicketsSold ?? 0;
+  const actualSellThroughPercent = Math.round((actualTickets / report.capacity) * 1000) / 10;
+  const row = report.rows.reduce((best, r) =>
+    Math.abs(r.sellThroughPercent - actualSellThroughPercent) < Math.abs(best.sellThroughPercent - actualSellThroughPercent)
+      ? r
+      : best
+  );
+  const line = (label: string, projected: Money, actual: Money): ProjectionVariance => ({
+    label,
+    projected,
+    actual,
+    variance: actual - projected,
+  });
+  return {
+    actualTickets,
+    actualSellThroughPercent,
+    row,
+    lines: [
+      line("Gross", row.gross, result.grossRevenue),
+      line("Net", row.netProfit, result.netProfit),
+      ...result.artists.map((ar, i) => line(ar.artistName, row.artists[i]?.payout ?? 0, ar.artistPayout)),
+      line(describeHousePosition(report.showMode), row.housePosition, housePosition(result)),
+    ],
+  };
+}
+
+export function describeHousePosition(showMode: ShowMode): string {
+  return showMode === "promoter" ? "Promoter Net" : "Venue Result";
+}
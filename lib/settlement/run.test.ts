@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { ArtistDealInput, CalculationInput } from "./calculate";
+import { computeRunSettlement, type RunInput } from "./run";
+
+const artist: ArtistDealInput = {
+  artistName: "The Band",
+  dealType: "guarantee_vs_percentage",
+  guarantee: "1000",
+  percentage: "85",
+  breakeven: "",
+  deposit: "",
+  withholdingRate: "",
+  withholdingState: "",
+  buyoutItems: [],
+  buyoutMode: "deduct_from_balance",
+};
+
+function night(sold: string, overrides: Partial<CalculationInput> = {}): CalculationInput {
+  return {
+    showName: "Night",
+    ticketTiers: [{ name: "GA", price: "25", sold }],
+    capacity: "500",
+    ccFeeRate: "",
+    ccFeeMode: "expense",
+    expenseItems: [{ label: "Sound", amount: "2000" }],
+    artists: [artist],
+    notes: "",
+    ...overrides,
+  };
+}
+
+function run(nights: CalculationInput[]): RunInput {
+  return {
+    runName: "Two Nights",
+    nights: nights.map((input, i) => ({ showId: `show-${i + 1}`, title: `Night ${i + 1}`, input })),
+    artists: [artist],
+    artistAllocation: "parallel",
+  };
+}
+
+describe("computeRunSettlement", () => {
+  it("settles the deal once on the run totals and spreads the payout by gross", () => {
+    // Night 1 nets $8,000; night 2 loses $1,000. On their own the artist would get
+    // $6,800 + the $1,000 guarantee; cross-collateralized it is 85% of $7,000.
+    const output = computeRunSettlement(run([night("400"), night("40")]));
+    expect(output.ok).toBe(true);
+    if (!output.ok) return;
+    const { result } = output;
+    expect(result.grossRevenue).toBe(1_100_000);
+    expect(result.netProfit).toBe(700_000);
+    expect(result.artistPayout).toBe(595_000);
+    expect(result.nights.map((n) => n.artistShare)).toEqual([540_909, 54_091]);
+    expect(result.venuePayout).toBe(result.netProfit - result.artistPayout);
+  });
+
+  it("pays each night's merch and split ancillary shares on top of the run balance", () => {
+    const output = computeRunSettlement(
+      run([
+        night("400", {
+          merchGross: "1000",
+          merchVenuePercent: "20",
+          ancillaryRevenue: [{ category: "parking", label: "Parking", amount: "500", inclusion: "split", artistSharePercent: "50" }],
+        }),
+        night("40"),
+      ])
+    );
+    expect(output.ok).toBe(true);
+    if (!output.ok) return;
+    const [band] = output.result.artists;
+    expect(band.ancillaryShare).toBe(25_000);
+    expect(output.result.merchNetToArtist).toBe(80_000);
+    expect(band.totalDue).toBe(band.balanceDue + 80_000 + 25_000);
+    expect(output.result.totalDueToArtist).toBe(band.totalDue);
+  });
+
+  it("rejects a run whose nights were entered with different deals", () => {
+    const output = computeRunSettlement(
+      run([night("400"), night("40", { artists: [{ ...artist, percentage: "80" }] })])
+    );
+    expect(output).toEqual({
+      ok: false,
+      error: "Night 2 has a different artist deal from the first night. Every night of a run must be entered with the same deal.",
+    });
+  });
+
+  it("needs at least two nights", () => {
+    expect(computeRunSettlement(run([night("400")]))).toEqual({ ok: false, error: "A run needs at least two nights." });
+  });
+});
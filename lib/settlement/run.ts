@@ -0,0 +1,244 @@
+/**
+ * Multi-night runs settled as one cross-collateralized deal. Each night is
+ * settled on its own tickets, taxes and expenses; the run's artist deals are
+ * then applied once to the combined totals, and the artist cost is spread
+ * back over the nights by gross for the per-night reports.
+ */
+
+import { barRevenue } from "./bar";
+import {
+  parseNumber,
+  settleArtistLineup,
+  settleShow,
+  settlementOutcomeWarnings,
+  type ArtistCalcResult,
+  type ArtistDealInput,
+  type CalculationInput,
+  type CalculationResult,
+} from "./calculate";
+import type { ExpenseAdjustment } from "./expenses";
+import { allocate, sumMoney, type Money } from "./money";
+import { normalizeArtistAllocation, type ArtistAllocation, type ArtistWaterfallStep } from "./waterfall";
+
+export interface RunNightInput {
+  showId?: string;
+  title: string;
+  showDate?: string;
+  input: CalculationInput;
+}
+
+export interface RunInput {
+  runName: string;
+  nights: RunNightInput[];
+  /** The deal carried across the run; every night must have been entered with the same terms. */
+  artists: ArtistDealInput[];
+  artistAllocation: ArtistAllocation;
+}
+
+export interface RunNightResult {
+  showId?: string;
+  title: string;
+  showDate?: string;
+  grossRevenue: Money;
+  taxAmount: Money;
+  totalExpenses: Money;
+  netProfit: Money;
+  totalTicketsSold: number;
+  /** This night's share of the run's artist payout, allocated by gross. */
+  artistShare: Money;
+  venuePayout: Money;
+}
+
+export interface RunSettlementResult {
+  moneyUnit: "cents";
+  currency: string;
+  runName: string;
+  nights: RunNightResult[];
+  grossRevenue: Money;
+  taxAmount: Money;
+  totalExpenses: Money;
+  netProfit: Money;
+  totalTicketsSold: number;
+  capacity: number;
+  artists: ArtistCalcResult[];
+  artistWaterfall?: ArtistWaterfallStep[];
+  artistPayout: Money;
+  deposit: Money;
+  balanceDue: Money;
+  /** Every night's merch net to the artists, paid on top of the run balance; set when there was merch. */
+  merchNetToArtist?: Money;
+  /** Run balance plus merch and split ancillary shares; set for a single-artist run with either. */
+  totalDueToArtist?: Money;
+  venuePayout: Money;
+  calculatedAt?: string;
+}
+
+export type RunComputeOutput =
+  | { ok: true; result: RunSettlementResult; warnings: string[] }
+  | { ok: false; error: string };
+
+/** Artist terms every night of a run must agree on; merch is each night's own sales. */
+const RUN_DEAL_FIELDS = [
+  "artistName",
+  "dealType",
+  "guarantee",
+  "percentage",
+  "breakeven",
+  "deposit",
+  "depositSchedule",
+  "withholdingRate",
+  "withholdingState",
+  "buyoutItems",
+  "buyoutMode",
+  "payoutCurrency",
+  "fxRate",
+  "fxDate",
+  "promoterProfitMode",
+  "promoterProfit",
+  "formula",
+  "escalatorBasis",
+  "escalatorTiers",
+  "bonusClauses",
+  "costToLaterArtists",
+  "bar",
+] as const satisfies readonly (keyof ArtistDealInput)[];
+
+function runDealKey(artists: ArtistDealInput[]): string {
+  return JSON.stringify(artists.map((artist) => RUN_DEAL_FIELDS.map((field) => artist[field] ?? null)));
+}
+
+/** An artist's merch net on one night; a single-artist night's whole-show merch is theirs. */
+function nightArtistMerch(result: CalculationResult, artistIndex: number): Money {
+  if (result.artists.length === 1) return result.merchNetToArtist ?? 0;
+  return result.artists[artistIndex]?.merch?.netToArtist ?? 0;
+}
+
+/** A night's pre-artist venue take: what the venue keeps before paying any artist. */
+function nightHouseTake(result: CalculationResult): Money {
+  return result.venuePayout + result.artistPayout;
+}
+
+export function computeRunSettlement(run: RunInput): RunComputeOutput {
+  if (run.nights.length < 2) {
+    return { ok: false, error: "A run needs at least two nights." };
+  }
+  if (run.artists.length === 0) {
+    return { ok: false, error: "Please enter the run's artist deal on its first night." };
+  }
+  const dealKey = runDealKey(run.artists);
+  const mismatched = run.nights.find(
+    (night) =>
+      runDealKey(night.input.artists) !== dealKey ||
+      normalizeArtistAllocation(night.input.artistAllocation) !== run.artistAllocation
+  );
+  if (mismatched) {
+    return {
+      ok: false,
+      error: `${mismatched.title} has a different artist deal from the first night. Every night of a run must be entered with the same deal.`,
+    };
+  }
+
+  const warnings: string[] = [];
+  const nightResults: CalculationResult[] = [];
+  for (const night of run.nights) {
+    // Nights are settled with the run's artists so expense terms line up by artist;
+    // each night's standalone payouts are never used, so it settles them in parallel.
+    const output = settleShow({ ...night.input, artists: run.artists, artistAllocation: "parallel" });
+    if (!output.ok) return { ok: false, error: `${night.title}: ${output.error}` };
+    warnings.push(...output.warnings.map((warning) => `${night.title}: ${warning}`));
+    nightResults.push(output.result);
+  }
+
+  const currency = nightResults[0].currency;
+  if (nightResults.some((result) => result.currency !== currency)) {
+    return { ok: false, error: "Every night in a run must be settled in the same currency." };
+  }
+
+  // Ancillary revenue counted in each night's gross is part of the run's deal gross.
+  const grossRevenue = sumMoney(nightResults.map((r) => r.grossRevenue + (r.ancillary?.inGross ?? 0)));
+  const taxAmount = sumMoney(nightResults.map((r) => r.taxAmount));
+  const totalExpenses = sumMoney(nightResults.map((r) => r.totalExpenses));
+  const netProfit = sumMoney(nightResults.map((r) => r.netProfit));
+  const barNights = nightResults.flatMap((r) => (r.bar ? [r.bar] : []));
+  const bar = barNights.length > 0
+    ? barRevenue(sumMoney(barNights.map((b) => b.gross)), sumMoney(barNights.map((b) => b.costOfGoods)))
+    : undefined;
+  const totalTicketsSold = nightResults.reduce((sum, r) => sum + (r.totalTicketsSold ?? 0), 0);
+  const capacity = run.nights.reduce((sum, night) => sum + parseNumber(night.input.capacity), 0);
+
+  // Each night already worked out what each artist's contract lets it deduct.
+  const nightExpenses = (artistIndex: number) => {
+    const adjustments: ExpenseAdjustment[] = [];
+    const deductibleExpenses = sumMoney(
+      nightResults.map((result, nightIndex) => {
+        const terms = result.artists[artistIndex]?.expenseTerms;
+        if (!terms) return result.totalExpenses;
+        adjustments.push(
+          ...terms.adjustments.map((adj) => ({ ...adj, label: `${run.nights[nightIndex].title}: ${adj.label}` }))
+        );
+        return terms.deductibleExpenses;
+      })
+    );
+    return { deductibleExpenses, adjustments };
+  };
+  const lineup = settleArtistLineup(
+    run.artists,
+    nightResults[0].artists.map((a) => a.artistName),
+    run.artistAllocation,
+    { currency, capacity, netProfit, grossRevenue, taxAmount, totalExpenses, totalTicketsSold, bar },
+    nightExpenses,
+    warnings
+  );
+  if (!lineup.ok) return lineup;
+  const artists = lineup.artists;
+  // Merch and split ancillary shares are each night's own and stay outside the
+  // cross-collateralized deal, but are still paid to the artist on top of it.
+  const artistMerch = artists.map((_, artistIndex) => sumMoney(nightResults.map((r) => nightArtistMerch(r, artistIndex))));
+  artists.forEach((ar, artistIndex) => {
+    const ancillaryShare = sumMoney(nightResults.map((r) => r.artists[artistIndex]?.ancillaryShare ?? 0));
+    if (ancillaryShare > 0) ar.ancillaryShare = ancillaryShare;
+    if (artistMerch[artistIndex] !== 0 || ancillaryShare > 0) {
+      ar.totalDue = ar.balanceDue + artistMerch[artistIndex] + ancillaryShare;
+    }
+  });
+
+  const artistPayout = sumMoney(artists.map((a) => a.artistPayout));
+  const artistShares = allocate(artistPayout, nightResults.map((r) => r.grossRevenue));
+  const nights: RunNightResult[] = nightResults.map((result, i) => ({
+    showId: run.nights[i].showId,
+    title: run.nights[i].title,
+    showDate: run.nights[i].showDate,
+    grossRevenue: result.grossRevenue,
+    taxAmount: result.taxAmount,
+    totalExpenses: result.totalExpenses,
+    netProfit: result.netProfit,
+    totalTicketsSold: result.totalTicketsSold ?? 0,
+    artistShare: artistShares[i],
+    venuePayout: nightHouseTake(result) - artistShares[i],
+  }));
+
+  const result: RunSettlementResult = {
+    moneyUnit: "cents",
+    currency,
+    runName: run.runName,
+    nights,
+    grossRevenue,
+    taxAmount,
+    totalExpenses,
+    netProfit,
+    totalTicketsSold,
+    capacity,
+    artists,
+    artistWaterfall: lineup.waterfall,
+    artistPayout,
+    deposit: sumMoney(artists.map((a) => a.deposit)),
+    balanceDue: sumMoney(artists.map((a) => a.balanceDue)),
+    ...(artistMerch.some((merch) => merch !== 0) ? { merchNetToArtist: sumMoney(artistMerch) } : {}),
+    ...(artists.length === 1 && artists[0].totalDue != null ? { totalDueToArtist: artists[0].totalDue } : {}),
+    venuePayout: sumMoney(nights.map((n) => n.venuePayout)),
+    calculatedAt: new Date().toISOString(),
+  };
+  warnings.push(...settlementOutcomeWarnings(result, "run"));
+
+  return { ok: true, result, warnings };
+}
@@ -0,0 +1,92 @@
+/**
+ * Builds engine input from a saved show (`shows.title`, `shows.show_date`,
+ * `shows.inputs` JSONB). Used wherever the server recalculates a show.
+ */
+
+import type { CalculationInput } from "./calculate";
+import type { RunInput } from "./run";
+import { normalizeArtistAllocation } from "./waterfall";
+
+export interface StoredShow {
+  id?: string;
+  title: string | null;
+  show_date: string | null;
+  inputs: Partial<CalculationInput> | null;
+}
+
+export function readStoredInput(show: StoredShow): CalculationInput {
+  const inputs = show.inputs || {};
+  return {
+    showName: show.title || "",
+    showDate: show.show_date || "",
+    currency: inputs.currency || "",
+    ticketTiers: inputs.ticketTiers || [],
+    capacity: inputs.capacity || "",
+    taxes: inputs.taxes,
+    taxRate: inputs.taxRate || "",
+    taxMode: inputs.taxMode || "exclusive",
+    ccFeeRate: inputs.ccFeeRate || "",
+    ccFeeMode: inputs.ccFeeMode || "expense",
+    expenseItems: inputs.expenseItems || [],
+    ticketFeeTreatments: inputs.ticketFeeTreatments,
+    compAllowances: inputs.compAllowances,
+    doorCash: inputs.doorCash,
+    doorCard: inputs.doorCard,
+    artists: inputs.artists || [],
+    artistAllocation: inputs.artistAllocation,
+    merchGross: inputs.merchGross || "",
+    merchVenuePercent: inputs.merchVenuePercent || "",
+    merchTaxRate: inputs.merchTaxRate,
+    merchCardFeeRate: inputs.merchCardFeeRate,
+    outcome: inputs.outcome,
+    killFeePercent: inputs.killFeePercent,
+    depositTreatment: inputs.depositTreatment,
+    scheduledMinutes: inputs.scheduledMinutes,
+    performedMinutes: inputs.performedMinutes,
+    showMode: inputs.showMode,
+    venueRental: inputs.venueRental,
+    ancillaryRevenue: inputs.ancillaryRevenue,
+    barGross: inputs.barGross,
+    barCostOfGoods: inputs.barCostOfGoods,
+    notes: inputs.notes || "",
+  };
+}
+
+/** JSON with sorted keys; JSONB hands `shows.inputs` back in its own key order. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** True when two saved `shows.inputs` hold the same entries, whatever their key order. */
+export function sameStoredInputs(a: unknown, b: unknown): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+/**
+ * Nights are ordered by date; the run settles on the artist deal (and
+ * allocation mode) entered on its first night. computeRunSettlement rejects
+ * the run when another night was entered with a different deal.
+ */
+export function readStoredRunInput(runName: string, shows: StoredShow[]): RunInput {
+  const nights = [...shows]
+    .sort((a, b) => (a.show_date || "").localeCompare(b.show_date || ""))
+    .map((show, i) => ({
+      showId: show.id,
+      title: show.title || `Night ${i + 1}`,
+      showDate: show.show_date || undefined,
+      input: readStoredInput(show),
+    }));
+  return {
+    runName,
+    nights,
+    artists: nights[0]?.input.artists ?? [],
+    artistAllocation: normalizeArtistAllocation(nights[0]?.input.artistAllocation),
+  };
+}
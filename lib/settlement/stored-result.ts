@@ -0,0 +1,107 @@
+/**
+ * Reads `shows.results` JSONB written by any version of the calculator.
+ * Settlements saved before the integer-cents engine stored dollar floats;
+ * those are converted to cents here so every renderer works in one unit.
+ */
+
+import type { ArtistCalcResult, CalculationResult } from "./calculate";
+import type { RunSettlementResult } from "./run";
+import { DEFAULT_CURRENCY } from "./currency";
+import { toCents } from "./money";
+
+type LegacyRecord = Record<string, unknown>;
+
+const LEGACY_RESULT_MONEY_FIELDS = [
+  "grossRevenue",
+  "taxAmount",
+  "totalExpenses",
+  "netProfit",
+  "artistPayout",
+  "overage",
+  "breakeven",
+  "ccFees",
+  "withholdingAmount",
+  "totalBuyouts",
+  "deposit",
+  "balanceDue",
+  "venuePayout",
+  "merchGross",
+  "merchVenueCut",
+  "merchNetToArtist",
+  "totalDueToArtist",
+] as const;
+
+const LEGACY_ARTIST_MONEY_FIELDS = [
+  "artistPayout",
+  "overage",
+  "breakeven",
+  "withholdingAmount",
+  "totalBuyouts",
+  "deposit",
+  "balanceDue",
+] as const;
+
+function convertFields<T extends LegacyRecord>(record: T, fields: readonly string[]): T {
+  const converted: LegacyRecord = { ...record };
+  for (const field of fields) {
+    const value = record[field];
+    if (typeof value === "number") converted[field] = toCents(value);
+  }
+  return converted as T;
+}
+
+function convertLineItems(items: unknown): { label: string; amount: number; note?: string }[] | undefined {
+  if (!Array.isArray(items)) return undefined;
+  return items.map((item: LegacyRecord) => ({
+    ...(item as { label: string; note?: string }),
+    amount: toCents(Number(item.amount) || 0),
+  }));
+}
+
+/**
+ * Returns the stored result in cents, or null for drafts/empty results.
+ * Legacy results without `artists` get an empty list; callers keep their
+ * single-artist fallbacks for those.
+ */
+export function readStoredResult(raw: unknown): CalculationResult | null {
+  if (!raw || typeof raw !== "object") return null;
+  const record = raw as LegacyRecord;
+  if (typeof record.grossRevenue !== "number") return null;
+
+  if (record.moneyUnit === "cents") {
+    return {
+      ...(record as unknown as CalculationResult),
+      currency: (record.currency as string) || DEFAULT_CURRENCY,
+      artists: (record.artists as ArtistCalcResult[]) || [],
+    };
+  }
+
+  const converted = convertFields(record, LEGACY_RESULT_MONEY_FIELDS);
+  const artists = Array.isArray(record.artists)
+    ? (record.artists as LegacyRecord[]).map((artist) => ({
+        ...convertFields(artist, LEGACY_ARTIST_MONEY_FIELDS),
+        buyoutItems: convertLineItems(artist.buyoutItems),
+      }))
+    : [];
+  const ticketTiers = Array.isArray(record.ticketTiers)
+    ? (record.ticketTiers as LegacyRecord[]).map((tier) => convertFields(tier, ["price", "revenue"]))
+    : undefined;
+
+  return {
+    ...(converted as unknown as CalculationResult),
+    moneyUnit: "cents",
+    currency: DEFAULT_CURRENCY,
+    artists: artists as unknown as ArtistCalcResult[],
+    ticketTiers: ticketTiers as unknown as CalculationResult["ticketTiers"],
+    expenseItems: convertLineItems(record.expenseItems),
+    buyoutItems: convertLineItems(record.buyoutItems),
+  };
+}
+
+/** Returns `runs.results` when the run last settled, or null. */
+export function readStoredRunResult(raw: unknown): RunSettlementResult | null {
+  if (!raw || typeof raw !== "object") return null;
+  const record = raw as LegacyRecord;
+  if (record.moneyUnit !== "cents" || !Array.isArray(record.nights)) return null;
+  return record as unknown as RunSettlementResult;
+}
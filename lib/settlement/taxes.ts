@@ -0,0 +1,113 @@
+/**
+ * Layered ticket taxes: several named taxes applied in order, each inclusive
+ * or exclusive of the ticket price, optionally compounding on the taxes
+ * before it, with per-tier exemptions.
+ */
+
+import { allocate, applyRate, mulDiv, percentToRate, RATE_SCALE, sumMoney, type Money } from "./money";
+
+export type TaxMode = "inclusive" | "exclusive";
+
+export interface TaxInput {
+  id?: string;
+  name: string;
+  rate: string;
+  /** "inclusive" when ticket prices already contain the tax. */
+  mode: string;
+  /** Tax is charged on the ticket base plus every tax listed before it. */
+  compound?: boolean;
+  /** Tier ids exempt from this tax. */
+  exemptTiers?: string[];
+}
+
+export interface TaxResult {
+  name: string;
+  rate: number;
+  mode: TaxMode;
+  compound?: boolean;
+  /** Names of exempt tiers. */
+  exemptTiers?: string[];
+  amount: Money;
+}
+
+export interface ParsedTax {
+  name: string;
+  rate: number;
+  mode: TaxMode;
+  compound: boolean;
+  /** Indices of exempt tiers. */
+  exempt: number[];
+}
+
+/** 100% expressed as a Rate. */
+const WHOLE = 100 * RATE_SCALE;
+
+/**
+ * Computes each tax's amount and each tier's total tax.
+ *
+ * Tiers subject to the same set of taxes are taxed as one group so a single
+ * tax with no exemptions is computed on the whole gross. Inclusive taxes are
+ * backed out of the group's gross first: the pre-tax base is the gross divided
+ * by the stacked inclusive factor, and the last inclusive tax absorbs rounding
+ * so inclusive amounts always sum to the gross minus the base.
+ */
+export function computeLayeredTaxes(
+  taxes: ParsedTax[],
+  tierGross: Money[]
+): { taxAmounts: Money[]; tierTaxes: Money[] } {
+  const taxAmounts = taxes.map(() => 0);
+  const tierTaxes = tierGross.map(() => 0);
+
+  const groups = new Map<string, number[]>();
+  tierGross.forEach((_, tierIdx) => {
+    const key = taxes.map((tax) => (tax.exempt.includes(tierIdx) ? "0" : "1")).join("");
+    groups.set(key, [...(groups.get(key) ?? []), tierIdx]);
+  });
+
+  for (const [key, tierIdxs] of groups) {
+    const applicable = taxes.map((_, taxIdx) => key[taxIdx] === "1");
+    const gross = sumMoney(tierIdxs.map((i) => tierGross[i]));
+
+    let inclusiveFactor = WHOLE;
+    taxes.forEach((tax, taxIdx) => {
+      if (!applicable[taxIdx] || tax.mode !== "inclusive") return;
+      const rate = percentToRate(tax.rate);
+      inclusiveFactor += tax.compound ? mulDiv(inclusiveFactor, rate, WHOLE) : rate;
+    });
+    const base = mulDiv(gross, WHOLE, inclusiveFactor);
+    const lastInclusive = taxes.reduce((last, tax, taxIdx) => (applicable[taxIdx] && tax.mode === "inclusive" ? taxIdx : last), -1);
+
+    const groupAmounts = taxes.map(() => 0);
+    let inclusiveSoFar = 0;
+    taxes.forEach((tax, taxIdx) => {
+      if (!applicable[taxIdx]) return;
+      const taxable = tax.compound ? base + sumMoney(groupAmounts.slice(0, taxIdx)) : base;
+      let amount = applyRate(taxable, percentToRate(tax.rate));
+      if (tax.mode === "inclusive") {
+        if (taxIdx === lastInclusive) amount = gross - base - inclusiveSoFar;
+        inclusiveSoFar += amount;
+      }
+      groupAmounts[taxIdx] = amount;
+    });
+
+    const groupTotal = sumMoney(groupAmounts);
+    const shares = allocate(groupTotal, tierIdxs.map((i) => tierGross[i]));
+    tierIdxs.forEach((tierIdx, j) => {
+      tierTaxes[tierIdx] += shares[j];
+    });
+    groupAmounts.forEach((amount, taxIdx) => {
+      taxAmounts[taxIdx] += amount;
+    });
+  }
+
+  return { taxAmounts, tierTaxes };
+}
+
+/** e.g. "Amusement Tax (5%, compound, included in price; exempt: Student)". */
+export function describeTax(tax: TaxResult): string {
+  const details = [`${tax.rate}%`];
+  if (tax.compound) details.push("compound");
+  if (tax.mode === "inclusive") details.push("included in price");
+  const exempt = tax.exemptTiers && tax.exemptTiers.length > 0 ? `; exempt: ${tax.exemptTiers.join(", ")}` : "";
+  return `${tax.name} (${details.join(", ")}${exempt})`;
+}
@@ -0,0 +1,98 @@
+/**
+ * Per-ticket facility fees, service charges and ticketing-provider fees.
+ * Fees are collected on top of the face price; each kind has a treatment
+ * deciding how much of it reaches the artist's (adjusted) gross.
+ */
+
+import { applyRate, formatMoney, percentToRate, sumMoney, type Money } from "./money";
+
+export type TicketFeeKind = "facility" | "service" | "provider";
+
+/**
+ * excluded — passed through (e.g. kept by the ticketing company); not show income.
+ * venue    — retained by the venue; paid to the venue outside the artist gross.
+ * split    — `artistSharePercent` goes into the artist gross, the rest to the venue.
+ */
+export type TicketFeeTreatment = "excluded" | "venue" | "split";
+
+export const TICKET_FEE_KINDS = [
+  { kind: "facility", label: "Facility Fee", field: "facilityFee", defaultTreatment: "venue" },
+  { kind: "service", label: "Service Charge", field: "serviceCharge", defaultTreatment: "excluded" },
+  { kind: "provider", label: "Provider Fee", field: "providerFee", defaultTreatment: "excluded" },
+] as const;
+
+export type TicketFeeField = (typeof TICKET_FEE_KINDS)[number]["field"];
+
+export interface TicketFeeTreatmentInput {
+  treatment: string;
+  /** split only: percentage of the fee included in the artist gross. */
+  artistSharePercent?: string;
+}
+
+export interface TierFeeLine {
+  kind: TicketFeeKind;
+  label: string;
+  perTicket: Money;
+  total: Money;
+}
+
+export interface TicketFeeSummary {
+  kind: TicketFeeKind;
+  label: string;
+  treatment: TicketFeeTreatment;
+  artistSharePercent?: number;
+  total: Money;
+  toGross: Money;
+  toVenue: Money;
+  excluded: Money;
+}
+
+export function normalizeFeeTreatment(value: string | undefined, fallback: TicketFeeTreatment): TicketFeeTreatment {
+  return value === "excluded" || value === "venue" || value === "split" ? value : fallback;
+}
+
+/**
+ * Totals each fee kind across tiers and applies its treatment. Kinds with no
+ * fees collected are omitted.
+ */
+export function summarizeTicketFees(
+  tierFees: TierFeeLine[][],
+  treatments: Partial<Record<TicketFeeKind, TicketFeeTreatmentInput>> | undefined,
+  clampPercent: (value: string, fieldName: string) => number
+): TicketFeeSummary[] {
+  const summaries: TicketFeeSummary[] = [];
+  for (const { kind, label, defaultTreatment } of TICKET_FEE_KINDS) {
+    const total = sumMoney(tierFees.flat().filter((line) => line.kind === kind).map((line) => line.total));
+    if (total <= 0) continue;
+
+    const input = treatments?.[kind];
+    const treatment = normalizeFeeTreatment(input?.treatment, defaultTreatment);
+    if (treatment === "excluded") {
+      summaries.push({ kind, label, treatment, total, toGross: 0, toVenue: 0, excluded: total });
+    } else if (treatment === "venue") {
+      summaries.push({ kind, label, treatment, total, toGross: 0, toVenue: total, excluded: 0 });
+    } else {
+      const artistSharePercent = clampPercent(input?.artistSharePercent ?? "", `${label} Artist Share`);
+      const toGross = applyRate(total, percentToRate(artistSharePercent));
+      summaries.push({ kind, label, treatment, artistSharePercent, total, toGross, toVenue: total - toGross, excluded: 0 });
+    }
+  }
+  return summaries;
+}
+
+/** e.g. "retained by venue" or "split 50% artist gross / 50% venue". */
+export function describeFeeTreatment(fee: TicketFeeSummary): string {
+  switch (fee.treatment) {
+    case "excluded":
+      return "excluded from gross";
+    case "venue":
+      return "retained by venue";
+    case "split":
+      return `split ${fee.artistSharePercent ?? 0}% artist gross / ${100 - (fee.artistSharePercent ?? 0)}% venue`;
+  }
+}
+
+/** e.g. "GA Facility Fee (400 × $2.00)". */
+export function describeTierFee(tierName: string, sold: number, line: TierFeeLine, currency: string): string {
+  return `${tierName} ${line.label} (${sold} × ${formatMoney(line.perTicket, currency)})`;
+}
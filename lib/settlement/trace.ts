@@ -0,0 +1,83 @@
+/**
+ * Derivation traces ("show your work"). As the engine settles a show it
+ * records how each headline figure was reached: every node carries its
+ * value, the formula that produced it in terms of its inputs' labels, and
+ * those inputs, down to the figures as entered. Renderers walk the tree
+ * rather than re-deriving the math, so an explanation cannot disagree with
+ * the settlement.
+ */
+
+import { formatMoney, type Money } from "./money";
+
+export type TraceUnit = "money" | "percent" | "count";
+
+export interface TraceNode {
+  label: string;
+  /** Cents for money, a percentage (e.g. 85) or a count. */
+  value: number;
+  unit: TraceUnit;
+  /** How the value was derived from `inputs`; absent on figures as entered. */
+  formula?: string;
+  inputs?: TraceNode[];
+}
+
+export interface ShowTrace {
+  netProfit: TraceNode;
+  venuePayout: TraceNode;
+}
+
+export interface ArtistTrace {
+  payout: TraceNode;
+  /** Guarantee-plus-percentage deals. */
+  overage?: TraceNode;
+  withholding?: TraceNode;
+}
+
+export function traceMoney(label: string, value: Money, formula?: string, inputs?: TraceNode[]): TraceNode {
+  return { label, value, unit: "money", ...(formula ? { formula } : {}), ...(inputs?.length ? { inputs } : {}) };
+}
+
+export function tracePercent(label: string, value: number): TraceNode {
+  return { label, value, unit: "percent" };
+}
+
+export function traceCount(label: string, value: number): TraceNode {
+  return { label, value, unit: "count" };
+}
+
+/** The node as a single figure, for reuse where its derivation is shown elsewhere. */
+export function traceLeaf(node: TraceNode): TraceNode {
+  return { label: node.label, value: node.value, unit: node.unit };
+}
+
+/**
+ * A sum of added and subtracted terms, e.g. "Gross − Tax − Expenses".
+ * `value` is the engine's figure; the terms only explain it.
+ */
+export function traceTerms(label: string, value: Money, terms: [1 | -1, TraceNode][]): TraceNode {
+  const formula = terms
+    .map(([sign, node], i) => (i === 0 ? `${sign < 0 ? "−" : ""}${node.label}` : `${sign < 0 ? "−" : "+"} ${node.label}`))
+    .join(" ");
+  return traceMoney(label, value, formula, terms.map(([, node]) => node));
+}
+
+/** Depth-first search for the first node with `label`. */
+export function findTraceNode(node: TraceNode, label: string): TraceNode | undefined {
+  if (node.label === label) return node;
+  for (const input of node.inputs ?? []) {
+    const found = findTraceNode(input, label);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function formatTraceValue(node: TraceNode, currency: string): string {
+  switch (node.unit) {
+    case "percent":
+      return `${node.value}%`;
+    case "count":
+      return node.value.toLocaleString("en-US");
+    default:
+      return formatMoney(node.value, currency);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Promoter-as-buyer shows: the promoter rents the room, settles with the
+ * artist as usual, and separately settles the rental agreement with the
+ * venue. Rent is a flat fee or a percentage of ticket sales after tax,
+ * whichever is greater; house crew is billed at no less than the venue's
+ * minimum; and bar sales below the venue's bar guarantee are made up by the
+ * promoter. The bar is the venue's: its sales are the show's bar ring, and
+ * whatever the artists' bar deals pay out comes back to the promoter from the
+ * venue.
+ */
+
+import { applyRate, formatMoney, percentToRate, type Money } from "./money";
+
+export type ShowMode = "venue" | "promoter";
+
+export function normalizeShowMode(value: string | undefined): ShowMode {
+  return value === "promoter" ? "promoter" : "venue";
+}
+
+export interface VenueRentalInput {
+  flatRent: string;
+  /** Percentage of ticket sales after tax; rent is the greater of the two. */
+  rentPercent: string;
+  /** House crew as billed, and the minimum the venue charges regardless. */
+  houseCrewCharges: string;
+  houseCrewMinimum: string;
+  /** Bar sales the venue guarantees itself; any shortfall is charged to the promoter. */
+  barGuarantee: string;
+  /** Legacy: bar sales entered here before the show's bar ring; read only when no ring is entered. */
+  barSales?: string;
+  /** Rental deposit already paid to the venue. */
+  deposit: string;
+}
+
+export interface ParsedVenueRental {
+  flatRent: Money;
+  rentPercent: number;
+  houseCrewCharges: Money;
+  houseCrewMinimum: Money;
+  barGuarantee: Money;
+  barSales: Money;
+  /** Net of the artists' bar deals, which the promoter pays out of bar money the venue keeps. */
+  artistBar: Money;
+  deposit: Money;
+}
+
+export interface VenueRentalSettlement {
+  /** Ticket sales after tax, the basis for percentage rent. */
+  rentBasis: Money;
+  flatRent: Money;
+  rentPercent: number;
+  percentageRent: Money;
+  rent: Money;
+  rentTerm: "flat" | "percentage";
+  houseCrewCharges: Money;
+  houseCrewMinimum: Money;
+  houseCrew: Money;
+  barGuarantee: Money;
+  barSales: Money;
+  barShortfall: Money;
+  /** Artists' bar deals, credited back to the promoter; absent on older results. */
+  artistBarCredit?: Money;
+  /** Rent + house crew + bar shortfall − artist bar credit. */
+  totalOwed: Money;
+  deposit: Money;
+  /** What the promoter still owes the venue tonight; negative when the deposit exceeds it. */
+  balanceDue: Money;
+  /** Promoter proceeds after the artist settlement and everything owed to the venue. */
+  promoterNet: Money;
+}
+
+/**
+ * `promoterProceeds` is the house side of the artist settlement (net after
+ * tax, expenses and artist payouts), which in a rented room belongs to the
+ * promoter before the venue is paid.
+ */
+export function settleVenueRental(
+  rental: ParsedVenueRental,
+  rentBasis: Money,
+  promoterProceeds: Money
+): VenueRentalSettlement {
+  const percentageRent = applyRate(Math.max(rentBasis, 0), percentToRate(rental.rentPercent));
+  const rentTerm = percentageRent > rental.flatRent ? "percentage" : "flat";
+  const rent = Math.max(rental.flatRent, percentageRent);
+  const houseCrew = Math.max(rental.houseCrewCharges, rental.houseCrewMinimum);
+  const barShortfall = Math.max(rental.barGuarantee - rental.barSales, 0);
+  const totalOwed = rent + houseCrew + barShortfall - rental.artistBar;
+  return {
+    rentBasis,
+    flatRent: rental.flatRent,
+    rentPercent: rental.rentPercent,
+    percentageRent,
+    rent,
+    rentTerm,
+    houseCrewCharges: rental.houseCrewCharges,
+    houseCrewMinimum: rental.houseCrewMinimum,
+    houseCrew,
+    barGuarantee: rental.barGuarantee,
+    barSales: rental.barSales,
+    barShortfall,
+    ...(rental.artistBar !== 0 ? { artistBarCredit: rental.artistBar } : {}),
+    totalOwed,
+    deposit: rental.deposit,
+    balanceDue: totalOwed - rental.deposit,
+    promoterNet: promoterProceeds - totalOwed,
+  };
+}
+
+/** e.g. "Rent (18% of $12,000.00 vs $2,000.00 flat)". */
+export function describeVenueRent(rental: VenueRentalSettlement, currency: string): string {
+  if (rental.rentPercent <= 0) return "Rent (flat)";
+  const percentage = `${rental.rentPercent}% of ${formatMoney(rental.rentBasis, currency)}`;
+  const flat = `${formatMoney(rental.flatRent, currency)} flat`;
+  return rental.rentTerm === "percentage" ? `Rent (${percentage} vs ${flat})` : `Rent (${flat} vs ${percentage})`;
+}
+
+/** e.g. "House Crew (minimum $1,500.00, billed $1,200.00)". */
+export function describeHouseCrew(rental: VenueRentalSettlement, currency: string): string {
+  if (rental.houseCrewMinimum <= 0) return "House Crew";
+  return `House Crew (minimum ${formatMoney(rental.houseCrewMinimum, currency)}, billed ${formatMoney(rental.houseCrewCharges, currency)})`;
+}
+
+/** The promoter paid the artists' bar deals; the venue, which keeps the bar, credits them back. */
+export const ARTIST_BAR_CREDIT_LABEL = "Artist Bar Deals (credited from the venue's bar)";
+
+/** e.g. "Bar Guarantee Shortfall ($3,000.00 guaranteed, $2,400.00 sold)". */
+export function describeBarShortfall(rental: VenueRentalSettlement, currency: string): string {
+  return `Bar Guarantee Shortfall (${formatMoney(rental.barGuarantee, currency)} guaranteed, ${formatMoney(rental.barSales, currency)} sold)`;
+}
@@ -0,0 +1,35 @@
+/**
+ * Sequential multi-act settlement: artists settle in bill order and an
+ * artist's payout can be a show cost for the artists after them (e.g. the
+ * support guarantees come off the net before the headliner's percentage).
+ */
+
+import { formatMoney, type Money } from "./money";
+
+/**
+ * parallel   — every artist settles against the same net.
+ * sequential — artists settle in order; earlier payouts are costs for later artists.
+ */
+export type ArtistAllocation = "parallel" | "sequential";
+
+export interface ArtistWaterfallStep {
+  artistName: string;
+  /** Payouts of earlier artists charged before this artist's deal. */
+  priorArtistCosts: Money;
+  /** Net this artist's deal was settled against (after their expense terms). */
+  settledNet: Money;
+  artistPayout: Money;
+  /** This artist's payout is a cost for the artists after them. */
+  costToLaterArtists: boolean;
+}
+
+export function normalizeArtistAllocation(value: string | undefined): ArtistAllocation {
+  return value === "sequential" ? "sequential" : "parallel";
+}
+
+/** e.g. "Headliner settled on net $12,000.00 (after $3,000.00 of earlier artist payouts)". */
+export function describeWaterfallStep(step: ArtistWaterfallStep, currency: string): string {
+  const prior =
+    step.priorArtistCosts > 0 ? ` (after ${formatMoney(step.priorArtistCosts, currency)} of earlier artist payouts)` : "";
+  return `${step.artistName} settled on net ${formatMoney(step.settledNet, currency)}${prior}`;
+}
@@ -0,0 +1,89 @@
+-- Multi-night runs: shows grouped into one cross-collateralized settlement
+create table "public"."runs" (
+  "id" uuid not null default gen_random_uuid(),
+  "user_id" uuid not null,
+  "title" text,
+  "results" jsonb not null default '{}'::jsonb,
+  "created_at" timestamp with time zone not null default now(),
+  "updated_at" timestamp with time zone not null default now()
+);
+
+-- Enable Row Level Security
+alter table "public"."runs" enable row level security;
+
+-- Create indexes for fast lookups
+create index "runs_user_id_idx" on "public"."runs" using btree ("user_id");
+
+-- Add primary key
+create unique index "runs_pkey" on "public"."runs" using btree ("id");
+alter table "public"."runs" add constraint "runs_pkey" primary key using index "runs_pkey";
+
+-- Add foreign key to auth.users
+alter table "public"."runs" add constraint "runs_user_id_fkey" foreign key ("user_id") references "auth"."users"("id") on delete cascade not valid;
+alter table "public"."runs" validate constraint "runs_user_id_fkey";
+
+-- Nights of a run; deleting the run leaves its shows in place
+alter table "public"."shows" add column "run_id" uuid;
+create index "shows_run_id_idx" on "public"."shows" using btree ("run_id");
+alter table "public"."shows" add constraint "shows_run_id_fkey" foreign key ("run_id") references "public"."runs"("id") on delete set null not valid;
+alter table "public"."shows" validate constraint "shows_run_id_fkey";
+
+-- Grant permissions
+grant delete on table "public"."runs" to "anon";
+grant insert on table "public"."runs" to "anon";
+grant references on table "public"."runs" to "anon";
+grant select on table "public"."runs" to "anon";
+grant trigger on table "public"."runs" to "anon";
+grant truncate on table "public"."runs" to "anon";
+grant update on table "public"."runs" to "anon";
+
+grant delete on table "public"."runs" to "authenticated";
+grant insert on table "public"."runs" to "authenticated";
+grant references on table "public"."runs" to "authenticated";
+grant select on table "public"."runs" to "authenticated";
+grant trigger on table "public"."runs" to "authenticated";
+grant truncate on table "public"."runs" to "authenticated";
+grant update on table "public"."runs" to "authenticated";
+
+grant delete on table "public"."runs" to "service_role";
+grant insert on table "public"."runs" to "service_role";
+grant references on table "public"."runs" to "service_role";
+grant select on table "public"."runs" to "service_role";
+grant trigger on table "public"."runs" to "service_role";
+grant truncate on table "public"."runs" to "service_role";
+grant update on table "public"."runs" to "service_role";
+
+-- RLS Policies: same ownership rules as shows
+create policy "runs_select_own"
+on "public"."runs"
+as permissive
+for select
+to public
+using (auth.uid() = user_id);
+
+create policy "runs_insert_own"
+on "public"."runs"
+as permissive
+for insert
+to public
+with check (auth.uid() = user_id);
+
+create policy "runs_update_own"
+on "public"."runs"
+as permissive
+for update
+to public
+using (auth.uid() = user_id);
+
+create policy "runs_delete_own"
+on "public"."runs"
+as permissive
+for delete
+to public
+using (auth.uid() = user_id);
+
+-- Add updated_at trigger
+create trigger "handle_runs_updated_at"
+before update on "public"."runs"
+for each row
+execute function "public"."handle_updated_at"();
@@ -0,0 +1,63 @@
+-- Post-settlement adjustments ledger: append-only entries per show
+create table "public"."show_adjustments" (
+  "id" uuid not null default gen_random_uuid(),
+  "show_id" uuid not null,
+  "user_id" uuid not null,
+  "kind" text not null,
+  "entry_date" date not null,
+  "amount_cents" bigint not null,
+  "reason" text not null,
+  "artist_share_percent" numeric not null default 100,
+  "created_at" timestamp with time zone not null default now()
+);
+
+-- Enable Row Level Security
+alter table "public"."show_adjustments" enable row level security;
+
+-- Create indexes for fast lookups
+create index "show_adjustments_show_id_idx" on "public"."show_adjustments" using btree ("show_id");
+
+-- Add primary key
+create unique index "show_adjustments_pkey" on "public"."show_adjustments" using btree ("id");
+alter table "public"."show_adjustments" add constraint "show_adjustments_pkey" primary key using index "show_adjustments_pkey";
+
+-- Add foreign keys; deleting the show deletes its ledger
+alter table "public"."show_adjustments" add constraint "show_adjustments_show_id_fkey" foreign key ("show_id") references "public"."shows"("id") on delete cascade not valid;
+alter table "public"."show_adjustments" validate constraint "show_adjustments_show_id_fkey";
+alter table "public"."show_adjustments" add constraint "show_adjustments_user_id_fkey" foreign key ("user_id") references "auth"."users"("id") on delete cascade not valid;
+alter table "public"."show_adjustments" validate constraint "show_adjustments_user_id_fkey";
+
+-- Value checks
+alter table "public"."show_adjustments" add constraint "show_adjustments_kind_check" check ("kind" in ('refund', 'chargeback', 'late_invoice', 'correction'));
+alter table "public"."show_adjustments" add constraint "show_adjustments_artist_share_check" check ("artist_share_percent" >= 0 and "artist_share_percent" <= 100);
+
+-- Grant permissions: append-only, so no update or delete outside the service role
+grant insert on table "public"."show_adjustments" to "authenticated";
+grant select on table "public"."show_adjustments" to "authenticated";
+
+grant delete on table "public"."show_adjustments" to "service_role";
+grant insert on table "public"."show_adjustments" to "service_role";
+grant references on table "public"."show_adjustments" to "service_role";
+grant select on table "public"."show_adjustments" to "service_role";
+grant trigger on table "public"."show_adjustments" to "service_role";
+grant truncate on table "public"."show_adjustments" to "service_role";
+grant update on table "public"."show_adjustments" to "service_role";
+
+-- RLS Policies: owners of the show can read and append; there are no update or delete policies
+create policy "show_adjustments_select_own"
+on "public"."show_adjustments"
+as permissive
+for select
+to public
+using (auth.uid() = user_id);
+
+create policy "show_adjustments_insert_own"
+on "public"."show_adjustments"
+as permissive
+for insert
+to public
+with check ((auth.uid() = user_id) and (exists (
+  select 1
+  from public.shows s
+  where ((s.id = show_adjustments.show_id) and (s.user_id = auth.uid()))
+)));